@@ -2,8 +2,9 @@ import { Injectable, Logger } from '@nestjs/common';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { initChatModel } from 'langchain/chat_models/universal';
 import { z } from 'zod';
-import { CheckpointHappyPathTestRun, CheckpointUnhappyPathTestRun, PricingAgentCheckpoint, DatasetHappyPathTestData, DatasetUnhappyPathTestData } from '../models/mongodb.model';
+import { CheckpointHappyPathTestRun, CheckpointUnhappyPathTestRun, PricingAgentCheckpoint, DatasetHappyPathTestData, DatasetUnhappyPathTestData, LlmOperation } from '../models/mongodb.model';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmUsageService } from '../services/llm-usage.service';
 
 export interface AiDatasetToTestsetGenerationRequest {
   happyPathTests: DatasetHappyPathTestData[];
@@ -27,7 +28,7 @@ const TypedOrderInputSchema = z.object({
 export class AiDatasetToTestsetGenerationAgentService {
   private readonly logger = new Logger(AiDatasetToTestsetGenerationAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiTestsetGenerationAgentService initialized');
   }
 
@@ -38,6 +39,7 @@ export class AiDatasetToTestsetGenerationAgentService {
       // Create LLM instance directly using initChatModel
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.TESTSET_GENERATION),
       });
 
       // Generate the prompt using the embedded template
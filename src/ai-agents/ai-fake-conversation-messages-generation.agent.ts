@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { z } from 'zod';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmOperation } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
 import { initChatModel } from 'langchain/chat_models/universal';
 
 export interface FakeConversationMessagesGenerationRequest {
@@ -30,7 +32,7 @@ const DemoConversationSchema = z.object({
 export class AiFakeConversationMessagesGenerationAgentService {
   private readonly logger = new Logger(AiFakeConversationMessagesGenerationAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiDemoConversationAgentService initialized');
   }
 
@@ -46,6 +48,7 @@ export class AiFakeConversationMessagesGenerationAgentService {
       // Get the LLM instance
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.CONVERSATION_GENERATION),
       });
 
       // Generate the demo conversation
@@ -3,12 +3,15 @@ import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { initChatModel } from 'langchain/chat_models/universal';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmOperation } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
 
 export interface FunctionGenerationRequest {
   pricingDescription: string;
   schema: string;
   feedback?: string;
   currentFunction?: string;
+  currency?: string | null; // ISO 4217 currency the agent prices in
 }
 
 export interface GeneratedFunction {
@@ -35,7 +38,7 @@ export interface GeneratedFunction {
 export class AiFormulaGenerationAgentService {
   private readonly logger = new Logger(AiFormulaGenerationAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiFormulaGenerationAgentService initialized');
   }
 
@@ -51,6 +54,7 @@ export class AiFormulaGenerationAgentService {
       // Create LLM instance directly using initChatModel
       const llm = await initChatModel(llmConfig.model, {
       ...llmConfig.additionalConfig,
+      callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.FORMULA_GENERATION),
       });
 
       // Generate the TypeScript function
@@ -313,6 +317,8 @@ Your task is to generate clean, efficient, and deterministic TypeScript function
   - Ensure backtrace captures both successful calculations and validation failures
   - Use consistent operation naming conventions (snake_case for operations)
   - Include calculation formulas and values in backtrace descriptions
+  - Compute all amounts in the currency given in <currency>, never convert between currencies and do not return a currency, the engine sets it on the QuoteResult
+  - Write amounts in error messages and backtrace descriptions with the currency code instead of a currency symbol (e.g. 'Minimum order is 200 EUR') when a currency is given
   - Track error conditions separately from successful operations in backtrace
   </constraints>
 
@@ -325,6 +331,8 @@ Your task is to generate clean, efficient, and deterministic TypeScript function
 
   <pricing-rules-in-natural-language>${request.pricingDescription}</pricing-rules-in-natural-language>
 
+  ${request.currency ? `<currency>${request.currency}</currency>` : ''}
+
   ${request.currentFunction ? `<current-function>
   ${request.currentFunction}
   </current-function>` : ''}
@@ -2,9 +2,10 @@ import { Injectable, Logger } from '@nestjs/common';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { HumanMessage } from '@langchain/core/messages';
 import { initChatModel } from 'langchain/chat_models/universal';
-import { HappyPathTestData } from 'src/models/mongodb.model';
+import { HappyPathTestData, LlmOperation } from 'src/models/mongodb.model';
 import { z } from 'zod';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmUsageService } from '../services/llm-usage.service';
 
 const HappyPathTestDataSchema = z.object({
   tests: z.array(z.object({
@@ -18,7 +19,7 @@ const HappyPathTestDataSchema = z.object({
 export class AiHappyPathDatasetGenerationAgentService {
   private readonly logger = new Logger(AiHappyPathDatasetGenerationAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiHappyPathDatasetGenerationAgentService initialized');
   }
 
@@ -34,6 +35,7 @@ export class AiHappyPathDatasetGenerationAgentService {
       // Create LLM instance directly using initChatModel
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.HAPPY_PATH_DATASET_GENERATION),
       });
 
       // Generate the test scenarios as JSON
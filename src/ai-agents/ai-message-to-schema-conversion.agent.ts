@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { z } from 'zod';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmOperation, MissingOrderField } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
 import { initChatModel } from 'langchain/chat_models/universal';
 
 export interface MessageToSchemaConversionRequest {
@@ -11,21 +13,29 @@ export interface MessageToSchemaConversionRequest {
   }>;
   newUserMessage: string;
   schema: string;
+  currentStructuredOrder?: any; // order derived from the conversation so far, updated with the new message
 }
 
 export interface MessageToSchemaConversionResponse {
   structuredOrderInput: any;
+  missingFields: MissingOrderField[]; // required fields the conversation does not provide or leaves ambiguous, left out of structuredOrderInput
+  locale: string | null; // BCP 47 locale of the language the customer writes in, null when it cannot be told
 }
 
 const OrderConversionSchema = z.object({
-  structuredOrderInput: z.any().describe('The structured order input object that matches the provided OrderInput schema')
+  structuredOrderInput: z.any().describe('The structured order input object that matches the provided OrderInput schema'),
+  missingFields: z.array(z.object({
+    path: z.string().describe('JSON pointer of the OrderInput field'),
+    reason: z.string().describe('What the customer still has to provide or clarify'),
+  })).optional().describe('Required fields the conversation does not provide or leaves ambiguous'),
+  locale: z.string().nullable().optional().describe('BCP 47 locale of the language the customer writes in')
 }).describe('Schema for converting natural language order into structured JSON object');
 
 @Injectable()
 export class AiMessageToSchemaConversionAgentService {
   private readonly logger = new Logger(AiMessageToSchemaConversionAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiOrderConversionAgentService initialized');
   }
 
@@ -35,13 +45,14 @@ export class AiMessageToSchemaConversionAgentService {
     try {
       // Generate the prompt using the embedded template
       const systemPrompt = this.generateSystemPrompt();
-      const userMessage = this.generateUserMessage(request.conversationHistory, request.newUserMessage, request.schema);
+      const userMessage = this.generateUserMessage(request.conversationHistory, request.newUserMessage, request.schema, request.currentStructuredOrder);
 
       this.logger.debug(`Prompt generated: ${systemPrompt.length + userMessage.length} characters`);
 
       // Get the LLM instance
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.ORDER_CONVERSION),
       });
 
       // Generate the structured order as JSON
@@ -55,6 +66,8 @@ export class AiMessageToSchemaConversionAgentService {
 
       return {
         structuredOrderInput: llmResult.structuredOrderInput,
+        missingFields: llmResult.missingFields ?? [],
+        locale: llmResult.locale ?? null,
       };
     } catch (error) {
       this.logger.error(`Failed to convert order: ${error.message}`, error.stack);
@@ -67,17 +80,20 @@ export class AiMessageToSchemaConversionAgentService {
 Your task is to parse human-readable order descriptions and convert them into properly formatted data structures that match the provided schema.</role>
 
 <task>Convert the natural language order description into a structured JSON object that matches the provided OrderInput schema.
-The output must include the structuredOrderInput that matches the schema exactly.
+The output must include the structuredOrderInput that matches the schema exactly, and the missingFields the customer still has to provide.
 
 Key Requirements:
 - The structured data must accurately represent all services, options, and constraints explicitly mentioned in the natural language input
 - Do not add any services, options, or constraints not present in the input description
 - Focus on input structure only; ensure the JSON matches the provided schema exactly
+- Never guess a value for a required field: when the conversation does not provide it, or leaves it ambiguous between several values, leave it out and report it in missingFields
 - Ensure the output is valid JSON that can be parsed without errors
 
 The output must include:
 - structuredOrderInput as a valid OrderInput object matching the schema exactly
-- Proper JSON structure for all input components matching the OrderInput schema</task>
+- Proper JSON structure for all input components matching the OrderInput schema
+- missingFields as a list of { "path": JSON pointer of the field, "reason": what the customer still has to provide or clarify }, empty when the order is complete
+- locale as the BCP 47 locale of the language the customer writes in (e.g. "en", "de-DE", "pt-BR"), based on the customer's messages, null when it cannot be told</task>
 
 <example>
 
@@ -142,15 +158,41 @@ New User Message: "That covers everything. Please proceed with getting me a quot
         "quantity": 1
       }
     ]
-  }
+  },
+  "missingFields": [],
+  "locale": "en"
 }
 </output-example>
+
+<incomplete-output-example>
+If the customer had only said "General cleaning and also my sofa needs cleaning":
+{
+  "structuredOrderInput": {
+    "services": [
+      {
+        "type": "GeneralCleaning",
+        "numberOfVisits": 1
+      },
+      {
+        "type": "Upholstery",
+        "quantity": 1
+      }
+    ]
+  },
+  "missingFields": [
+    { "path": "/services/0/option", "reason": "Duration of the general cleaning is not specified" },
+    { "path": "/services/1/item", "reason": "Size of the sofa is not specified" }
+  ],
+  "locale": "en"
+}
+</incomplete-output-example>
 </example>
 
 <constraints>
 - **CRITICAL: You MUST generate a structured output for the input provided**
-- Output must be valid JSON with a single key "structuredOrderInput"
-- structuredOrderInput must be a valid OrderInput object matching the schema exactly
+- Output must be valid JSON with the keys "structuredOrderInput", "missingFields" and "locale"
+- Keep the property names and enum values of the schema whatever language the customer writes in
+- structuredOrderInput must match the schema exactly, except for the required fields listed in missingFields
 - Use correct enum values and data types
 - Include all required fields for each service type
 - Handle quantities and visit numbers correctly
@@ -167,13 +209,23 @@ The JSON must be syntactically correct and directly usable in a JavaScript/TypeS
 </output-format>`;
   }
 
-  private generateUserMessage(conversationHistory: Array<{message: string; role: 'AI' | 'User'}>, newUserMessage: string, schema: string): string {
+  private generateUserMessage(conversationHistory: Array<{message: string; role: 'AI' | 'User'}>, newUserMessage: string, schema: string, currentStructuredOrder?: any): string {
+    const currentOrder = currentStructuredOrder
+      ? `
+<current-structured-order>
+${JSON.stringify(currentStructuredOrder, null, 2)}
+</current-structured-order>
+
+This is the order converted from the conversation history. Update it with the new user message: keep what the new message does not change, add what it adds, and remove what it removes.
+`
+      : '';
+
     return `Convert the following conversation into a structured JSON object according to the provided OrderInput schema.
 
 <conversation-history>
 ${JSON.stringify(conversationHistory, null, 2)}
 </conversation-history>
-
+${currentOrder}
 <new-user-message>
 ${newUserMessage}
 </new-user-message>
@@ -208,6 +260,17 @@ ${schema}
         throw new Error('LLM response does not contain expected "structuredOrder" field');
       }
 
+      if (!Array.isArray(parsedOutput.missingFields)) {
+        parsedOutput.missingFields = [];
+      }
+      parsedOutput.missingFields = parsedOutput.missingFields
+        .filter((field: any) => typeof field?.path === 'string')
+        .map((field: any) => ({ path: field.path, reason: String(field.reason ?? 'is missing') }));
+
+      if (typeof parsedOutput.locale !== 'string' || !parsedOutput.locale) {
+        parsedOutput.locale = null;
+      }
+
       this.logger.log(`Successfully converted LLM output to schema format`);
       return parsedOutput as z.infer<typeof OrderConversionSchema>;
 
@@ -1,8 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { z } from 'zod';
-import { QuoteResult } from '../models/mongodb.model';
+import { QuoteResult, LlmOperation, MissingOrderField } from '../models/mongodb.model';
 import { LangchainCongigService, LangchainInitModelConfig } from './langchain-config.service';
+import { LlmUsageService } from '../services/llm-usage.service';
 import { initChatModel } from 'langchain/chat_models/universal';
 
 export interface NaturalLanguageResponseGenerationRequest {
@@ -10,8 +11,11 @@ export interface NaturalLanguageResponseGenerationRequest {
     message: string;
     role: 'AI' | 'User';
   }>;
-  functionResult: QuoteResult;
+  functionResult: QuoteResult | null; // null when the order is incomplete and was not priced
+  missingFields?: MissingOrderField[]; // when not empty, the message asks the customer for these fields instead of quoting
   pricingAgentContext: string;
+  locale?: string; // BCP 47 locale to write the message in, the language of the conversation when not set
+  formattedTotal?: string | null; // total formatted for the locale and currency, quoted as it is
 }
 
 export interface NaturalLanguageResponseGenerationResponse {
@@ -26,7 +30,10 @@ const PlaygroundMessageSchema = z.object({
 export class NaturalLanguageResponseGenerationAgentService {
   private readonly logger = new Logger(NaturalLanguageResponseGenerationAgentService.name);
 
-  constructor(private readonly llmService: LangchainCongigService) {
+  constructor(
+    private readonly llmService: LangchainCongigService,
+    private readonly llmUsageService: LlmUsageService,
+  ) {
     this.logger.log('AiPlaygroundMessageAgentService initialized');
   }
 
@@ -35,13 +42,14 @@ export class NaturalLanguageResponseGenerationAgentService {
 
     try {
       // Generate the prompt using the embedded template
-      const prompt = this.generatePrompt(request.conversation, request.functionResult, request.pricingAgentContext);
+      const prompt = this.generatePrompt(request);
 
       this.logger.debug(`Prompt generated: ${prompt.systemPrompt.length} characters`);
 
       // Create LLM instance directly using initChatModel
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.RESPONSE_GENERATION),
       });
       
       // Generate the AI message
@@ -62,7 +70,46 @@ export class NaturalLanguageResponseGenerationAgentService {
     }
   }
 
-  private generatePrompt(conversation: Array<{message: string; role: 'AI' | 'User'}>, functionResult: QuoteResult, pricingAgentContext: string): { systemPrompt: string; userMessage: string } {
+  /**
+   * Streams the AI message as plain text chunks while the LLM generates it, for the streaming chat endpoints
+   */
+  async *streamPlaygroundMessage(request: NaturalLanguageResponseGenerationRequest, llmConfig: LangchainInitModelConfig): AsyncGenerator<string> {
+    this.logger.log(`Streaming AI playground message`);
+
+    try {
+      const prompt = this.generatePrompt(request, 'text');
+
+      this.logger.debug(`Prompt generated: ${prompt.systemPrompt.length} characters`);
+
+      const llm = await initChatModel(llmConfig.model, {
+        ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.RESPONSE_GENERATION),
+      });
+
+      const stream = await llm.stream([
+        new SystemMessage(prompt.systemPrompt),
+        new HumanMessage(prompt.userMessage)
+      ]);
+
+      for await (const chunk of stream) {
+        const text = typeof chunk.content === 'string'
+          ? chunk.content
+          : chunk.content.map(part => part.type === 'text' ? (part as { text: string }).text : '').join('');
+        if (text) {
+          yield text;
+        }
+      }
+
+      this.logger.log(`Successfully streamed playground message`);
+    } catch (error) {
+      this.logger.error(`Failed to stream playground message: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private generatePrompt(request: NaturalLanguageResponseGenerationRequest, outputFormat: 'json' | 'text' = 'json'): { systemPrompt: string; userMessage: string } {
+    const { conversation, functionResult, missingFields, pricingAgentContext, locale, formattedTotal } = request;
+
     // Format conversation history
     const conversationHistory = conversation.map(msg => ({
       message: msg.message,
@@ -82,7 +129,7 @@ export class NaturalLanguageResponseGenerationAgentService {
   <context>
   The playground allows users to interact with pricing agents that calculate quotes based on structured order inputs. The AI receives:
   - Conversation history with messages and roles (AI/User)
-  - Function execution results (pricing calculations)
+  - Function execution results (pricing calculations), or the missing fields when the order is incomplete and was not priced
   - Pricing agent context (business rules, pricing logic, etc.)
   </context>
 
@@ -118,6 +165,10 @@ export class NaturalLanguageResponseGenerationAgentService {
   - Explain pricing breakdown when relevant
   - Address any specific questions from the conversation
   - Handle error cases gracefully (if functionResult contains errors)
+  - Write the response in the language of the given locale, or in the language of the conversation when no locale is given
+  - When a formatted total is given, quote it exactly as formatted instead of formatting the total yourself
+  - When a conversion is given, the total was converted from conversion.fromCurrency: the prices of the pricing agent context are in conversion.fromCurrency, so name that currency whenever you mention one of them
+  - When missing fields are given, the order could not be priced yet: do not mention a price, ask one short, targeted follow-up question for the missing fields instead
   - Stay in character as a pricing assistant
   - Be concise but comprehensive
   - Use professional but friendly tone
@@ -125,26 +176,31 @@ export class NaturalLanguageResponseGenerationAgentService {
   </constraints>
 
   <output-format>
-  Generate only a valid JSON object with an "aiMessage" field containing the response text. No additional text, explanations, or markdown formatting.
+  ${outputFormat === 'json'
+    ? 'Generate only a valid JSON object with an "aiMessage" field containing the response text. No additional text, explanations, or markdown formatting.'
+    : 'Generate only the response text itself. No JSON, additional text, explanations, or markdown formatting.'}
   </output-format>`;
 
-    // Create a simplified function result for the prompt (only total and errors)
-    const simplifiedFunctionResult = {
-      total: functionResult.total,
-      errors: functionResult.errors || []
-    };
+    // Create a simplified function result for the prompt (only total, conversion and errors), or the fields to ask for
+    const result = missingFields?.length || !functionResult
+      ? `<missing-fields>
+  ${JSON.stringify(missingFields ?? [], null, 2)}
+  </missing-fields>`
+      : `<function-result>
+  ${JSON.stringify({ total: functionResult.total, formattedTotal: formattedTotal ?? undefined, conversion: functionResult.conversion, errors: functionResult.errors || [] }, null, 2)}
+  </function-result>`;
 
     const userMessage = `<conversation-history>
   ${JSON.stringify(conversationHistory, null, 2)}
   </conversation-history>
 
-  <function-result>
-  ${JSON.stringify(simplifiedFunctionResult, null, 2)}
-  </function-result>
+  ${result}
 
   <pricing-agent-context>
   ${pricingAgentContext}
-  </pricing-agent-context>`;
+  </pricing-agent-context>${locale ? `
+
+  <locale>${locale}</locale>` : ''}`;
 
     return { systemPrompt, userMessage };
   }
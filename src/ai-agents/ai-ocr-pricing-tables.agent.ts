@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
 import { ExtractedPricingTable, PricingTableExtractionRequest } from 'src/dtos/text-extraction.dto';
 import { LangchainCongigService, LangchainInitModelConfig } from './langchain-config.service';
+import { LlmOperation } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
 import { initChatModel } from 'langchain/chat_models/universal';
 
 
@@ -9,7 +11,10 @@ import { initChatModel } from 'langchain/chat_models/universal';
 export class AiOcrPricingTablesAgentService {
   private readonly logger = new Logger(AiOcrPricingTablesAgentService.name);
 
-  constructor(private readonly llmService: LangchainCongigService) {
+  constructor(
+    private readonly llmService: LangchainCongigService,
+    private readonly llmUsageService: LlmUsageService,
+  ) {
     this.logger.log('AiPricingTableExtractionAgentService initialized');
   }
 
@@ -33,6 +38,7 @@ export class AiOcrPricingTablesAgentService {
 
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.PRICING_TABLE_EXTRACTION),
       });
 
       // Extract pricing table using vision capabilities
@@ -2,11 +2,14 @@ import { Injectable, Logger } from '@nestjs/common';
 import { HumanMessage } from '@langchain/core/messages';
 import { initChatModel } from 'langchain/chat_models/universal';
 import { LangchainInitModelConfig } from './langchain-config.service';
+import { LlmOperation } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
 
 export interface SchemaGenerationRequest {
   inputMessage: string;
   feedback?: string;
   currentSchema?: string;
+  currency?: string | null; // ISO 4217 currency the agent prices in
 }
 
 export interface GeneratedSchema {
@@ -31,7 +34,7 @@ export interface GeneratedSchema {
 export class AiSchemaGenerationAgentService {
   private readonly logger = new Logger(AiSchemaGenerationAgentService.name);
 
-  constructor() {
+  constructor(private readonly llmUsageService: LlmUsageService) {
     this.logger.log('AiSchemaGenerationAgentService initialized');
   }
 
@@ -47,6 +50,7 @@ export class AiSchemaGenerationAgentService {
       // Create LLM instance directly using initChatModel
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.SCHEMA_GENERATION),
       });
 
       // Generate the TypeScript types
@@ -173,6 +177,10 @@ export interface OrderInput {
 ${request.inputMessage}
 </pricing-rules-in-natural-language>
 
+${request.currency ? `<currency>
+All prices of the pricing rules are in ${request.currency}, the currency the quotes are computed in.
+</currency>` : ''}
+
 ${request.currentSchema ? `<current-schema>
 ${request.currentSchema}
 </current-schema>` : ''}
@@ -192,6 +200,7 @@ ${request.feedback}
 - Include array types for services and add-ons where applicable
 - Ensure types are self-contained and don't reference external types
 - Focus on type order definitions needed for quoting
+- Do not add currency or price fields to the order input, prices are always computed in the currency of the pricing agent
 </constraints>
 
 <output-format>
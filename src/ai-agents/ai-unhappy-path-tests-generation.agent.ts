@@ -1,9 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { SystemMessage, HumanMessage } from '@langchain/core/messages';
-import { UnhappyPathTestData, ExpectedErrorType } from 'src/models/mongodb.model';
+import { UnhappyPathTestData, ExpectedErrorType, LlmOperation } from 'src/models/mongodb.model';
 import { z } from 'zod';
 import { LangchainCongigService, LangchainInitModelConfig } from './langchain-config.service';
+import { LlmUsageService } from '../services/llm-usage.service';
 import { initChatModel } from 'langchain/chat_models/universal';
 
 const UnhappyPathTestDataSchema = z.object({
@@ -18,7 +19,10 @@ const UnhappyPathTestDataSchema = z.object({
 export class AiUnhappyPathDatasetGenerationAgentService {
   private readonly logger = new Logger(AiUnhappyPathDatasetGenerationAgentService.name);
 
-  constructor(private readonly llmService: LangchainCongigService) {
+  constructor(
+    private readonly llmService: LangchainCongigService,
+    private readonly llmUsageService: LlmUsageService,
+  ) {
     this.logger.log('AiUnhappyPathDatasetGenerationAgentService initialized');
   }
 
@@ -34,6 +38,7 @@ export class AiUnhappyPathDatasetGenerationAgentService {
       // Get the LLM instance
       const llm = await initChatModel(llmConfig.model, {
         ...llmConfig.additionalConfig,
+        callbacks: this.llmUsageService.createUsageCallbacks(llmConfig, LlmOperation.UNHAPPY_PATH_DATASET_GENERATION),
       });
 
       // Generate the test scenarios as JSON
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { LLMConfiguration, LLMProvider, SubscriptionPlan } from '../models/mongodb.model';
+import { LLMConfiguration, LLMProvider, LlmPurpose, SubscriptionPlan, Tenant } from '../models/mongodb.model';
 import { TenantService } from '../services/tenant.service';
 
 export interface LangchainInitModelConfig {
@@ -8,19 +8,46 @@ export interface LangchainInitModelConfig {
   apiKey: string;
   baseUrl?: string;
   additionalConfig?: Record<string, any>;
+  usageContext: LlmUsageContext; // what the calls made with this configuration are recorded for
 }
 
+/**
+ * Tags the LLM usage recorded for the calls made with a configuration
+ */
+export interface LlmUsageContext {
+  tenantId?: string;
+  purpose: LlmPurpose;
+  pricingAgentId?: string;
+  checkpointId?: string;
+  byok: boolean; // made with the tenant's own API key, not billed
+}
+
+// The pricing agent and checkpoint an LLM configuration is requested for
+export type LlmUsageScope = Pick<LlmUsageContext, 'pricingAgentId' | 'checkpointId'>;
+
+type TenantLlmConfigurationField = 'builderLlmConfiguration' | 'chatbotLlmConfiguration';
+
+// Tenant configurations tried in order for each purpose, the first valid one is used
+const LLM_PURPOSE_FALLBACKS: Record<LlmPurpose, TenantLlmConfigurationField[]> = {
+  [LlmPurpose.BUILDER]: ['builderLlmConfiguration'],
+  [LlmPurpose.CHATBOT]: ['chatbotLlmConfiguration', 'builderLlmConfiguration'],
+  [LlmPurpose.EXTRACTION]: ['builderLlmConfiguration'],
+  [LlmPurpose.TEST_GENERATION]: ['builderLlmConfiguration'],
+};
+
 @Injectable()
 export class LangchainCongigService {
   private readonly logger = new Logger(LangchainCongigService.name);
 
-  constructor(private readonly tenantService: TenantService) {}
+  constructor(
+    private readonly tenantService: TenantService,
+  ) {}
 
 
   /**
    * Creates a default LLM configuration (Google Vertex AI with Gemini)
    */
-  getDefaultLLMConfig(): LangchainInitModelConfig {
+  getDefaultLLMConfig(): Omit<LangchainInitModelConfig, 'usageContext'> {
     return {
       provider: LLMProvider.GOOGLE_GENAI,
       model: 'gemini-2.5-flash',
@@ -61,41 +88,63 @@ export class LangchainCongigService {
   }
 
   /**
-   * Gets tenant-specific LLM configuration with validation and fallback logic
+   * Gets tenant-specific LLM configuration for a purpose with validation and fallback logic.
+   * An invalid configuration is skipped in favour of the next fallback of the purpose.
+   * The scope tags the usage recorded for the calls made with the configuration.
    */
-  async getTenantLLMConfig(tenantId?: string): Promise<LangchainInitModelConfig> {
+  async getTenantLLMConfig(tenantId: string | undefined, purpose: LlmPurpose, scope: LlmUsageScope = {}): Promise<LangchainInitModelConfig> {
     if (!tenantId) {
-      return this.getDefaultLLMConfig(); // Use default configuration
+      // Use default configuration
+      return { ...this.getDefaultLLMConfig(), usageContext: { ...scope, tenantId, purpose, byok: false } };
     }
 
     try {
       const tenant = await this.tenantService.getTenantByIdInternal(tenantId);
-      if (tenant?.builderLlmConfiguration) {
-        const validation = this.validateLLMConfig(tenant.builderLlmConfiguration);
-        if (validation.isValid) {
-          return {
-            provider: tenant.builderLlmConfiguration.provider,
-            model: tenant.builderLlmConfiguration.model,
-            apiKey: tenant.builderLlmConfiguration.apiKey,
-            baseUrl: tenant.builderLlmConfiguration.baseUrl,
-            additionalConfig: {
-              modelProvider: tenant.builderLlmConfiguration.provider,
-              apiKey: tenant.builderLlmConfiguration.apiKey,
-              ...tenant.builderLlmConfiguration.additionalConfig,
-            }
-          };
-        } else {
-          this.logger.warn(`Invalid LLM configuration for tenant ${tenantId}: ${validation.errors.join(', ')}`);
-          throw new Error(`Invalid LLM configuration for tenant ${tenantId}`);
-        }
+      const configuration = this.resolvePurposeConfiguration(tenant, purpose, tenantId);
+      if (configuration) {
+        return {
+          provider: configuration.provider,
+          model: configuration.model,
+          apiKey: configuration.apiKey,
+          baseUrl: configuration.baseUrl,
+          additionalConfig: {
+            modelProvider: configuration.provider,
+            apiKey: configuration.apiKey,
+            ...configuration.additionalConfig,
+          },
+          usageContext: { ...scope, tenantId, purpose, byok: configuration.useByok },
+        };
       } else if (!tenant?.subscription || !tenant.subscription.plan || tenant.subscription.plan === SubscriptionPlan.FREE) {
         throw new Error(`Tenant ${tenantId} does not have a valid subscription plan`);
       }
     } catch (error) {
-      this.logger.error(`Failed to get LLM configuration for tenant ${tenantId}: ${error.message}`);
+      this.logger.error(`Failed to get ${purpose} LLM configuration for tenant ${tenantId}: ${error.message}`);
       throw error;
     }
 
-    throw new Error(`Failed to get LLM configuration for tenant ${tenantId}: Unknown reason`);
-  }  
+    throw new Error(`Failed to get ${purpose} LLM configuration for tenant ${tenantId}: Unknown reason`);
+  }
+
+  private resolvePurposeConfiguration(tenant: Tenant | null, purpose: LlmPurpose, tenantId: string): LLMConfiguration | null {
+    let hasInvalidConfiguration = false;
+
+    for (const field of LLM_PURPOSE_FALLBACKS[purpose]) {
+      const configuration = tenant?.[field];
+      if (!configuration) {
+        continue;
+      }
+
+      const validation = this.validateLLMConfig(configuration);
+      if (validation.isValid) {
+        return configuration;
+      }
+      this.logger.warn(`Invalid ${field} for tenant ${tenantId}: ${validation.errors.join(', ')}`);
+      hasInvalidConfiguration = true;
+    }
+
+    if (hasInvalidConfiguration) {
+      throw new Error(`Invalid LLM configuration for tenant ${tenantId}`);
+    }
+    return null;
+  }
 }
@@ -3,15 +3,24 @@ import { ConfigModule } from '@nestjs/config';
 import { PricingAgentsController } from './controllers/pricing-agents.controller';
 import { PlaygroundController } from './controllers/playground.controller';
 import { IntegrationsController } from './controllers/integrations.controller';
+import { ChatwootWebhookController } from './controllers/chatwoot-webhook.controller';
+import { ChatwootController } from './controllers/chatwoot.controller';
 import { ApiKeysController } from './controllers/api-keys.controller';
 import { TestsetsController } from './controllers/testsets.controller';
 import { ExtractionController } from './controllers/extraction.controller';
 import { TenantController } from './controllers/tenant.controller';
+import { MetricsController } from './controllers/metrics.controller';
+import { QuotesController } from './controllers/quotes.controller';
+import { LlmUsageController } from './controllers/llm-usage.controller';
+import { WebhooksController } from './controllers/webhooks.controller';
+import { ChatSessionsController } from './controllers/chat-sessions.controller';
 import { PricingAgentService } from './services/pricing-agent.service';
+import { PricingAgentDeploymentService } from './services/pricing-agent-deployment.service';
 import { TestingDatasetService } from './services/testing-dataset.service';
 import { TenantService } from './services/tenant.service';
 import { databaseConfig } from './config/database.config';
 import { DynamicRunnerService } from './services/dynamic-runner.service';
+import { SandboxPoolService } from './services/sandbox-pool.service';
 import { HealthModule } from './health/health.module';
 import { AuthModule } from './auth/auth.module';
 import { DatasetsController } from './controllers/datasets.controller';
@@ -29,6 +38,23 @@ import { AiFakeConversationMessagesGenerationAgentService } from './ai-agents/ai
 import { AiOcrPricingTablesAgentService } from './ai-agents/ai-ocr-pricing-tables.agent';
 import { ExampleGeneratorService } from './services/example-generator.service';
 import { OpenApiGeneratorService } from './services/openapi-generator.service';
+import { OrderInputValidationService } from './services/order-input-validation.service';
+import { QuoteService } from './services/quote.service';
+import { ConversationQuoteService } from './services/conversation-quote.service';
+import { LlmUsageService } from './services/llm-usage.service';
+import { EntitlementService } from './services/entitlement.service';
+import { RateLimitService, rateLimitStoreProvider } from './services/rate-limit.service';
+import { ChatwootService } from './services/chatwoot.service';
+import { ChatwootAgentBotService } from './services/chatwoot-agent-bot.service';
+import { ChatwootInboxRouteService } from './services/chatwoot-inbox-route.service';
+import { ChatwootConnectionService } from './services/chatwoot-connection.service';
+import { ChatwootConversationStateService } from './services/chatwoot-conversation-state.service';
+import { CheckpointComparisonService } from './services/checkpoint-comparison.service';
+import { WebhookService } from './services/webhook.service';
+import { ChatSessionService } from './services/chat-session.service';
+import { ChatStreamService } from './services/chat-stream.service';
+import { PriceFormattingService } from './services/price-formatting.service';
+import { CurrencyService } from './services/currency.service';
 import { TenantAccessMiddleware } from './middleware/tenant-access.middleware';
 
 @Module({
@@ -44,22 +70,35 @@ import { TenantAccessMiddleware } from './middleware/tenant-access.middleware';
     PricingAgentsController,
     PlaygroundController,
     IntegrationsController,
+    ChatwootWebhookController,
+    ChatwootController,
     ApiKeysController,
     DatasetsController,
     TestsetsController,
     ExtractionController,
     TenantController,
-    AuthController
+    AuthController,
+    MetricsController,
+    QuotesController,
+    LlmUsageController,
+    WebhooksController,
+    ChatSessionsController
   ],
   providers: [
     databaseConfig,
     PricingAgentService,
+    PricingAgentDeploymentService,
     DatasetsController,
     TestingDatasetService,
     TenantService,
+    EntitlementService,
+    rateLimitStoreProvider,
+    RateLimitService,
     DynamicRunnerService,
+    SandboxPoolService,
     ApiKeyService,
     LangchainCongigService,
+    LlmUsageService,
     AiFormulaGenerationAgentService,
     AiHappyPathDatasetGenerationAgentService,
     AiUnhappyPathDatasetGenerationAgentService,
@@ -70,7 +109,21 @@ import { TenantAccessMiddleware } from './middleware/tenant-access.middleware';
     AiFakeConversationMessagesGenerationAgentService,
     AiOcrPricingTablesAgentService,
     ExampleGeneratorService,
-    OpenApiGeneratorService
+    OpenApiGeneratorService,
+    OrderInputValidationService,
+    QuoteService,
+    ConversationQuoteService,
+    ChatSessionService,
+    ChatStreamService,
+    PriceFormattingService,
+    CurrencyService,
+    ChatwootService,
+    ChatwootAgentBotService,
+    ChatwootInboxRouteService,
+    ChatwootConnectionService,
+    ChatwootConversationStateService,
+    CheckpointComparisonService,
+    WebhookService
   ],
 })
 export class AppModule implements NestModule {
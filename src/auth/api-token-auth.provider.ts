@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { AuthProvider, AuthUser, ApiKeyResponse } from './auth-provider.interface';
 import { ApiKeyService } from '../services/api-key.service';
+import { ApiKeyScope } from '../models/mongodb.model';
 
 @Injectable()
 export class ApiTokenAuthProvider implements AuthProvider {
@@ -9,14 +10,10 @@ export class ApiTokenAuthProvider implements AuthProvider {
   constructor(private readonly apiKeyService: ApiKeyService) {}
 
   async verifyToken(token: string): Promise<AuthUser> {
-    console.debug(`verifyToken start`)
     const apiKey = await this.apiKeyService.validateApiKey(token);
 
     if (!apiKey) {
-      console.debug(`verifyToken Invalid API token`)
       throw new Error('Invalid API token');
-    } else {
-      console.debug(`verifyToken apiKey=${apiKey}`)
     }
 
     return {
@@ -27,6 +24,10 @@ export class ApiTokenAuthProvider implements AuthProvider {
       provider: 'api-token',
       providerId: apiKey._id!.toString(),
       role: 'api-user', // API tokens have limited permissions
+      apiKey: {
+        scopes: apiKey.scopes ?? Object.values(ApiKeyScope), // keys created before scopes may call every endpoint
+        allowedPricingAgentIds: apiKey.allowedPricingAgentIds?.map(pricingAgentId => pricingAgentId.toString()) ?? null,
+      },
     };
   }
 
@@ -1,37 +1,94 @@
-import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException, ForbiddenException, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
 import { AuthService } from './auth.service';
 import { AuthUser } from './auth-provider.interface';
+import { ApiKeyScope } from '../models/mongodb.model';
 
 export interface AuthenticatedRequest extends Request {
   user?: AuthUser;
 }
 
+const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+const API_KEY_QUERY_KEY = 'apiKeyQuery';
+
+/**
+ * Restricts the endpoint to API keys with any of the scopes, see ApiTokenGuard
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
+
+/**
+ * Also accepts the API key in the `apiKey` query parameter, for clients that cannot set headers
+ * such as Chatwoot agent bots. Query parameters end up in access logs, so keep it to those endpoints.
+ */
+export const AllowApiKeyQuery = () => SetMetadata(API_KEY_QUERY_KEY, true);
+
+/**
+ * Whether the API key of the user may use the pricing agent
+ */
+export function isPricingAgentAllowed(user: AuthUser, pricingAgentId: string): boolean {
+  const allowedPricingAgentIds = user.apiKey?.allowedPricingAgentIds;
+  return !allowedPricingAgentIds || allowedPricingAgentIds.includes(pricingAgentId);
+}
+
+/**
+ * Authenticates the integration endpoints with an API key sent as `Authorization: Bearer <key>`,
+ * in the `X-API-Key` header or, on endpoints marked with @AllowApiKeyQuery, in the `apiKey`
+ * query parameter. Endpoints marked with @ApiKeyScopes need a key with one of the
+ * scopes, and the `agentId` route parameter must be one of the pricing agents the key is restricted to.
+ */
 @Injectable()
 export class ApiTokenGuard implements CanActivate {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
-    const token = this.extractTokenFromQuery(request);
+    const allowQuery = this.reflector.get<boolean | undefined>(API_KEY_QUERY_KEY, context.getHandler()) ?? false;
+    const token = this.extractToken(request, allowQuery);
 
     if (!token) {
-      console.warn('access integration endpoint without apiKey')
       throw new UnauthorizedException('No API token provided');
-    } else {
-      console.debug(`apiKey=${token}`)
     }
 
+    let user: AuthUser;
     try {
-      const user = await this.authService.verifyToken(token, 'api-token');
-      request.user = user;
-      return true;
+      user = await this.authService.verifyToken(token, 'api-token');
     } catch (error) {
       throw new UnauthorizedException('Invalid API token');
     }
+
+    const scopes = this.reflector.get<ApiKeyScope[] | undefined>(API_KEY_SCOPES_KEY, context.getHandler());
+    if (scopes && !scopes.some(scope => user.apiKey?.scopes.includes(scope))) {
+      throw new ForbiddenException(`API key is missing the ${scopes.join(' or ')} scope`);
+    }
+
+    const agentId = request.params?.agentId as string | undefined;
+    if (agentId && !isPricingAgentAllowed(user, agentId)) {
+      throw new ForbiddenException('API key is not allowed to use this pricing agent');
+    }
+
+    request.user = user;
+    return true;
   }
 
-  private extractTokenFromQuery(request: Request): string | undefined {
-    return request.query['apiKey'] as string | undefined;
+  private extractToken(request: Request, allowQuery: boolean): string | undefined {
+    const [type, token] = request.headers.authorization?.split(' ') ?? [];
+    if (type === 'Bearer' && token) {
+      return token;
+    }
+
+    const headerToken = request.headers['x-api-key'];
+    if (typeof headerToken === 'string' && headerToken) {
+      return headerToken;
+    }
+
+    if (!allowQuery) {
+      return undefined;
+    }
+    const queryToken = request.query['apiKey'];
+    return typeof queryToken === 'string' && queryToken ? queryToken : undefined;
   }
 }
@@ -1,3 +1,5 @@
+import { ApiKeyScope } from '../models/mongodb.model';
+
 export interface AuthUser {
   id: string;
   email: string;
@@ -10,6 +12,10 @@ export interface AuthUser {
     creationTime?: string;
     lastSignInTime?: string;
   };
+  apiKey?: {
+    scopes: ApiKeyScope[];
+    allowedPricingAgentIds: string[] | null; // null for all of the tenant pricing agents
+  };
 }
 
 export interface CreateUserOptions {
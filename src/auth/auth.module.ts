@@ -8,6 +8,7 @@ import { AuthGuard } from './auth.guard';
 import { ApiTokenGuard } from './api-token.guard';
 import { TenantService } from '../services/tenant.service';
 import { ApiKeyService } from '../services/api-key.service';
+import { EntitlementService } from '../services/entitlement.service';
 import { AuthProvider } from './auth-provider.interface';
 import { databaseConfig } from '../config/database.config';
 import { initializeFirebase } from '../config/firebase.config';
@@ -22,6 +23,7 @@ import { initializeFirebase } from '../config/firebase.config';
     ApiTokenGuard,
     TenantService,
     ApiKeyService,
+    EntitlementService,
     databaseConfig,
     {
       provide: 'AUTH_PROVIDERS',
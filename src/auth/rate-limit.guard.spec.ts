@@ -0,0 +1,83 @@
+import { ExecutionContext, HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RateLimit, RateLimitGuard } from './rate-limit.guard';
+import { MemoryRateLimitStore, RateLimitService } from '../services/rate-limit.service';
+import { RATE_LIMITS, RateLimitBucket } from '../config/rate-limit.config';
+
+class TestController {
+  @RateLimit(RateLimitBucket.CHAT)
+  chat() {}
+
+  unlimited() {}
+}
+
+describe('rate limit guard', () => {
+  const policy = RATE_LIMITS[RateLimitBucket.CHAT].apiKey;
+  const refillSeconds = policy.windowSeconds / policy.limit;
+
+  let rateLimitService: RateLimitService;
+  let guard: RateLimitGuard;
+  let headers: Record<string, string | number>;
+
+  const buildContext = (handler: () => void, user?: { id: string; tenantId?: string }) => {
+    headers = {};
+    const response = { setHeader: (name: string, value: string | number) => headers[name] = value };
+    return {
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => ({ user }), getResponse: () => response }),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    rateLimitService = new RateLimitService(new MemoryRateLimitStore());
+    guard = new RateLimitGuard(new Reflector(), rateLimitService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sets the rate limit headers of the bucket closest to running out', async () => {
+    expect(await guard.canActivate(buildContext(TestController.prototype.chat, { id: 'key-1', tenantId: 'tenant-1' }))).toBe(true);
+
+    expect(headers).toEqual({
+      'RateLimit-Policy': `${policy.limit};w=${policy.windowSeconds}`,
+      'RateLimit-Limit': policy.limit,
+      'RateLimit-Remaining': policy.limit - 1,
+      'RateLimit-Reset': Math.ceil(refillSeconds),
+    });
+  });
+
+  it('answers with 429 and Retry-After when the budget is used up', async () => {
+    for (let request = 0; request < policy.limit; request++) {
+      await guard.canActivate(buildContext(TestController.prototype.chat, { id: 'key-1' }));
+    }
+
+    const error = await guard.canActivate(buildContext(TestController.prototype.chat, { id: 'key-1' })).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error.getResponse()).toMatchObject({
+      message: `Rate limit of ${policy.limit} ${RateLimitBucket.CHAT} requests per ${policy.windowSeconds} seconds exceeded for this API key`,
+      retryAfter: Math.ceil(refillSeconds),
+    });
+    expect(headers).toMatchObject({ 'RateLimit-Remaining': 0, 'Retry-After': Math.ceil(refillSeconds) });
+
+    jest.advanceTimersByTime(refillSeconds * 1000);
+    expect(await guard.canActivate(buildContext(TestController.prototype.chat, { id: 'key-1' }))).toBe(true);
+    expect(headers).not.toHaveProperty('Retry-After');
+  });
+
+  it('does not limit endpoints without a rate limit bucket', async () => {
+    const consume = jest.spyOn(rateLimitService, 'consume');
+
+    expect(await guard.canActivate(buildContext(TestController.prototype.unlimited))).toBe(true);
+    expect(consume).not.toHaveBeenCalled();
+    expect(headers).toEqual({});
+  });
+
+  it('rejects rate limited requests without an API key', async () => {
+    await expect(guard.canActivate(buildContext(TestController.prototype.chat))).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
@@ -0,0 +1,55 @@
+import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus, SetMetadata, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { RateLimitService } from '../services/rate-limit.service';
+import { RateLimitBucket } from '../config/rate-limit.config';
+import type { AuthenticatedRequest } from './api-token.guard';
+
+const RATE_LIMIT_BUCKET_KEY = 'rateLimitBucket';
+
+/**
+ * Takes the requests of the endpoint from a rate limit bucket, see RateLimitGuard
+ */
+export const RateLimit = (bucket: RateLimitBucket) => SetMetadata(RATE_LIMIT_BUCKET_KEY, bucket);
+
+/**
+ * Rate limits the endpoints marked with @RateLimit per API key and per tenant.
+ * Must run after ApiTokenGuard. Sets the RateLimit-* headers, and Retry-After on 429 responses.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const bucket = this.reflector.get<RateLimitBucket | undefined>(RATE_LIMIT_BUCKET_KEY, context.getHandler());
+    if (!bucket) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    if (!request.user?.id) {
+      throw new UnauthorizedException('No API token provided');
+    }
+
+    const result = await this.rateLimitService.consume(bucket, request.user.id, request.user.tenantId);
+    response.setHeader('RateLimit-Policy', `${result.policy.limit};w=${result.policy.windowSeconds}`);
+    response.setHeader('RateLimit-Limit', result.policy.limit);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', result.resetSeconds);
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', result.retryAfterSeconds);
+      throw new HttpException({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: `Rate limit of ${result.policy.limit} ${bucket} requests per ${result.policy.windowSeconds} seconds exceeded for this ${result.scope}`,
+        retryAfter: result.retryAfterSeconds,
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,5 @@
+// How long the previous secret of a rotated API key stays valid, unless the rotation sets another grace period
+export const API_KEY_ROTATION_GRACE_HOURS = parseFloat(process.env.API_KEY_ROTATION_GRACE_HOURS ?? '24');
+
+// Longest grace period a rotation can set
+export const API_KEY_ROTATION_MAX_GRACE_HOURS = parseFloat(process.env.API_KEY_ROTATION_MAX_GRACE_HOURS ?? '720');
@@ -0,0 +1,5 @@
+// Public URL of this engine, used as the outgoing URL of the Chatwoot agent bots it provisions
+export const PUBLIC_API_URL = process.env.PUBLIC_API_URL?.replace(/\/+$/, '');
+
+// Name of the Chatwoot agent bot provisioned for a tenant
+export const CHATWOOT_AGENT_BOT_NAME = process.env.CHATWOOT_AGENT_BOT_NAME ?? 'QuotyAI';
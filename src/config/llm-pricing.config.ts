@@ -0,0 +1,63 @@
+import { Logger } from '@nestjs/common';
+
+// Price of a model in USD per million prompt (input) and completion (output) tokens
+export type LlmModelPrice = {
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+/**
+ * Parses LLM_MODEL_PRICES, a malformed value is logged and ignored so the built-in prices still apply
+ */
+function parseLlmModelPrices(value?: string): Record<string, LlmModelPrice> {
+  if (!value) {
+    return {};
+  }
+  try {
+    const prices = JSON.parse(value);
+    if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+      throw new Error('expected a JSON object keyed by model name');
+    }
+    return prices;
+  } catch (error) {
+    new Logger('LlmPricingConfig').error(`Ignoring invalid LLM_MODEL_PRICES: ${error.message}`);
+    return {};
+  }
+}
+
+// List prices used to estimate the cost of LLM calls, extended or overridden with LLM_MODEL_PRICES
+// (a JSON object keyed by model name, e.g. {"gpt-4o":{"inputPerMillion":2.5,"outputPerMillion":10}})
+export const LLM_MODEL_PRICES: Record<string, LlmModelPrice> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-5': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gpt-5-mini': { inputPerMillion: 0.25, outputPerMillion: 2 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'claude-opus-4-1': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4-5': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-haiku-4-5': { inputPerMillion: 1, outputPerMillion: 5 },
+  ...parseLlmModelPrices(process.env.LLM_MODEL_PRICES),
+};
+
+/**
+ * Estimates the cost of a call in USD, null when the model has no known price.
+ * Dated model versions (e.g. gpt-4o-2024-08-06) use the price of the longest model name they start with.
+ */
+export function estimateLlmCostUsd(model: string, promptTokens: number, completionTokens: number): number | null {
+  const name = Object.keys(LLM_MODEL_PRICES)
+    .filter(key => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) {
+    return null;
+  }
+
+  const price = LLM_MODEL_PRICES[name];
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
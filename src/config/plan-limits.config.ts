@@ -0,0 +1,37 @@
+import { PlanResource, QuotaMetric, SubscriptionPlan } from '../models/mongodb.model';
+
+// Limit of each resource and monthly quota, null for unlimited
+export type PlanLimits = Record<PlanResource | QuotaMetric, number | null>;
+
+// Default limits of each plan, a tenant's subscription can override maxUsers, maxApiKeys,
+// maxPricingAgents, maxMonthlyIntegrationCalls and maxMonthlyAiGenerations
+export const PLAN_LIMITS: Record<SubscriptionPlan, PlanLimits> = {
+  [SubscriptionPlan.FREE]: {
+    [PlanResource.PRICING_AGENTS]: 1,
+    [PlanResource.API_KEYS]: 2,
+    [PlanResource.USERS]: 1,
+    [QuotaMetric.INTEGRATION_CALLS]: 500,
+    [QuotaMetric.AI_GENERATIONS]: 50,
+  },
+  [SubscriptionPlan.STARTER]: {
+    [PlanResource.PRICING_AGENTS]: 5,
+    [PlanResource.API_KEYS]: 5,
+    [PlanResource.USERS]: 3,
+    [QuotaMetric.INTEGRATION_CALLS]: 10000,
+    [QuotaMetric.AI_GENERATIONS]: 500,
+  },
+  [SubscriptionPlan.PROFESSIONAL]: {
+    [PlanResource.PRICING_AGENTS]: 25,
+    [PlanResource.API_KEYS]: 20,
+    [PlanResource.USERS]: 10,
+    [QuotaMetric.INTEGRATION_CALLS]: 100000,
+    [QuotaMetric.AI_GENERATIONS]: 2500,
+  },
+  [SubscriptionPlan.ENTERPRISE]: {
+    [PlanResource.PRICING_AGENTS]: null,
+    [PlanResource.API_KEYS]: null,
+    [PlanResource.USERS]: null,
+    [QuotaMetric.INTEGRATION_CALLS]: null,
+    [QuotaMetric.AI_GENERATIONS]: null,
+  },
+};
@@ -0,0 +1,13 @@
+// How long a quote served through the integrations endpoints can be accepted at its original price
+export const QUOTE_VALIDITY_HOURS = parseFloat(process.env.QUOTE_VALIDITY_HOURS ?? '24');
+
+function parseDefaultChatLocale(value = 'en'): string {
+  try {
+    return Intl.getCanonicalLocales(value)[0];
+  } catch (error) {
+    throw new Error(`DEFAULT_CHAT_LOCALE is not a valid locale: ${value}`);
+  }
+}
+
+// Locale of the chat replies and formatted prices when the request sets none and the language of the conversation is not detected
+export const DEFAULT_CHAT_LOCALE = parseDefaultChatLocale(process.env.DEFAULT_CHAT_LOCALE);
@@ -0,0 +1,33 @@
+// Integration endpoints with their own rate limit budgets
+export enum RateLimitBucket {
+  PRICE = 'price', // /integrations/:agentId/price and quote repricing
+  CHAT = 'chat', // /integrations/:agentId/chat, which makes LLM calls
+  CHATWOOT = 'chatwoot', // Chatwoot agent bot webhooks, called for every event of the bot's inboxes
+}
+
+// Token bucket holding up to `limit` requests, refilled with `limit` requests every `windowSeconds`
+export type RateLimitPolicy = {
+  limit: number;
+  windowSeconds: number;
+};
+
+const RATE_LIMIT_WINDOW_SECONDS = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS ?? '60', 10);
+
+// Budgets of each API key and of all the API keys of a tenant together, per bucket
+export const RATE_LIMITS: Record<RateLimitBucket, { apiKey: RateLimitPolicy; tenant: RateLimitPolicy }> = {
+  [RateLimitBucket.PRICE]: {
+    apiKey: { limit: parseInt(process.env.RATE_LIMIT_PRICE_PER_API_KEY ?? '120', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+    tenant: { limit: parseInt(process.env.RATE_LIMIT_PRICE_PER_TENANT ?? '600', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+  },
+  [RateLimitBucket.CHAT]: {
+    apiKey: { limit: parseInt(process.env.RATE_LIMIT_CHAT_PER_API_KEY ?? '20', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+    tenant: { limit: parseInt(process.env.RATE_LIMIT_CHAT_PER_TENANT ?? '60', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+  },
+  [RateLimitBucket.CHATWOOT]: {
+    apiKey: { limit: parseInt(process.env.RATE_LIMIT_CHATWOOT_PER_API_KEY ?? '60', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+    tenant: { limit: parseInt(process.env.RATE_LIMIT_CHATWOOT_PER_TENANT ?? '300', 10), windowSeconds: RATE_LIMIT_WINDOW_SECONDS },
+  },
+};
+
+// Where the buckets are kept: 'memory' for a single API instance, 'mongodb' to share them between instances
+export const RATE_LIMIT_STORE_TYPE = process.env.RATE_LIMIT_STORE ?? 'memory';
@@ -0,0 +1,8 @@
+// Limits applied to generated pricing code executed in the sandbox worker pool
+export const SANDBOX_POOL_SIZE = parseInt(process.env.SANDBOX_POOL_SIZE ?? '2', 10);
+export const SANDBOX_TIMEOUT_MS = parseInt(process.env.SANDBOX_TIMEOUT_MS ?? '1000', 10);
+export const SANDBOX_MAX_HEAP_MB = parseInt(process.env.SANDBOX_MAX_HEAP_MB ?? '64', 10);
+
+// Compiled formula caches: transpiled JavaScript in the API process, compiled scripts in each sandbox worker
+export const FORMULA_CACHE_MAX_ENTRIES = parseInt(process.env.FORMULA_CACHE_MAX_ENTRIES ?? '500', 10);
+export const SANDBOX_SCRIPT_CACHE_SIZE = parseInt(process.env.SANDBOX_SCRIPT_CACHE_SIZE ?? '100', 10);
@@ -0,0 +1,8 @@
+// Delivery of the outbound webhooks, failed deliveries are retried with exponential backoff
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '6', 10);
+export const WEBHOOK_RETRY_BASE_SECONDS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? '30', 10);
+export const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS ?? '10000', 10);
+
+// How often pending deliveries are picked up for their next attempt, and how many at a time
+export const WEBHOOK_POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS ?? '5000', 10);
+export const WEBHOOK_POLL_BATCH_SIZE = parseInt(process.env.WEBHOOK_POLL_BATCH_SIZE ?? '20', 10);
@@ -7,6 +7,8 @@ import type { AuthenticatedRequest } from '../auth/auth.guard';
 import { CreateApiKeyDto } from '../dtos/create-api-key.dto';
 import { UpdateApiKeyDto } from '../dtos/update-api-key.dto';
 import { CreateApiKeyResponseDto } from '../dtos/create-api-key-response.dto';
+import { RotateApiKeyDto } from '../dtos/rotate-api-key.dto';
+import { ApiKeySecretUsageDto } from '../dtos/api-key-secret-usage.dto';
 
 @ApiTags('api-keys')
 @Controller('api-keys')
@@ -22,7 +24,8 @@ export class ApiKeysController {
   @ApiOperation({ summary: 'Create a new API key' })
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
   @ApiResponse({ status: 201, description: 'API key created successfully', type: CreateApiKeyResponseDto })
-  @ApiResponse({ status: 400, description: 'Bad request - missing required parameters' })
+  @ApiResponse({ status: 400, description: 'Bad request - missing required parameters or an allowed pricing agent not found' })
+  @ApiResponse({ status: 402, description: 'The tenant plan API key limit is reached' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async createApiKey(
     @Body() body: CreateApiKeyDto,
@@ -42,7 +45,10 @@ export class ApiKeysController {
       }
 
       const expiresAt = body.expiresAt ? new Date(body.expiresAt) : undefined;
-      const result = await this.apiKeyService.createApiKey(targetTenantId, body.name, expiresAt);
+      const result = await this.apiKeyService.createApiKey(targetTenantId, body.name, expiresAt, {
+        scopes: body.scopes,
+        allowedPricingAgentIds: body.allowedPricingAgentIds,
+      });
 
       this.logger.log(`Successfully created API key: ${body.name}`);
       return result;
@@ -52,6 +58,9 @@ export class ApiKeysController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (error.message === 'Pricing agent not found') {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       throw new HttpException(
         `Failed to create API key: ${error.message}`,
         HttpStatus.INTERNAL_SERVER_ERROR
@@ -138,6 +147,7 @@ export class ApiKeysController {
   @ApiParam({ name: 'id', description: 'API key ID' })
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
   @ApiResponse({ status: 200, description: 'API key updated successfully', type: ApiKey })
+  @ApiResponse({ status: 400, description: 'Bad request - an allowed pricing agent not found' })
   @ApiResponse({ status: 404, description: 'API key not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updateApiKey(
@@ -158,6 +168,8 @@ export class ApiKeysController {
       if (body.name !== undefined) updateData.name = body.name;
       if (body.isActive !== undefined) updateData.isActive = body.isActive;
       if (body.expiresAt !== undefined) updateData.expiresAt = body.expiresAt ? new Date(body.expiresAt) : undefined;
+      if (body.scopes !== undefined) updateData.scopes = body.scopes;
+      if (body.allowedPricingAgentIds !== undefined) updateData.allowedPricingAgentIds = body.allowedPricingAgentIds;
 
       const apiKey = await this.apiKeyService.updateApiKey(id, targetTenantId, updateData);
       if (!apiKey) {
@@ -172,6 +184,9 @@ export class ApiKeysController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (error.message === 'Pricing agent not found') {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
       throw new HttpException(
         `Failed to update API key: ${error.message}`,
         HttpStatus.INTERNAL_SERVER_ERROR
@@ -179,6 +194,90 @@ export class ApiKeysController {
     }
   }
 
+  @Post('/:id/rotate')
+  @ApiOperation({ summary: 'Issue a new secret for an API key, keeping the current secret valid for a grace period' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 201, description: 'API key rotated, key is the new secret', type: CreateApiKeyResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  @ApiResponse({ status: 409, description: 'API key was rotated concurrently' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async rotateApiKey(
+    @Param('id') id: string,
+    @Body() body: RotateApiKeyDto,
+    @Req() request: AuthenticatedRequest,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<CreateApiKeyResponseDto> {
+    this.logger.log(`Rotating API key: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const targetTenantId = tenantId;
+      if (!targetTenantId) {
+        throw new HttpException('tenantId is required', HttpStatus.BAD_REQUEST);
+      }
+
+      const result = await this.apiKeyService.rotateApiKey(id, targetTenantId, body.gracePeriodHours);
+      if (!result) {
+        throw new HttpException('API key not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully rotated API key: ${result.apiKey.name} (${id})`);
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to rotate API key ${id}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to rotate API key: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:id/secrets')
+  @ApiOperation({ summary: 'List the secrets an API key accepts and whether clients still use them' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Secrets retrieved successfully, the current secret first', type: [ApiKeySecretUsageDto] })
+  @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getApiKeySecrets(
+    @Param('id') id: string,
+    @Req() request: AuthenticatedRequest,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<ApiKeySecretUsageDto[]> {
+    this.logger.log(`Getting secrets of API key: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const targetTenantId = tenantId;
+      if (!targetTenantId) {
+        throw new HttpException('tenantId is required', HttpStatus.BAD_REQUEST);
+      }
+
+      const secrets = await this.apiKeyService.getApiKeySecretUsage(id, targetTenantId);
+      if (!secrets) {
+        throw new HttpException('API key not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully retrieved ${secrets.length} secrets of API key: ${id}`);
+      return secrets;
+    } catch (error) {
+      this.logger.error(`Failed to get secrets of API key ${id}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get API key secrets: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   @Delete('/:id')
   @ApiOperation({ summary: 'Delete an API key' })
   @ApiParam({ name: 'id', description: 'API key ID' })
@@ -0,0 +1,164 @@
+import { Controller, Post, Get, Body, Param, Req, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import { ObjectId } from 'mongodb';
+import { ApiKeyScopes, ApiTokenGuard } from '../auth/api-token.guard';
+import { RateLimit, RateLimitGuard } from '../auth/rate-limit.guard';
+import { RateLimitBucket } from '../config/rate-limit.config';
+import { ChatSessionClosedError, ChatSessionService } from '../services/chat-session.service';
+import { PricingAgentNotDeployedError, PricingAgentNotFoundError } from '../services/conversation-quote.service';
+import { CurrencyConversionError } from '../services/currency.service';
+import { SendChatSessionMessageDto } from '../dtos/chat-session.dto';
+import { IntegrationChatSessionResponseDto } from '../dtos/integration-quote.dto';
+import { ApiKeyScope, ChatSession } from '../models/mongodb.model';
+import type { AuthenticatedRequest } from '../auth/api-token.guard';
+import type { AuthUser } from '../auth/auth-provider.interface';
+
+@ApiTags('integrations')
+@ApiBearerAuth()
+@ApiSecurity('X-API-Key')
+@Controller('integrations')
+@UseGuards(ApiTokenGuard, RateLimitGuard)
+export class ChatSessionsController {
+  private readonly logger = new Logger(ChatSessionsController.name);
+
+  constructor(
+    private readonly chatSessionService: ChatSessionService,
+  ) {
+    this.logger.log('ChatSessionsController initialized');
+  }
+
+  @Post(':agentId/chat/sessions')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @ApiOperation({ summary: 'Start a chat session that keeps the conversation on the server' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiResponse({ status: 201, description: 'Chat session created', type: ChatSession })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async createSession(
+    @Param('agentId') agentId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<ChatSession> {
+    try {
+      const user = this.getUser(request);
+      if (!ObjectId.isValid(agentId)) {
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+      return await this.chatSessionService.createSession(agentId, user.id, user.tenantId);
+    } catch (error) {
+      throw this.toHttpException(error, 'Failed to create chat session');
+    }
+  }
+
+  @Get(':agentId/chat/sessions/:sessionId')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @ApiOperation({ summary: 'Get a chat session with its messages, structured order and last quote result' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'sessionId', description: 'Chat session ID' })
+  @ApiResponse({ status: 200, description: 'Chat session', type: ChatSession })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
+  @ApiResponse({ status: 404, description: 'Chat session not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async findSession(
+    @Param('agentId') agentId: string,
+    @Param('sessionId') sessionId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<ChatSession> {
+    try {
+      return await this.findOwnSession(agentId, sessionId, this.getUser(request));
+    } catch (error) {
+      throw this.toHttpException(error, 'Failed to get chat session');
+    }
+  }
+
+  @Post(':agentId/chat/sessions/:sessionId/messages')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @RateLimit(RateLimitBucket.CHAT)
+  @ApiOperation({ summary: 'Send the next message of a chat session and quote the updated order' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'sessionId', description: 'Chat session ID' })
+  @ApiResponse({ status: 201, description: 'Message processed, the price recorded as a quote and the session updated', type: IntegrationChatSessionResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid input, agent not deployed or no exchange rate to the requested currency' })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
+  @ApiResponse({ status: 404, description: 'Chat session, pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 409, description: 'Chat session is closed' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After) or the tenant plan monthly integration calls quota is used up' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async sendMessage(
+    @Param('agentId') agentId: string,
+    @Param('sessionId') sessionId: string,
+    @Body() body: SendChatSessionMessageDto,
+    @Req() request: AuthenticatedRequest
+  ): Promise<IntegrationChatSessionResponseDto> {
+    try {
+      this.logger.log(`Processing chat session ${sessionId} message for agent: ${agentId} with input: ${body.input?.substring(0, 100)}...`);
+      const user = this.getUser(request);
+      const session = await this.findOwnSession(agentId, sessionId, user);
+      return await this.chatSessionService.sendMessage(session, body, user.tenantId);
+    } catch (error) {
+      throw this.toHttpException(error, 'Failed to process chat session message');
+    }
+  }
+
+  @Post(':agentId/chat/sessions/:sessionId/close')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @ApiOperation({ summary: 'Close a chat session, it no longer accepts messages' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'sessionId', description: 'Chat session ID' })
+  @ApiResponse({ status: 201, description: 'Chat session closed', type: ChatSession })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
+  @ApiResponse({ status: 404, description: 'Chat session not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async closeSession(
+    @Param('agentId') agentId: string,
+    @Param('sessionId') sessionId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<ChatSession> {
+    try {
+      const session = await this.findOwnSession(agentId, sessionId, this.getUser(request));
+      return await this.chatSessionService.closeSession(session);
+    } catch (error) {
+      throw this.toHttpException(error, 'Failed to close chat session');
+    }
+  }
+
+  private getUser(request: AuthenticatedRequest): AuthUser {
+    if (!request.user?.id) {
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+    }
+    return request.user;
+  }
+
+  /**
+   * Sessions of other API keys are reported as not found
+   */
+  private async findOwnSession(agentId: string, sessionId: string, user: AuthUser): Promise<ChatSession> {
+    const session = ObjectId.isValid(sessionId) && ObjectId.isValid(agentId)
+      ? await this.chatSessionService.findOneSession(sessionId, agentId, user.id, user.tenantId)
+      : null;
+    if (!session) {
+      throw new HttpException('Chat session not found', HttpStatus.NOT_FOUND);
+    }
+    return session;
+  }
+
+  private toHttpException(error: any, failureMessage: string): HttpException {
+    this.logger.error(`${failureMessage}: ${error.message}`, error.stack);
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (error instanceof PricingAgentNotFoundError) {
+      return new HttpException(error.message, HttpStatus.NOT_FOUND);
+    }
+    if (error instanceof PricingAgentNotDeployedError) {
+      return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    if (error instanceof CurrencyConversionError) {
+      return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    if (error instanceof ChatSessionClosedError) {
+      return new HttpException(error.message, HttpStatus.CONFLICT);
+    }
+    return new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
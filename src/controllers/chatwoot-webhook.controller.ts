@@ -0,0 +1,132 @@
+import { Controller, Post, Body, Param, Req, HttpCode, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { AllowApiKeyQuery, ApiKeyScopes, ApiTokenGuard, isPricingAgentAllowed } from '../auth/api-token.guard';
+import { RateLimit, RateLimitGuard } from '../auth/rate-limit.guard';
+import { RateLimitBucket } from '../config/rate-limit.config';
+import { ChatwootAgentBotService } from '../services/chatwoot-agent-bot.service';
+import { ChatwootInboxRouteService } from '../services/chatwoot-inbox-route.service';
+import type { ChatwootWebhookEvent } from '../services/chatwoot-agent-bot.service';
+import { SuccessResponseDto } from '../dtos/success-response.dto';
+import { ApiKeyScope } from '../models/mongodb.model';
+import type { AuthenticatedRequest } from '../auth/auth.guard';
+
+/**
+ * Webhooks for Chatwoot agent bots.
+ *
+ * The bot provisioned by the Chatwoot connect action posts to `/integrations/chatwoot/webhook`,
+ * which picks the pricing agent from the inbox routes. A manually created bot can post to
+ * `/integrations/chatwoot/:agentId/webhook` instead. Customer messages are answered in the
+ * background because Chatwoot does not wait for the LLM calls to finish.
+ */
+@ApiTags('integrations')
+@Controller('integrations/chatwoot')
+@UseGuards(ApiTokenGuard, RateLimitGuard)
+export class ChatwootWebhookController {
+  private readonly logger = new Logger(ChatwootWebhookController.name);
+
+  constructor(
+    private readonly chatwootAgentBotService: ChatwootAgentBotService,
+    private readonly chatwootInboxRouteService: ChatwootInboxRouteService,
+  ) {
+    this.logger.log('ChatwootWebhookController initialized');
+  }
+
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @AllowApiKeyQuery()
+  @RateLimit(RateLimitBucket.CHATWOOT)
+  @ApiOperation({ summary: 'Receive a Chatwoot agent bot event and answer the conversation with the agent routed to its inbox' })
+  @ApiQuery({ name: 'apiKey', description: 'API key', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Event received, success is false when the event is ignored, the API key has no tenant or the inbox is not routed', type: SuccessResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid API key' })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After)' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async handleRoutedAgentBotEvent(
+    @Body() event: ChatwootWebhookEvent,
+    @Req() request: AuthenticatedRequest
+  ): Promise<SuccessResponseDto> {
+    this.logger.log(`Received Chatwoot ${event?.event} event for inbox: ${event?.inbox?.id}`);
+    if (!request.user?.id)
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+
+    try {
+      if (!this.chatwootAgentBotService.shouldAnswer(event) || !event.inbox?.id || !event.account?.id) {
+        this.logger.log(`Ignoring Chatwoot ${event?.event} event for inbox: ${event?.inbox?.id}`);
+        return { success: false };
+      }
+
+      // The Chatwoot connection is stored on the tenant, API keys without a tenant cannot answer
+      const tenantId = request.user.tenantId;
+      if (!tenantId) {
+        this.logger.warn(`API key ${request.user.id} has no tenant with a Chatwoot connection`);
+        return { success: false };
+      }
+
+      const route = await this.chatwootInboxRouteService.findActiveRouteByInbox(event.account.id, event.inbox.id, tenantId);
+      if (!route) {
+        this.logger.warn(`No active Chatwoot route for inbox: ${event.inbox.id} (account: ${event.account.id}) for tenant: ${tenantId}`);
+        return { success: false };
+      }
+      if (!isPricingAgentAllowed(request.user, route.pricingAgentId.toString())) {
+        this.logger.warn(`API key ${request.user.id} may not use pricing agent ${route.pricingAgentId} routed to inbox: ${event.inbox.id}`);
+        return { success: false };
+      }
+
+      this.answerInBackground(route.pricingAgentId.toString(), event, tenantId, request.user.id);
+
+      return { success: true };
+    } catch (error) {
+      this.logger.error(`Failed to handle Chatwoot event: ${error.message}`, error.stack);
+      throw new HttpException(`Failed to handle Chatwoot event: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post(':agentId/webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @AllowApiKeyQuery()
+  @RateLimit(RateLimitBucket.CHATWOOT)
+  @ApiOperation({ summary: 'Receive a Chatwoot agent bot event and answer the conversation with a quote' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiQuery({ name: 'apiKey', description: 'API key', required: true, type: String })
+  @ApiResponse({ status: 200, description: 'Event received, success is false when the event is ignored or the API key has no tenant', type: SuccessResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid API key' })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After)' })
+  async handleAgentBotEvent(
+    @Param('agentId') agentId: string,
+    @Body() event: ChatwootWebhookEvent,
+    @Req() request: AuthenticatedRequest
+  ): Promise<SuccessResponseDto> {
+    this.logger.log(`Received Chatwoot ${event?.event} event for agent: ${agentId}`);
+    if (!request.user?.id)
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+
+    if (!this.chatwootAgentBotService.shouldAnswer(event)) {
+      this.logger.log(`Ignoring Chatwoot ${event?.event} event for agent: ${agentId}`);
+      return { success: false };
+    }
+
+    const tenantId = request.user.tenantId;
+    if (!tenantId) {
+      this.logger.warn(`API key ${request.user.id} has no tenant with a Chatwoot connection`);
+      return { success: false };
+    }
+
+    this.answerInBackground(agentId, event, tenantId, request.user.id);
+    return { success: true };
+  }
+
+  /**
+   * Chatwoot does not wait for the answer, so it is sent in the background and failures are only logged
+   */
+  private answerInBackground(pricingAgentId: string, event: ChatwootWebhookEvent, tenantId: string, apiKeyId: string): void {
+    this.chatwootAgentBotService
+      .answerConversation(pricingAgentId, event, tenantId, apiKeyId)
+      .catch(error => {
+        this.logger.error(`Failed to answer Chatwoot conversation: ${event.conversation?.id} with agent: ${pricingAgentId}: ${error.message}`, error.stack);
+      });
+  }
+}
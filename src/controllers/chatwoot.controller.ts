@@ -0,0 +1,200 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ChatwootInboxRoute } from '../models/mongodb.model';
+import { ChatwootInboxRouteService } from '../services/chatwoot-inbox-route.service';
+import { ChatwootConnectionService } from '../services/chatwoot-connection.service';
+import { PricingAgentService } from '../services/pricing-agent.service';
+import { CreateChatwootInboxRouteDto, UpdateChatwootInboxRouteDto } from '../dtos/chatwoot-inbox-route.dto';
+import { ChatwootConnectionDto, ConnectChatwootDto } from '../dtos/chatwoot-connection.dto';
+import { SuccessResponseDto } from '../dtos/success-response.dto';
+import { AuthGuard } from '../auth/auth.guard';
+
+/**
+ * REST API controller for the Chatwoot integration of a tenant.
+ *
+ * Routes decide which pricing agent answers the conversations of a Chatwoot inbox.
+ * Connecting provisions the agent bot and attaches it to the routed inboxes, and should
+ * be repeated after adding routes.
+ */
+@ApiTags('User Tenants')
+@Controller('user-tenants')
+@UseGuards(AuthGuard)
+export class ChatwootController {
+  private readonly logger = new Logger(ChatwootController.name);
+
+  constructor(
+    private readonly chatwootInboxRouteService: ChatwootInboxRouteService,
+    private readonly chatwootConnectionService: ChatwootConnectionService,
+    private readonly pricingAgentService: PricingAgentService,
+  ) {
+    this.logger.log('ChatwootController initialized');
+  }
+
+  @Post('tenants/:id/chatwoot-connect')
+  @ApiOperation({ summary: 'Validate the Chatwoot configuration, provision the agent bot and connect it to the routed inboxes' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiResponse({ status: 201, description: 'Chatwoot connected successfully', type: ChatwootConnectionDto })
+  @ApiResponse({ status: 400, description: 'Chatwoot configuration missing or rejected by Chatwoot' })
+  @ApiResponse({ status: 502, description: 'Chatwoot could not be reached' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async connectChatwoot(@Param('id') tenantId: string, @Body() body: ConnectChatwootDto): Promise<ChatwootConnectionDto> {
+    this.logger.log(`Connecting Chatwoot for tenant: ${tenantId}`);
+
+    try {
+      const connection = await this.chatwootConnectionService.connect(tenantId, body.accountId);
+      this.logger.log(`Successfully connected Chatwoot account: ${connection.accountId} for tenant: ${tenantId}`);
+      return connection;
+    } catch (error) {
+      this.logger.error(`Failed to connect Chatwoot for tenant ${tenantId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error.message.startsWith('Could not reach Chatwoot')) {
+        throw new HttpException(error.message, HttpStatus.BAD_GATEWAY);
+      }
+      if (error.message.startsWith('Chatwoot')) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw new HttpException(
+        `Failed to connect Chatwoot: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('tenants/:id/chatwoot-routes')
+  @ApiOperation({ summary: 'List the Chatwoot inbox routes of a tenant' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiResponse({ status: 200, description: 'Chatwoot routes retrieved successfully', type: [ChatwootInboxRoute] })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getRoutes(@Param('id') tenantId: string): Promise<ChatwootInboxRoute[]> {
+    this.logger.log(`Getting Chatwoot routes for tenant: ${tenantId}`);
+
+    try {
+      return await this.chatwootInboxRouteService.findRoutes(tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to get Chatwoot routes: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to get Chatwoot routes: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post('tenants/:id/chatwoot-routes')
+  @ApiOperation({ summary: 'Route a Chatwoot inbox to a pricing agent' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiResponse({ status: 201, description: 'Chatwoot route created successfully', type: ChatwootInboxRoute })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 409, description: 'Chatwoot inbox is already routed' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async createRoute(@Param('id') tenantId: string, @Body() body: CreateChatwootInboxRouteDto): Promise<ChatwootInboxRoute> {
+    this.logger.log(`Creating Chatwoot route for inbox: ${body.chatwootInboxId} for tenant: ${tenantId}`);
+
+    try {
+      await this.ensurePricingAgentExists(body.pricingAgentId, tenantId);
+
+      const route = await this.chatwootInboxRouteService.createRoute(body, tenantId);
+      this.logger.log(`Successfully created Chatwoot route: ${route._id}`);
+      return route;
+    } catch (error) {
+      this.logger.error(`Failed to create Chatwoot route: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to create Chatwoot route');
+    }
+  }
+
+  @Get('tenants/:id/chatwoot-routes/:routeId')
+  @ApiOperation({ summary: 'Get a Chatwoot inbox route' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiParam({ name: 'routeId', description: 'Chatwoot route ID' })
+  @ApiResponse({ status: 200, description: 'Chatwoot route retrieved successfully', type: ChatwootInboxRoute })
+  @ApiResponse({ status: 404, description: 'Chatwoot route not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getRoute(@Param('id') tenantId: string, @Param('routeId') routeId: string): Promise<ChatwootInboxRoute> {
+    this.logger.log(`Getting Chatwoot route: ${routeId} for tenant: ${tenantId}`);
+
+    try {
+      const route = await this.chatwootInboxRouteService.findOneRoute(routeId, tenantId);
+      if (!route) {
+        throw new HttpException('Chatwoot route not found', HttpStatus.NOT_FOUND);
+      }
+      return route;
+    } catch (error) {
+      this.logger.error(`Failed to get Chatwoot route ${routeId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to get Chatwoot route');
+    }
+  }
+
+  @Put('tenants/:id/chatwoot-routes/:routeId')
+  @ApiOperation({ summary: 'Update a Chatwoot inbox route' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiParam({ name: 'routeId', description: 'Chatwoot route ID' })
+  @ApiResponse({ status: 200, description: 'Chatwoot route updated successfully', type: ChatwootInboxRoute })
+  @ApiResponse({ status: 404, description: 'Chatwoot route or pricing agent not found' })
+  @ApiResponse({ status: 409, description: 'Chatwoot inbox is already routed' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async updateRoute(
+    @Param('id') tenantId: string,
+    @Param('routeId') routeId: string,
+    @Body() body: UpdateChatwootInboxRouteDto
+  ): Promise<ChatwootInboxRoute> {
+    this.logger.log(`Updating Chatwoot route: ${routeId} for tenant: ${tenantId}`);
+
+    try {
+      if (body.pricingAgentId) {
+        await this.ensurePricingAgentExists(body.pricingAgentId, tenantId);
+      }
+
+      const route = await this.chatwootInboxRouteService.updateRoute(routeId, body, tenantId);
+      if (!route) {
+        throw new HttpException('Chatwoot route not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully updated Chatwoot route: ${routeId}`);
+      return route;
+    } catch (error) {
+      this.logger.error(`Failed to update Chatwoot route ${routeId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to update Chatwoot route');
+    }
+  }
+
+  @Delete('tenants/:id/chatwoot-routes/:routeId')
+  @ApiOperation({ summary: 'Delete a Chatwoot inbox route (soft delete)' })
+  @ApiParam({ name: 'id', description: 'Tenant ID' })
+  @ApiParam({ name: 'routeId', description: 'Chatwoot route ID' })
+  @ApiResponse({ status: 200, description: 'Chatwoot route deleted successfully', type: SuccessResponseDto })
+  @ApiResponse({ status: 404, description: 'Chatwoot route not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async deleteRoute(@Param('id') tenantId: string, @Param('routeId') routeId: string): Promise<SuccessResponseDto> {
+    this.logger.log(`Deleting Chatwoot route: ${routeId} for tenant: ${tenantId}`);
+
+    try {
+      const success = await this.chatwootInboxRouteService.deleteRoute(routeId, tenantId);
+      if (!success) {
+        throw new HttpException('Chatwoot route not found', HttpStatus.NOT_FOUND);
+      }
+      return { success };
+    } catch (error) {
+      this.logger.error(`Failed to delete Chatwoot route ${routeId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to delete Chatwoot route');
+    }
+  }
+
+  private async ensurePricingAgentExists(pricingAgentId: string, tenantId: string): Promise<void> {
+    const agent = await this.pricingAgentService.findOnePricingAgent(pricingAgentId, tenantId);
+    if (!agent) {
+      throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+    }
+  }
+
+  private toHttpException(error: any, failureMessage: string): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (error.message === 'Chatwoot inbox is already routed to a pricing agent') {
+      return new HttpException(error.message, HttpStatus.CONFLICT);
+    }
+    return new HttpException(`${failureMessage}: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
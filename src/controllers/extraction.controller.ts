@@ -4,6 +4,8 @@ import { AiOcrPricingTablesAgentService } from '../ai-agents/ai-ocr-pricing-tabl
 import { ExtractedPricingTable, PricingTableExtractionRequest } from 'src/dtos/text-extraction.dto';
 import { AuthGuard } from '../auth/auth.guard';
 import { LangchainCongigService } from 'src/ai-agents/langchain-config.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { LlmPurpose, QuotaMetric } from '../models/mongodb.model';
 
 @ApiTags('extraction')
 @Controller('extraction')
@@ -14,6 +16,7 @@ export class ExtractionController {
   constructor(
     private readonly pricingTableExtractionAgent: AiOcrPricingTablesAgentService,
     private readonly llmService: LangchainCongigService,
+    private readonly entitlementService: EntitlementService,
   ) {
     this.logger.log('PricingTableExtractionController initialized');
   }
@@ -57,7 +60,8 @@ export class ExtractionController {
         );
       }
 
-      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.EXTRACTION);
+      await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
       const result = await this.pricingTableExtractionAgent.extractPricingTable(body, llmConfig);
       this.logger.log(`Successfully extracted pricing table (confidence: ${result.confidence})`);
 
@@ -0,0 +1,98 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ObjectId } from 'mongodb';
+import { IntegrationsController } from './integrations.controller';
+import { ConversationQuoteService } from '../services/conversation-quote.service';
+import { ExpectedErrorType, QuoteSource } from '../models/mongodb.model';
+import { QuoteAlreadyAcceptedError, QuoteExpiredError, QuoteNotAcceptableError, QuoteNotFoundError } from '../services/quote.service';
+import type { AuthenticatedRequest } from '../auth/auth.guard';
+
+describe('integrations controller', () => {
+  const agentId = new ObjectId().toString();
+  const checkpoint = { _id: new ObjectId(), functionSchema: '{ quantity: number }', functionCode: 'function quoteOrder() {}' };
+  const request = { user: { id: 'api-key-id', tenantId: 'tenant-id' } } as AuthenticatedRequest;
+
+  let validateOrderInput: jest.Mock;
+  let executePricingFunction: jest.Mock;
+  let acceptQuote: jest.Mock;
+  let controller: IntegrationsController;
+
+  beforeEach(() => {
+    validateOrderInput = jest.fn().mockResolvedValue([]);
+    executePricingFunction = jest.fn().mockResolvedValue({ total: 10 });
+    acceptQuote = jest.fn();
+    const services: Record<string, any> = {
+      dynamicRunnerService: { executePricingFunction },
+      pricingAgentService: { findOnePricingAgent: jest.fn().mockResolvedValue({ _id: new ObjectId(agentId), isDeployed: true }) },
+      deploymentService: { findDeployedCheckpoint: jest.fn().mockResolvedValue(checkpoint) },
+      orderInputValidationService: { validateOrderInput, findOrderInputErrors: jest.fn().mockResolvedValue([]) },
+      quoteService: {
+        recordQuote: jest.fn().mockResolvedValue({ _id: new ObjectId(), validUntil: new Date() }),
+        findOneQuote: jest.fn().mockResolvedValue({ pricingAgentId: new ObjectId(agentId), source: QuoteSource.API }),
+        acceptQuote,
+      },
+      entitlementService: { consumeQuota: jest.fn() },
+      currencyService: { resolveQuoteCurrency: jest.fn().mockResolvedValue(null), applyQuoteCurrency: (result: any) => result },
+    };
+    const conversationQuoteService = new ConversationQuoteService(
+      {} as any,
+      {} as any,
+      services.dynamicRunnerService,
+      services.pricingAgentService,
+      services.deploymentService,
+      {} as any,
+      services.quoteService,
+      services.entitlementService,
+      services.orderInputValidationService,
+      {} as any,
+      services.currencyService,
+    );
+    controller = new IntegrationsController(
+      {} as any,
+      services.pricingAgentService,
+      services.deploymentService,
+      {} as any,
+      services.orderInputValidationService,
+      services.quoteService,
+      conversationQuoteService,
+      services.entitlementService,
+      {} as any,
+    );
+  });
+
+  it('rejects orders that do not match the schema with the field errors, without running the pricing function', async () => {
+    const inputErrors = [{ code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/quantity must be number', path: '/quantity' }];
+    validateOrderInput.mockResolvedValue(inputErrors);
+
+    const error = await controller.calculatePrice(agentId, { quantity: 'two' }, request).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.BAD_REQUEST);
+    expect(error.getResponse()).toEqual({
+      statusCode: HttpStatus.BAD_REQUEST,
+      message: 'Order input does not match the agent schema',
+      errors: inputErrors,
+    });
+    expect(executePricingFunction).not.toHaveBeenCalled();
+  });
+
+  it('prices orders that match the schema', async () => {
+    const result = await controller.calculatePrice(agentId, { quantity: 2 }, request);
+
+    expect(result).toMatchObject({ total: 10 });
+    expect(validateOrderInput).toHaveBeenCalledWith(checkpoint._id.toString(), checkpoint.functionSchema, { quantity: 2 });
+  });
+
+  it.each([
+    [new QuoteNotFoundError(), HttpStatus.NOT_FOUND],
+    [new QuoteAlreadyAcceptedError(), HttpStatus.CONFLICT],
+    [new QuoteExpiredError(), HttpStatus.GONE],
+    [new QuoteNotAcceptableError('Quote has no total to accept'), HttpStatus.UNPROCESSABLE_ENTITY],
+  ])('maps %s of an accepted quote to its status', async (quoteError, status) => {
+    acceptQuote.mockRejectedValue(quoteError);
+
+    const error = await controller.acceptQuote(new ObjectId().toString(), request).catch(caught => caught);
+
+    expect(error.getStatus()).toBe(status);
+    expect(error.message).toBe(quoteError.message);
+  });
+});
@@ -1,106 +1,104 @@
-import { Controller, Post, Body, Param, Req, Inject, HttpException, HttpStatus, Logger, UseGuards, Get, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { Controller, Post, Body, Param, Req, Res, Inject, HttpException, HttpStatus, Logger, UseGuards, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiQuery, ApiParam, ApiBearerAuth, ApiSecurity, ApiProduces } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { isISO4217CurrencyCode } from 'class-validator';
 import { Db } from 'mongodb';
-import { AiMessageToSchemaConversionAgentService } from '../ai-agents/ai-message-to-schema-conversion.agent';
-import { NaturalLanguageResponseGenerationAgentService } from '../ai-agents/ai-natural-language-response-generation.agent';
-import { DynamicRunnerService } from '../services/dynamic-runner.service';
 import { PricingAgentService } from '../services/pricing-agent.service';
-import { ApiTokenGuard } from '../auth/api-token.guard';
-import { PlaygroundExecutionRequestDto, PlaygroundExecutionResponseDto } from '../dtos/playground-execution.dto';
-import { QuoteResultDTO } from '../dtos/checkpoint-testset.dto';
-import { LangchainCongigService } from 'src/ai-agents/langchain-config.service';
+import { PricingAgentDeploymentService } from '../services/pricing-agent-deployment.service';
+import { ApiKeyScopes, ApiTokenGuard, isPricingAgentAllowed } from '../auth/api-token.guard';
+import { RateLimit, RateLimitGuard } from '../auth/rate-limit.guard';
+import { RateLimitBucket } from '../config/rate-limit.config';
+import { PlaygroundExecutionRequestDto } from '../dtos/playground-execution.dto';
 import { OpenApiGeneratorService, OpenApiSpec } from 'src/services/openapi-generator.service';
+import { OrderInputValidationService } from '../services/order-input-validation.service';
+import { QuoteAlreadyAcceptedError, QuoteExpiredError, QuoteNotAcceptableError, QuoteNotFoundError, QuoteService } from '../services/quote.service';
+import { ConversationQuoteService, PricedOrder, PricingAgentNotDeployedError, PricingAgentNotFoundError } from '../services/conversation-quote.service';
+import { ChatStreamService } from '../services/chat-stream.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { CurrencyConversionError } from '../services/currency.service';
+import { ApiKeyScope, QuotaMetric, Quote, QuoteSource } from '../models/mongodb.model';
+import { IntegrationConversationResponseDto, IntegrationQuoteResultDto } from '../dtos/integration-quote.dto';
 import type { AuthenticatedRequest } from '../auth/auth.guard';
+import type { AuthUser } from '../auth/auth-provider.interface';
 
 @ApiTags('integrations')
+@ApiBearerAuth()
+@ApiSecurity('X-API-Key')
 @Controller('integrations')
-@UseGuards(ApiTokenGuard)
+@UseGuards(ApiTokenGuard, RateLimitGuard)
 export class IntegrationsController {
   private readonly logger = new Logger(IntegrationsController.name);
 
   constructor(
     @Inject('DATABASE_CONNECTION') private db: Db,
-    private readonly aiOrderConversionAgent: AiMessageToSchemaConversionAgentService,
-    private readonly aiPlaygroundMessageAgent: NaturalLanguageResponseGenerationAgentService,
-    private readonly dynamicRunnerService: DynamicRunnerService,
     private readonly pricingAgentService: PricingAgentService,
-    private readonly llmService: LangchainCongigService,
+    private readonly deploymentService: PricingAgentDeploymentService,
     private readonly openApiGeneratorService: OpenApiGeneratorService,
+    private readonly orderInputValidationService: OrderInputValidationService,
+    private readonly quoteService: QuoteService,
+    private readonly conversationQuoteService: ConversationQuoteService,
+    private readonly entitlementService: EntitlementService,
+    private readonly chatStreamService: ChatStreamService,
   ) {
     this.logger.log('IntegrationsController initialized');
   }
   
   // Endpoint 1: Accept generated agent schema in body parameters, return calculated price
   @Post(':agentId/price')
+  @ApiKeyScopes(ApiKeyScope.PRICE)
+  @RateLimit(RateLimitBucket.PRICE)
   @ApiOperation({ summary: 'Calculate price using agent schema parameters' })
-  @ApiQuery({ name: 'apiKey', description: 'API key', required: true, type: String })
-  @ApiResponse({ status: 200, description: 'Price calculated successfully', type: QuoteResultDTO })
-  @ApiResponse({ status: 400, description: 'Bad request - invalid parameters or agent not deployed' })
+  @ApiQuery({ name: 'currency', description: 'ISO 4217 currency to return the price in, converted from the agent currency with the tenant exchange rates, ignored when the agent has no currency', required: false, type: String })
+  @ApiResponse({ status: 200, description: 'Price calculated and recorded as a quote', type: IntegrationQuoteResultDto })
+  @ApiResponse({ status: 400, description: 'Bad request - order does not match the agent schema (errors carry JSON pointer paths), agent not deployed or no exchange rate to the requested currency' })
+  @ApiResponse({ status: 403, description: 'API key is missing the price scope or may not use the pricing agent' })
   @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After) or the tenant plan monthly integration calls quota is used up' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async calculatePrice(
     @Param('agentId') agentId: string,
     @Body() body: any, // The generated schema parameters
-    @Req() request: AuthenticatedRequest
-  ): Promise<QuoteResultDTO> {
+    @Req() request: AuthenticatedRequest,
+    @Query('currency') currency?: string
+  ): Promise<IntegrationQuoteResultDto> {
     try {
       this.logger.log(`Calculating price for agent: ${agentId}`);
       if (!request.user?.id)
         throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
 
-      // Get the tenant ID from the authenticated API token
-      const tenantId = request.user.tenantId;
-
-      // Find the latest deployed checkpoint for the agent
-      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
-      if (!agent) {
-        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
-      }
-
-      if (!agent.isDeployed) {
-        throw new HttpException('Pricing agent is not deployed', HttpStatus.BAD_REQUEST);
-      }
-
-      const checkpoint = await this.pricingAgentService.findLatestCheckpoint(agentId, tenantId);
-      if (!checkpoint) {
-        throw new HttpException('No checkpoint found for the specified agent', HttpStatus.NOT_FOUND);
+      if (currency !== undefined && !isISO4217CurrencyCode(currency)) {
+        throw new HttpException('currency must be an ISO 4217 currency code', HttpStatus.BAD_REQUEST);
       }
 
-      if (!checkpoint.functionSchema || !checkpoint.functionCode) {
-        throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
-      }
+      // Get the tenant ID from the authenticated API token
+      const tenantId = request.user.tenantId;
 
-      // Execute the pricing function directly with the provided parameters
-      const functionResult = await this.dynamicRunnerService.executePricingFunction(
-        checkpoint.functionCode,
-        checkpoint.functionSchema,
-        body // Use the body directly as structured parameters
-      );
+      const quoteResult = await this.priceOrder(agentId, body, tenantId, request.user.id, currency);
 
       this.logger.log(`Successfully calculated price for agent: ${agentId}`);
-      return functionResult;
+      return quoteResult;
     } catch (error) {
       this.logger.error(`Failed to calculate price: ${error.message}`, error.stack);
-      if (error instanceof HttpException) {
-        throw error;
-      }
-      throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+      throw this.toPricingHttpException(error);
     }
   }
 
   // Endpoint 2: Accept human language conversation and act like playground
   @Post(':agentId/chat')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @RateLimit(RateLimitBucket.CHAT)
   @ApiOperation({ summary: 'Process human language conversation for pricing calculation' })
-  @ApiQuery({ name: 'apiKey', description: 'API key', required: true, type: String })
-  @ApiResponse({ status: 200, description: 'Conversation processed successfully', type: PlaygroundExecutionResponseDto })
-  @ApiResponse({ status: 400, description: 'Bad request - invalid input or agent not deployed' })
+  @ApiResponse({ status: 200, description: 'Conversation processed and the price recorded as a quote', type: IntegrationConversationResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid input, agent not deployed or no exchange rate to the requested currency' })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
   @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After) or the tenant plan monthly integration calls quota is used up' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async processConversation(
     @Param('agentId') agentId: string,
     @Body() body: PlaygroundExecutionRequestDto,
     @Req() request: AuthenticatedRequest
-  ): Promise<PlaygroundExecutionResponseDto> {
+  ): Promise<IntegrationConversationResponseDto> {
     try {
       this.logger.log(`Processing conversation for agent: ${agentId} with input: ${body.input?.substring(0, 100)}...`);
       if (!request.user?.id)
@@ -109,81 +107,61 @@ export class IntegrationsController {
       // Get the tenant ID from the authenticated API token
       const tenantId = request.user.tenantId;
 
-      // Find the latest deployed checkpoint for the agent
-      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
-      if (!agent) {
-        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
-      }
-
-      if (!agent.isDeployed) {
-        throw new HttpException('Pricing agent is not deployed', HttpStatus.BAD_REQUEST);
-      }
-
-      const checkpoint = await this.pricingAgentService.findLatestCheckpoint(agentId, tenantId);
-      if (!checkpoint) {
-        throw new HttpException('No checkpoint found for the specified agent', HttpStatus.NOT_FOUND);
-      }
-
-      if (!checkpoint.functionSchema || !checkpoint.functionCode) {
-        throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
-      }
-
-      // Step 1: Convert conversation to structured parameters
-      const conversationHistory = (body.conversation || []).map(msg => ({
-        message: msg.message,
-        role: msg.role
-      }));
-
-        // Get tenant LLM config (will throw error for free tier tenants without BYOK)
-      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
-      
-      const conversionResult = await this.aiOrderConversionAgent.convertOrder({
-        conversationHistory: conversationHistory,
-        newUserMessage: body.input,
-        schema: checkpoint.functionSchema
-      }, llmConfig);
-
-      // Step 2: Execute the pricing function (without testing)
-      const functionResult = await this.dynamicRunnerService.executePricingFunction(
-        checkpoint.functionCode,
-        checkpoint.functionSchema,
-        conversionResult.structuredOrderInput
-      );
-
-      // Step 3: Generate AI message based on conversation and function result
-      const conversation = body.conversation || [];
-
-      const pricingAgentContext = checkpoint.humanInputMessages
-        .map(msg => msg.message)
-        .filter(msg => msg)
-        .join('\n');
+      return await this.conversationQuoteService.quoteConversation({
+        pricingAgentId: agentId,
+        input: body.input,
+        conversation: body.conversation,
+        locale: body.locale,
+        currency: body.currency,
+        source: QuoteSource.CHAT,
+        apiKeyId: request.user.id,
+      }, tenantId);
+    } catch (error) {
+      throw this.toConversationHttpException(error);
+    }
+  }
 
-      const messageResult = await this.aiPlaygroundMessageAgent.generatePlaygroundMessage({
-        conversation: conversation,
-        functionResult: functionResult,
-        pricingAgentContext: pricingAgentContext
-      }, llmConfig);
+  // Endpoint 2b: Same as the chat endpoint, streaming the result as Server-Sent Events
+  @Post(':agentId/chat/stream')
+  @ApiKeyScopes(ApiKeyScope.CHAT)
+  @RateLimit(RateLimitBucket.CHAT)
+  @ApiOperation({ summary: 'Process human language conversation for pricing calculation, streaming the result as Server-Sent Events' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'structured_order and quote_result events as soon as they are computed, ai_message events with the chunks of the AI message, then a done event with the chat endpoint response. Failures after the stream started are sent as an error event' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid input, agent not deployed or no exchange rate to the requested currency' })
+  @ApiResponse({ status: 403, description: 'API key is missing the chat scope or may not use the pricing agent' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After) or the tenant plan monthly integration calls quota is used up' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async streamConversation(
+    @Param('agentId') agentId: string,
+    @Body() body: PlaygroundExecutionRequestDto,
+    @Req() request: AuthenticatedRequest,
+    @Res() response: Response
+  ): Promise<void> {
+    this.logger.log(`Streaming conversation for agent: ${agentId} with input: ${body.input?.substring(0, 100)}...`);
+    if (!request.user?.id)
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
 
-      return {
-        structuredOrder: conversionResult.structuredOrderInput,
-        functionResult: functionResult,
-        aiMessage: messageResult.aiMessage
-      };
+    const events = this.conversationQuoteService.streamConversation({
+      pricingAgentId: agentId,
+      input: body.input,
+      conversation: body.conversation,
+      locale: body.locale,
+      currency: body.currency,
+      source: QuoteSource.CHAT,
+      apiKeyId: request.user.id,
+    }, request.user.tenantId);
 
-    } catch (error) {
-      this.logger.error(`Failed to process conversation: ${error.message}`, error.stack);
-      if (error instanceof HttpException) {
-        throw error;
-      }
-      throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
-    }
+    await this.chatStreamService.send(response, events, error => this.toConversationHttpException(error));
   }
 
   @Get(':agentId/openapi')
+  @ApiKeyScopes(ApiKeyScope.OPENAPI)
   @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
   @ApiOperation({ summary: 'Generate OpenAPI schema for the agent\'s pricing endpoint' })
-  @ApiQuery({ name: 'apiKey', description: 'API key', required: true, type: String })
   @ApiResponse({ status: 200, description: 'OpenAPI schema generated successfully', type: Object })
+  @ApiResponse({ status: 403, description: 'API key is missing the openapi scope or may not use the pricing agent' })
   @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async getAgentOpenApiSchema(
@@ -197,7 +175,7 @@ export class IntegrationsController {
       // Get the tenant ID from the authenticated API token
       const tenantId = request.user.tenantId;
 
-      // Find the latest deployed checkpoint for the agent
+      // Find the checkpoint pinned by the agent's deployment
       const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
       if (!agent) {
         throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
@@ -207,10 +185,10 @@ export class IntegrationsController {
         throw new HttpException('Pricing agent is not deployed', HttpStatus.BAD_REQUEST);
       }
 
-      const checkpoint = await this.pricingAgentService.findLatestCheckpoint(agentId, tenantId);
+      const checkpoint = await this.deploymentService.findDeployedCheckpoint(agent, tenantId);
       if (!checkpoint) {
-        this.logger.warn(`Checkpoint not found for tests build: ${agentId}`);
-        throw new HttpException('Checkpoint not found', HttpStatus.NOT_FOUND);
+        this.logger.warn(`Deployed checkpoint not found for agent: ${agentId}`);
+        throw new HttpException('No deployed checkpoint found for the specified agent', HttpStatus.NOT_FOUND);
       }
 
       if (!checkpoint.functionSchema) {
@@ -232,4 +210,210 @@ export class IntegrationsController {
       throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  // Endpoint 3: Look up a quote returned by the price or chat endpoints
+  @Get('quotes/:quoteId')
+  @ApiKeyScopes(ApiKeyScope.PRICE, ApiKeyScope.CHAT)
+  @ApiParam({ name: 'quoteId', description: 'Quote ID returned by the price or chat endpoint' })
+  @ApiOperation({ summary: 'Get a quote by its reference' })
+  @ApiResponse({ status: 200, description: 'Quote retrieved successfully', type: Quote })
+  @ApiResponse({ status: 403, description: 'API key is missing the price and chat scopes' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getQuote(
+    @Param('quoteId') quoteId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<Quote> {
+    try {
+      this.logger.log(`Getting quote: ${quoteId}`);
+      if (!request.user?.id)
+        throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+
+      return await this.findIntegrationQuote(quoteId, request.user);
+    } catch (error) {
+      this.logger.error(`Failed to get quote: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // Endpoint 4: Accept a quote at its original total, regardless of later deployments
+  @Post('quotes/:quoteId/accept')
+  @ApiKeyScopes(ApiKeyScope.PRICE, ApiKeyScope.CHAT)
+  @ApiParam({ name: 'quoteId', description: 'Quote ID returned by the price or chat endpoint' })
+  @ApiOperation({ summary: 'Accept a quote, honoring the originally quoted total' })
+  @ApiResponse({ status: 200, description: 'Quote accepted, result holds the honored total', type: Quote })
+  @ApiResponse({ status: 403, description: 'API key is missing the price and chat scopes' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 409, description: 'Quote has already been accepted' })
+  @ApiResponse({ status: 410, description: 'Quote has expired, re-price it to get a new quote' })
+  @ApiResponse({ status: 422, description: 'Quote has no total to accept or has errors' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async acceptQuote(
+    @Param('quoteId') quoteId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<Quote> {
+    try {
+      this.logger.log(`Accepting quote: ${quoteId}`);
+      if (!request.user?.id)
+        throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+
+      const tenantId = request.user.tenantId;
+      await this.findIntegrationQuote(quoteId, request.user);
+
+      const quote = await this.quoteService.acceptQuote(quoteId, tenantId);
+      this.logger.log(`Successfully accepted quote: ${quoteId}`);
+      return quote;
+    } catch (error) {
+      this.logger.error(`Failed to accept quote: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error instanceof QuoteNotFoundError) {
+        throw new HttpException(error.message, HttpStatus.NOT_FOUND);
+      }
+      if (error instanceof QuoteAlreadyAcceptedError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      if (error instanceof QuoteExpiredError) {
+        throw new HttpException(error.message, HttpStatus.GONE);
+      }
+      if (error instanceof QuoteNotAcceptableError) {
+        throw new HttpException(error.message, HttpStatus.UNPROCESSABLE_ENTITY);
+      }
+      throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // Endpoint 5: Price the input of a quote again with the currently deployed checkpoint
+  @Post('quotes/:quoteId/reprice')
+  @ApiKeyScopes(ApiKeyScope.PRICE)
+  @RateLimit(RateLimitBucket.PRICE)
+  @ApiParam({ name: 'quoteId', description: 'Quote ID returned by the price or chat endpoint' })
+  @ApiOperation({ summary: 'Re-price a quote with the currently deployed checkpoint, creating a new quote' })
+  @ApiResponse({ status: 200, description: 'Order priced again and recorded as a new quote', type: IntegrationQuoteResultDto })
+  @ApiResponse({ status: 400, description: 'Bad request - quoted order does not match the current agent schema, agent not deployed or no exchange rate to the quote currency' })
+  @ApiResponse({ status: 403, description: 'API key is missing the price scope' })
+  @ApiResponse({ status: 404, description: 'Quote, pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded (see Retry-After) or the tenant plan monthly integration calls quota is used up' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async repriceQuote(
+    @Param('quoteId') quoteId: string,
+    @Req() request: AuthenticatedRequest
+  ): Promise<IntegrationQuoteResultDto> {
+    try {
+      this.logger.log(`Re-pricing quote: ${quoteId}`);
+      if (!request.user?.id)
+        throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+
+      const tenantId = request.user.tenantId;
+      const quote = await this.findIntegrationQuote(quoteId, request.user);
+
+      const quoteResult = await this.priceOrder(
+        quote.pricingAgentId.toString(),
+        quote.inputParams,
+        tenantId,
+        request.user.id,
+        quote.result.currency,
+        quoteId
+      );
+
+      this.logger.log(`Successfully re-priced quote: ${quoteId} as quote: ${quoteResult.quoteId}`);
+      return quoteResult;
+    } catch (error) {
+      this.logger.error(`Failed to re-price quote: ${error.message}`, error.stack);
+      throw this.toPricingHttpException(error);
+    }
+  }
+
+  /**
+   * Prices an order with the agent's deployed checkpoint and records it as an API quote, in the
+   * requested currency when set
+   */
+  private async priceOrder(
+    agentId: string,
+    inputParams: any,
+    tenantId: string | undefined,
+    apiKeyId: string,
+    currency?: string,
+    repricedFromQuoteId?: string
+  ): Promise<IntegrationQuoteResultDto> {
+    const quoteCheckpoint = await this.conversationQuoteService.findDeployedCheckpoint(agentId, currency, tenantId);
+    const { checkpoint } = quoteCheckpoint;
+
+    // Reject orders that do not match the generated JSON schema before running generated code
+    const inputErrors = await this.orderInputValidationService.validateOrderInput(
+      checkpoint._id!.toString(),
+      checkpoint.functionSchema!,
+      inputParams
+    );
+    if (inputErrors.length > 0) {
+      throw new HttpException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: 'Order input does not match the agent schema',
+        errors: inputErrors,
+      }, HttpStatus.BAD_REQUEST);
+    }
+
+    // Counted before running generated code so a used up quota stops the request, given back when it fails
+    const consumedAt = new Date();
+    await this.entitlementService.consumeQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, consumedAt);
+
+    // Execute the pricing function directly with the provided parameters
+    let priced: PricedOrder;
+    try {
+      priced = await this.conversationQuoteService.priceOrder({
+        ...quoteCheckpoint,
+        structuredOrder: inputParams,
+        source: QuoteSource.API,
+        apiKeyId,
+        repricedFromQuoteId,
+      }, tenantId);
+    } catch (error) {
+      await this.entitlementService.refundQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, consumedAt);
+      throw error;
+    }
+    const { functionResult, quote } = priced;
+
+    return {
+      ...functionResult,
+      quoteId: quote._id!.toString(),
+      validUntil: quote.validUntil,
+    };
+  }
+
+  /**
+   * Finds a quote served through the integrations endpoints, playground quotes and the quotes of
+   * pricing agents the API key may not use are not exposed here
+   */
+  private async findIntegrationQuote(quoteId: string, user: AuthUser): Promise<Quote> {
+    const quote = await this.quoteService.findOneQuote(quoteId, user.tenantId);
+    if (!quote || quote.source === QuoteSource.PLAYGROUND || !isPricingAgentAllowed(user, quote.pricingAgentId.toString())) {
+      throw new HttpException('Quote not found', HttpStatus.NOT_FOUND);
+    }
+    return quote;
+  }
+
+  private toConversationHttpException(error: any): HttpException {
+    this.logger.error(`Failed to process conversation: ${error.message}`, error.stack);
+    return this.toPricingHttpException(error);
+  }
+
+  private toPricingHttpException(error: any): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (error instanceof PricingAgentNotFoundError) {
+      return new HttpException(error.message, HttpStatus.NOT_FOUND);
+    }
+    if (error instanceof PricingAgentNotDeployedError) {
+      return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    if (error instanceof CurrencyConversionError) {
+      return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    return new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
 }
@@ -0,0 +1,106 @@
+import { Controller, Get, Query, Headers, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiHeader } from '@nestjs/swagger';
+import { LlmOperation, LlmPurpose } from '../models/mongodb.model';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { LlmUsageGroupBy, LlmUsageReportDto } from '../dtos/llm-usage-report.dto';
+import { isMultiTenancyEnabled } from '../config/multi-tenancy.config';
+import { AuthGuard } from '../auth/auth.guard';
+
+/**
+ * REST API controller for LLM usage accounting.
+ *
+ * Reports the tokens and estimated cost of the LLM calls made by the AI agents, grouped by
+ * purpose, operation, model, pricing agent or day.
+ */
+@ApiTags('llm-usage')
+@Controller('llm-usage')
+@UseGuards(AuthGuard)
+export class LlmUsageController {
+  private readonly logger = new Logger(LlmUsageController.name);
+
+  constructor(private readonly llmUsageService: LlmUsageService) {
+    this.logger.log('LlmUsageController initialized');
+  }
+
+  @Get('report')
+  @ApiOperation({ summary: 'Get the token usage and estimated cost of LLM calls, grouped' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiQuery({ name: 'groupBy', description: 'Grouping of the report (default: purpose)', required: false, enum: LlmUsageGroupBy })
+  @ApiQuery({ name: 'purpose', description: 'Filter by LLM purpose', required: false, enum: LlmPurpose })
+  @ApiQuery({ name: 'operation', description: 'Filter by agent operation', required: false, enum: LlmOperation })
+  @ApiQuery({ name: 'agentId', description: 'Filter by pricing agent ID', required: false })
+  @ApiQuery({ name: 'byok', description: 'Filter by calls made with the tenant\'s own API key (true) or billed (false)', required: false })
+  @ApiQuery({ name: 'from', description: 'Only calls made at or after this ISO date', required: false })
+  @ApiQuery({ name: 'to', description: 'Only calls made at or before this ISO date', required: false })
+  @ApiResponse({ status: 200, description: 'LLM usage report retrieved successfully', type: LlmUsageReportDto })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid parameters' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getUsageReport(
+    @Headers('X-Tenant-ID') tenantId?: string,
+    @Query('groupBy') groupBy?: string,
+    @Query('purpose') purpose?: string,
+    @Query('operation') operation?: string,
+    @Query('agentId') agentId?: string,
+    @Query('byok') byok?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string
+  ): Promise<LlmUsageReportDto> {
+    this.logger.log(`Getting LLM usage report for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      if (groupBy && !Object.values(LlmUsageGroupBy).includes(groupBy as LlmUsageGroupBy)) {
+        this.logger.warn(`Invalid groupBy parameter: ${groupBy}`);
+        throw new HttpException(`groupBy must be one of: ${Object.values(LlmUsageGroupBy).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+
+      if (purpose && !Object.values(LlmPurpose).includes(purpose as LlmPurpose)) {
+        this.logger.warn(`Invalid purpose parameter: ${purpose}`);
+        throw new HttpException(`Purpose must be one of: ${Object.values(LlmPurpose).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+
+      if (operation && !Object.values(LlmOperation).includes(operation as LlmOperation)) {
+        this.logger.warn(`Invalid operation parameter: ${operation}`);
+        throw new HttpException(`Operation must be one of: ${Object.values(LlmOperation).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+
+      if (byok && byok !== 'true' && byok !== 'false') {
+        this.logger.warn(`Invalid byok parameter: ${byok}`);
+        throw new HttpException('byok must be true or false', HttpStatus.BAD_REQUEST);
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        this.logger.warn(`Invalid date range: ${from} - ${to}`);
+        throw new HttpException('from and to must be valid ISO dates', HttpStatus.BAD_REQUEST);
+      }
+
+      const report = await this.llmUsageService.getUsageReport((groupBy as LlmUsageGroupBy) || LlmUsageGroupBy.PURPOSE, {
+        purpose: purpose as LlmPurpose | undefined,
+        operation: operation as LlmOperation | undefined,
+        pricingAgentId: agentId,
+        byok: byok ? byok === 'true' : undefined,
+        from: fromDate,
+        to: toDate,
+      }, tenantId);
+
+      this.logger.log(`Successfully retrieved LLM usage report for tenant: ${tenantId}`);
+      return report;
+    } catch (error) {
+      this.logger.error(`Failed to get LLM usage report: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get LLM usage report: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Controller, Get, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { AuthGuard } from '../auth/auth.guard';
+import { DynamicRunnerService } from '../services/dynamic-runner.service';
+import { CompiledFormulaCacheMetricsDto } from '../dtos/compiled-formula-cache-metrics.dto';
+
+@ApiTags('metrics')
+@Controller('metrics')
+@UseGuards(AuthGuard)
+export class MetricsController {
+  private readonly logger = new Logger(MetricsController.name);
+
+  constructor(private readonly dynamicRunnerService: DynamicRunnerService) {
+    this.logger.log('MetricsController initialized');
+  }
+
+  @Get('formula-cache')
+  @ApiOperation({ summary: 'Get compiled formula cache and sandbox pool metrics' })
+  @ApiResponse({ status: 200, description: 'Metrics retrieved successfully', type: CompiledFormulaCacheMetricsDto })
+  getFormulaCacheMetrics(): CompiledFormulaCacheMetricsDto {
+    return this.dynamicRunnerService.getCompiledFormulaCacheMetrics();
+  }
+}
@@ -1,14 +1,19 @@
-import { Controller, Post, Param, Body, Query, Headers, HttpException, HttpStatus, Logger, Inject, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiHeader, ApiResponse } from '@nestjs/swagger';
+import { Controller, Post, Param, Body, Query, Headers, Res, HttpException, HttpStatus, Logger, Inject, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiHeader, ApiResponse, ApiProduces } from '@nestjs/swagger';
+import type { Response } from 'express';
 import { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
-import { AiMessageToSchemaConversionAgentService } from '../ai-agents/ai-message-to-schema-conversion.agent';
-import { NaturalLanguageResponseGenerationAgentService } from '../ai-agents/ai-natural-language-response-generation.agent';
 import { AiFakeConversationMessagesGenerationAgentService } from '../ai-agents/ai-fake-conversation-messages-generation.agent';
-import { DynamicRunnerService } from '../services/dynamic-runner.service';
 import { PlaygroundExecutionRequestDto, PlaygroundExecutionResponseDto, DemoConversationResponseDto } from '../dtos/playground-execution.dto';
 import { AuthGuard } from '../auth/auth.guard';
 import { LangchainCongigService } from 'src/ai-agents/langchain-config.service';
+import { ConversationQuoteService, getPricingAgentContext, QuoteCheckpoint } from '../services/conversation-quote.service';
+import { CurrencyConversionError, CurrencyService } from '../services/currency.service';
+import { LATEST_CHECKPOINT_SORT, PricingAgentService } from '../services/pricing-agent.service';
+import { ChatStreamService } from '../services/chat-stream.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { ChatStreamEvent } from '../dtos/chat-stream-event.dto';
+import { LlmPurpose, QuotaMetric, QuoteSource } from '../models/mongodb.model';
 
 @ApiTags('playground')
 @Controller('playground')
@@ -18,11 +23,13 @@ export class PlaygroundController {
 
   constructor(
     @Inject('DATABASE_CONNECTION') private db: Db,
-    private readonly aiOrderConversionAgent: AiMessageToSchemaConversionAgentService,
-    private readonly aiPlaygroundMessageAgent: NaturalLanguageResponseGenerationAgentService,
     private readonly aiDemoConversationAgent: AiFakeConversationMessagesGenerationAgentService,
-    private readonly dynamicRunnerService: DynamicRunnerService,
     private readonly llmService: LangchainCongigService,
+    private readonly conversationQuoteService: ConversationQuoteService,
+    private readonly chatStreamService: ChatStreamService,
+    private readonly pricingAgentService: PricingAgentService,
+    private readonly currencyService: CurrencyService,
+    private readonly entitlementService: EntitlementService,
   ) {
     this.logger.log('PlaygroundController initialized');
   }
@@ -38,7 +45,7 @@ export class PlaygroundController {
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID', required: false })
   @ApiQuery({ name: 'checkpointId', description: 'Checkpoint ID (optional, uses latest if not provided)', required: false })
   @ApiResponse({ status: 200, description: 'Agent executed successfully', type: PlaygroundExecutionResponseDto })
-  @ApiResponse({ status: 400, description: 'Bad request - invalid input' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid input or no exchange rate to the requested currency' })
   @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async executePlayground(
@@ -50,73 +57,14 @@ export class PlaygroundController {
     try {
       this.logger.log(`Executing playground for agent: ${agentId} with input: ${body.input?.substring(0, 100)}...`);
 
-      // Find the checkpoint
-      let checkpoint;
-      if (checkpointId) {
-        checkpoint = await this.checkpointCollection.findOne({
-          _id: new ObjectId(checkpointId),
-          pricingAgentId: new ObjectId(agentId),
-          tenantId: tenantId || '',
-          deletedAt: null
-        });
-      } else {
-        // Get latest checkpoint
-        const checkpoints = await this.checkpointCollection.find({
-          pricingAgentId: new ObjectId(agentId),
-          tenantId: tenantId || '',
-          deletedAt: null
-        }).sort({ version: -1 }).limit(1).toArray();
-        checkpoint = checkpoints[0];
-      }
-
-      if (!checkpoint) {
-        throw new HttpException('Pricing agent checkpoint not found', HttpStatus.NOT_FOUND);
-      }
-
-      if (!checkpoint.functionSchema || !checkpoint.functionCode) {
-        throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
-      }
-
-      // Step 1: Convert conversation to structured parameters
-      const conversationHistory = (body.conversation || []).map(msg => ({
-        message: msg.message,
-        role: msg.role
-      }));
-
-      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
-
-      const conversionResult = await this.aiOrderConversionAgent.convertOrder({
-        conversationHistory: conversationHistory,
-        newUserMessage: body.input,
-        schema: checkpoint.functionSchema
-      }, llmConfig);
-
-      // Step 2: Execute the pricing function (without testing)
-      const functionResult = await this.dynamicRunnerService.executePricingFunction(
-        checkpoint.functionCode,
-        checkpoint.functionSchema,
-        conversionResult.structuredOrderInput
-      );
-
-      // Step 3: Generate AI message based on conversation and function result
-      const conversation = body.conversation || [];
-
-      const pricingAgentContext = checkpoint.humanInputMessages
-        .map(msg => msg.message)
-        .filter(msg => msg)
-        .join('\n');
-
-      const messageResult = await this.aiPlaygroundMessageAgent.generatePlaygroundMessage({
-        conversation: conversation,
-        functionResult: functionResult,
-        pricingAgentContext: pricingAgentContext
-      }, llmConfig);
-
-      return {
-        structuredOrder: conversionResult.structuredOrderInput,
-        functionResult: functionResult,
-        aiMessage: messageResult.aiMessage
-      };
+      const quoteCheckpoint = await this.findPlaygroundQuoteCheckpoint(agentId, body.currency, tenantId, checkpointId);
+      return await this.conversationQuoteService.quoteCheckpointConversation({
+        ...quoteCheckpoint,
+        input: body.input,
+        conversation: body.conversation,
+        locale: body.locale,
+        source: QuoteSource.PLAYGROUND,
+      }, tenantId);
 
     } catch (error) {
       this.logger.error(`Failed to execute playground: ${error.message}`, error.stack);
@@ -127,6 +75,35 @@ export class PlaygroundController {
     }
   }
 
+  // Playground execution endpoint streaming the result as Server-Sent Events
+  @Post(':agentId/playground/stream')
+  @ApiOperation({ summary: 'Execute agent with natural language input for playground testing, streaming the result as Server-Sent Events' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID', required: false })
+  @ApiQuery({ name: 'checkpointId', description: 'Checkpoint ID (optional, uses latest if not provided)', required: false })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'structured_order and quote_result events as soon as they are computed, ai_message events with the chunks of the AI message, then a done event with the playground response. Failures after the stream started are sent as an error event' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid input or no exchange rate to the requested currency' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async streamPlayground(
+    @Param('agentId') agentId: string,
+    @Body() body: PlaygroundExecutionRequestDto,
+    @Res() response: Response,
+    @Headers('X-Tenant-ID') tenantId?: string,
+    @Query('checkpointId') checkpointId?: string
+  ): Promise<void> {
+    this.logger.log(`Streaming playground for agent: ${agentId} with input: ${body.input?.substring(0, 100)}...`);
+
+    await this.chatStreamService.send(response, this.playgroundEvents(agentId, body, tenantId, checkpointId), error => {
+      this.logger.error(`Failed to stream playground: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        return error;
+      }
+      return new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+    });
+  }
+
   // Demo conversation generation endpoint
   @Post(':agentId/demo-conversation')
   @ApiOperation({ summary: 'Generate a demo conversation for the pricing agent' })
@@ -144,44 +121,17 @@ export class PlaygroundController {
     try {
       this.logger.log(`Generating demo conversation for agent: ${agentId}`);
 
-      // Find the checkpoint
-      let checkpoint;
-      if (checkpointId) {
-        checkpoint = await this.checkpointCollection.findOne({
-          _id: new ObjectId(checkpointId),
-          pricingAgentId: new ObjectId(agentId),
-          tenantId: tenantId || '',
-          deletedAt: null
-        });
-      } else {
-        // Get latest checkpoint
-        const checkpoints = await this.checkpointCollection.find({
-          pricingAgentId: new ObjectId(agentId),
-          tenantId: tenantId || '',
-          deletedAt: null
-        }).sort({ version: -1 }).limit(1).toArray();
-        checkpoint = checkpoints[0];
-      }
-
-      if (!checkpoint) {
-        throw new HttpException('Pricing agent checkpoint not found', HttpStatus.NOT_FOUND);
-      }
-
-      if (!checkpoint.functionSchema || !checkpoint.functionCode) {
-        throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
-      }
-
-      // Generate pricing agent context
-      const pricingAgentContext = checkpoint.humanInputMessages
-        .map(msg => msg.message)
-        .filter(msg => msg)
-        .join('\n');
+      const checkpoint = await this.findPlaygroundCheckpoint(agentId, tenantId, checkpointId);
 
-      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.TEST_GENERATION, {
+        pricingAgentId: agentId,
+        checkpointId: checkpoint._id.toString(),
+      });
+      await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
 
       // Generate demo conversation
       const demoResult = await this.aiDemoConversationAgent.generateDemoConversation({
-        pricingAgentContext: pricingAgentContext,
+        pricingAgentContext: getPricingAgentContext(checkpoint),
         functionSchema: checkpoint.functionSchema,
         functionCode: checkpoint.functionCode
       }, llmConfig);
@@ -199,4 +149,66 @@ export class PlaygroundController {
       throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  private async *playgroundEvents(
+    agentId: string,
+    body: PlaygroundExecutionRequestDto,
+    tenantId?: string,
+    checkpointId?: string
+  ): AsyncGenerator<ChatStreamEvent> {
+    const quoteCheckpoint = await this.findPlaygroundQuoteCheckpoint(agentId, body.currency, tenantId, checkpointId);
+    yield* this.conversationQuoteService.streamCheckpointConversation({
+      ...quoteCheckpoint,
+      input: body.input,
+      conversation: body.conversation,
+      locale: body.locale,
+      source: QuoteSource.PLAYGROUND,
+    }, tenantId);
+  }
+
+  /**
+   * Finds the checkpoint tried in the playground and resolves the currency of its quotes before any LLM call, see CurrencyService
+   */
+  private async findPlaygroundQuoteCheckpoint(agentId: string, currency?: string, tenantId?: string, checkpointId?: string): Promise<QuoteCheckpoint> {
+    const checkpoint = await this.findPlaygroundCheckpoint(agentId, tenantId, checkpointId);
+    const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+    try {
+      const quoteCurrency = await this.currencyService.resolveQuoteCurrency(agent?.currency, currency, tenantId);
+      return { pricingAgentId: agentId, checkpoint, quoteCurrency };
+    } catch (error) {
+      if (error instanceof CurrencyConversionError) {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw error;
+    }
+  }
+
+  private async findPlaygroundCheckpoint(agentId: string, tenantId?: string, checkpointId?: string) {
+    let checkpoint;
+    if (checkpointId) {
+      checkpoint = await this.checkpointCollection.findOne({
+        _id: new ObjectId(checkpointId),
+        pricingAgentId: new ObjectId(agentId),
+        tenantId: tenantId || '',
+        deletedAt: null
+      });
+    } else {
+      // Get latest checkpoint
+      const checkpoints = await this.checkpointCollection.find({
+        pricingAgentId: new ObjectId(agentId),
+        tenantId: tenantId || '',
+        deletedAt: null
+      }).sort(LATEST_CHECKPOINT_SORT).limit(1).toArray();
+      checkpoint = checkpoints[0];
+    }
+
+    if (!checkpoint) {
+      throw new HttpException('Pricing agent checkpoint not found', HttpStatus.NOT_FOUND);
+    }
+
+    if (!checkpoint.functionSchema || !checkpoint.functionCode) {
+      throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
+    }
+    return checkpoint;
+  }
 }
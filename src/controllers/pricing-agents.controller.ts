@@ -1,21 +1,33 @@
-import { Controller, Post, Get, Put, Delete, Body, Param, Query, Headers, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, Headers, Req, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiHeader } from '@nestjs/swagger';
+import { isISO4217CurrencyCode } from 'class-validator';
 import { PricingAgentService } from '../services/pricing-agent.service';
-import { PricingAgent, PricingAgentCheckpoint } from '../models/mongodb.model';
+import { DeploymentPolicy, HandoffRules, PricingAgent, PricingAgentCheckpoint, PricingAgentDeployment } from '../models/mongodb.model';
 import { PricingAgentWithLatestCheckpoint } from 'src/dtos/pricing-agent-with-latest-checkpoint.dto';
 import { CreatePricingAgentDto } from '../dtos/create-pricing-agent.dto';
 import { AddHumanInputMessageDto } from '../dtos/add-input-message.dto';
 import { SetDeploymentStatusDto } from '../dtos/set-deployment-status.dto';
+import { RollbackDeploymentDto } from '../dtos/rollback-deployment.dto';
+import { UpdateDeploymentPolicyDto } from '../dtos/update-deployment-policy.dto';
+import { UpdateHandoffRulesDto } from '../dtos/update-handoff-rules.dto';
+import { DeploymentGateReportDto } from '../dtos/deployment-gate-report.dto';
 import { BuildSchemaDto } from '../dtos/build-schema.dto';
 import { BuildFormulaDto } from '../dtos/build-formula.dto';
 import { isMultiTenancyEnabled } from '../config/multi-tenancy.config';
 import { AuthGuard } from '../auth/auth.guard';
+import type { AuthenticatedRequest } from '../auth/auth.guard';
 import { TestingDatasetService } from 'src/services/testing-dataset.service';
 import { AssignmentResultDto } from 'src/dtos/assignment-result.dto';
 import { TestingDatasetWithTestsDto } from 'src/dtos/testing-dataset-with-tests.dto';
 import { ExampleRequestBodiesDto } from 'src/dtos/example-request-bodies.dto';
 import { ExampleGeneratorService } from 'src/services/example-generator.service';
 import { OpenApiGeneratorService } from '../services/openapi-generator.service';
+import { DeploymentConflictError, DeploymentPolicyViolationError, PricingAgentDeploymentService } from '../services/pricing-agent-deployment.service';
+import { CheckpointComparisonService } from '../services/checkpoint-comparison.service';
+import { CheckpointDiffDto } from '../dtos/checkpoint-diff.dto';
+import { CheckpointBehaviorDiffDto } from '../dtos/checkpoint-behavior-diff.dto';
+import { CompareCheckpointsDto } from '../dtos/compare-checkpoints.dto';
+import { CheckpointTreeDto } from '../dtos/checkpoint-tree.dto';
 
 /**
  * REST API controller for pricing agent management and AI-powered code generation.
@@ -32,7 +44,10 @@ import { OpenApiGeneratorService } from '../services/openapi-generator.service';
  * - AI schema generation with optional feedback
  * - AI function generation with optional feedback
  * - Testing dataset assignment and management
- * - Deployment status control
+ * - Deployment status control, rollback and history
+ * - Deployment policy gating on checkpoint testset results
+ * - Chatbot handoff rules
+ * - Checkpoint comparison
  *
  * All endpoints support multi-tenant isolation and require authentication.
  */
@@ -46,6 +61,8 @@ export class PricingAgentsController {
     private readonly pricingAgentService: PricingAgentService,
     private readonly testingDatasetService: TestingDatasetService,
     private readonly exampleGeneratorService: ExampleGeneratorService,
+    private readonly deploymentService: PricingAgentDeploymentService,
+    private readonly checkpointComparisonService: CheckpointComparisonService,
     ) {
     this.logger.log('pricingAgentsController initialized');
   }
@@ -56,6 +73,7 @@ export class PricingAgentsController {
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
   @ApiResponse({ status: 201, description: 'Pricing agent created successfully', type: PricingAgentWithLatestCheckpoint })
   @ApiResponse({ status: 400, description: 'Bad request - missing required parameters' })
+  @ApiResponse({ status: 402, description: 'The tenant plan pricing agent limit is reached' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async createPricingAgent(
     @Body() body: CreatePricingAgentDto,
@@ -76,6 +94,7 @@ export class PricingAgentsController {
       const pricingAgentData = {
         tenantId,
         name: body.name,
+        currency: body.currency ?? null,
         isDeployed: false,
       };
       const pricingAgent = await this.pricingAgentService.createPricingAgent(pricingAgentData);
@@ -85,7 +104,6 @@ export class PricingAgentsController {
       const initialCheckpoint = {
         pricingAgentId: pricingAgent._id!,
         tenantId: pricingAgent.tenantId,
-        version: 1,
         humanInputMessages: [],
         functionSchema: '',
         functionCode: '',
@@ -186,7 +204,7 @@ export class PricingAgentsController {
   @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
   @ApiResponse({ status: 200, description: 'Pricing agent updated successfully', type: PricingAgent })
-  @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode' })
+  @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode or currency is not an ISO 4217 code' })
   @ApiResponse({ status: 404, description: 'Pricing agent not found' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updatePricingAgent(
@@ -202,6 +220,10 @@ export class PricingAgentsController {
         throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
       }
 
+      if (body.currency !== undefined && body.currency !== null && !isISO4217CurrencyCode(body.currency)) {
+        throw new HttpException('currency must be an ISO 4217 currency code', HttpStatus.BAD_REQUEST);
+      }
+
       const agent = await this.pricingAgentService.updatePricingAgent(agentId, body, tenantId);
       if (!agent) {
         this.logger.warn(`Pricing agent not found for update: ${agentId} for tenant: ${tenantId}`);
@@ -260,14 +282,21 @@ export class PricingAgentsController {
   }
 
   @Post('/:agentId/deployed')
-  @ApiOperation({ summary: 'Set the deployment status of a pricing agent' })
+  @ApiOperation({ summary: 'Set the deployment status of a pricing agent, pinning the deployed checkpoint' })
   @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
   @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
   @ApiResponse({ status: 200, description: 'Pricing agent deployment status set successfully', type: PricingAgent })
   @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode or invalid parameters' })
-  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 409, description: 'The deployment of the pricing agent was changed concurrently' })
+  @ApiResponse({ status: 422, description: 'Checkpoint does not satisfy the deployment policy, the body contains a DeploymentGateReportDto under report' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
-  async setPricingAgentDeployment(@Param('agentId') agentId: string, @Body() body: SetDeploymentStatusDto, @Headers('X-Tenant-ID') tenantId?: string): Promise<PricingAgent> {
+  async setPricingAgentDeployment(
+    @Param('agentId') agentId: string,
+    @Body() body: SetDeploymentStatusDto,
+    @Req() request: AuthenticatedRequest,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<PricingAgent> {
     this.logger.log(`Setting deployment status for pricing agent: ${agentId} to ${body.isDeployed} for tenant: ${tenantId}`);
 
     try {
@@ -283,13 +312,47 @@ export class PricingAgentsController {
         throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
       }
 
-      // Set the isDeployed field to the specified value
-      const updatedAgent = await this.pricingAgentService.updatePricingAgent(agentId, { isDeployed: body.isDeployed }, tenantId);
+      if (!body.isDeployed) {
+        const updatedAgent = await this.deploymentService.undeploy(agentId, tenantId);
+        if (!updatedAgent) {
+          this.logger.warn(`Pricing agent not found for update: ${agentId} for tenant: ${tenantId}`);
+          throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+        }
+        this.logger.log(`Successfully undeployed pricing agent: ${updatedAgent.name} (${agentId})`);
+        return updatedAgent;
+      }
+
+      // Pin the requested checkpoint, or the latest one when none is given
+      const checkpoint = body.checkpointId
+        ? await this.pricingAgentService.findOneCheckpoint(body.checkpointId, tenantId)
+        : await this.pricingAgentService.findLatestCheckpoint(agentId, tenantId);
+      if (!checkpoint) {
+        this.logger.warn(`Checkpoint not found for deployment: ${body.checkpointId ?? 'latest'} for agent: ${agentId}`);
+        throw new HttpException('Checkpoint not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (checkpoint.pricingAgentId.toString() !== agentId) {
+        this.logger.warn(`Checkpoint ${checkpoint._id} does not belong to agent ${agentId}`);
+        throw new HttpException('Checkpoint does not belong to the specified agent', HttpStatus.NOT_FOUND);
+      }
+
+      if (!checkpoint.functionSchema || !checkpoint.functionCode) {
+        this.logger.warn(`Checkpoint ${checkpoint._id} is missing functionSchema or functionCode`);
+        throw new HttpException('Checkpoint must have both functionSchema and functionCode', HttpStatus.BAD_REQUEST);
+      }
+
+      await this.deploymentService.deployCheckpoint(agent, checkpoint, tenantId, {
+        description: body.description,
+        overrideDeploymentPolicy: body.overrideDeploymentPolicy,
+        actorId: request.user?.id,
+      });
+
+      const updatedAgent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
       if (!updatedAgent) {
-        this.logger.warn(`Pricing agent not found for update: ${agentId} for tenant: ${tenantId}`);
+        this.logger.warn(`Pricing agent not found after deployment: ${agentId} for tenant: ${tenantId}`);
         throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
       }
-      this.logger.log(`Successfully set deployment status for pricing agent: ${updatedAgent.name} (${agentId}) to ${updatedAgent.isDeployed}`);
+      this.logger.log(`Successfully deployed checkpoint ${checkpoint._id} for pricing agent: ${updatedAgent.name} (${agentId})`);
       return updatedAgent;
     } catch (error) {
       this.logger.error(`Failed to set deployment status for pricing agent ${agentId}: ${error.message}`, error.stack);
@@ -297,6 +360,12 @@ export class PricingAgentsController {
       if (error instanceof HttpException) {
         throw error;
       }
+      if (error instanceof DeploymentConflictError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      if (error instanceof DeploymentPolicyViolationError) {
+        throw this.toPolicyViolationException(error);
+      }
       throw new HttpException(
         `Failed to set deployment status: ${error.message}`,
         HttpStatus.INTERNAL_SERVER_ERROR
@@ -304,6 +373,440 @@ export class PricingAgentsController {
     }
   }
 
+  @Post('/:agentId/deployments/rollback')
+  @ApiOperation({ summary: 'Roll back to the previously deployed checkpoint' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Deployment rolled back successfully', type: PricingAgentDeployment })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid deployment id, agent not deployed or no previous deployment' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or deployment not found' })
+  @ApiResponse({ status: 409, description: 'The deployment of the pricing agent was changed concurrently' })
+  @ApiResponse({ status: 422, description: 'Checkpoint to roll back to does not satisfy the deployment policy, the body contains a DeploymentGateReportDto under report' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async rollbackDeployment(
+    @Param('agentId') agentId: string,
+    @Body() body: RollbackDeploymentDto,
+    @Req() request: AuthenticatedRequest,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<PricingAgentDeployment> {
+    this.logger.log(`Rolling back deployment for pricing agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      const deployment = await this.deploymentService.rollbackDeployment(agent, tenantId, body.deploymentId, {
+        description: body.description,
+        overrideDeploymentPolicy: body.overrideDeploymentPolicy,
+        actorId: request.user?.id,
+      });
+      this.logger.log(`Successfully rolled back pricing agent: ${agentId} to checkpoint: ${deployment.checkpointId}`);
+      return deployment;
+    } catch (error) {
+      this.logger.error(`Failed to roll back deployment for pricing agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      // Handle specific rollback errors
+      if (error instanceof DeploymentConflictError) {
+        throw new HttpException(error.message, HttpStatus.CONFLICT);
+      }
+      if (error instanceof DeploymentPolicyViolationError) {
+        throw this.toPolicyViolationException(error);
+      }
+      if (error.message === 'Pricing agent is not deployed' || error.message === 'No previous deployment to roll back to' || error.message === 'Invalid deployment id') {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      if (error.message === 'Deployment to roll back to not found' || error.message === 'Checkpoint of the target deployment no longer exists') {
+        throw new HttpException(error.message, HttpStatus.NOT_FOUND);
+      }
+
+      throw new HttpException(
+        `Failed to roll back deployment: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:agentId/deployments')
+  @ApiOperation({ summary: 'Get the deployment history of a pricing agent' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiQuery({ name: 'limit', description: 'Maximum number of deployments to return (default: 50)', required: false })
+  @ApiResponse({ status: 200, description: 'Deployment history retrieved successfully', type: [PricingAgentDeployment] })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid parameters' })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getDeploymentHistory(
+    @Param('agentId') agentId: string,
+    @Headers('X-Tenant-ID') tenantId?: string,
+    @Query('limit') limit?: string
+  ): Promise<PricingAgentDeployment[]> {
+    this.logger.log(`Getting deployment history for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      const limitNum = limit ? parseInt(limit, 10) : 50;
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+        this.logger.warn(`Invalid limit parameter: ${limit}`);
+        throw new HttpException('Limit must be a number between 1 and 100', HttpStatus.BAD_REQUEST);
+      }
+
+      const deployments = await this.deploymentService.findDeploymentHistory(agentId, tenantId, limitNum);
+      this.logger.log(`Successfully retrieved ${deployments.length} deployments for agent: ${agentId}`);
+      return deployments;
+    } catch (error) {
+      this.logger.error(`Failed to get deployment history for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get deployment history: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:agentId/deployment-policy')
+  @ApiOperation({ summary: 'Get the deployment policy of a pricing agent' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Deployment policy retrieved successfully, null when deployments are not gated', type: DeploymentPolicy })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getDeploymentPolicy(@Param('agentId') agentId: string, @Headers('X-Tenant-ID') tenantId?: string): Promise<DeploymentPolicy | null> {
+    this.logger.log(`Getting deployment policy for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      return agent.deploymentPolicy ?? null;
+    } catch (error) {
+      this.logger.error(`Failed to get deployment policy for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get deployment policy: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Put('/:agentId/deployment-policy')
+  @ApiOperation({ summary: 'Set the deployment policy of a pricing agent' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Deployment policy updated successfully', type: PricingAgent })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid policy' })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async updateDeploymentPolicy(
+    @Param('agentId') agentId: string,
+    @Body() body: UpdateDeploymentPolicyDto,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<PricingAgent> {
+    this.logger.log(`Updating deployment policy for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const deploymentPolicy: DeploymentPolicy = {
+        enabled: body.enabled,
+        minHappyPathPassRate: body.minHappyPathPassRate,
+        minUnhappyPathPassRate: body.minUnhappyPathPassRate,
+        requireTestsetRunAfterCodeChange: body.requireTestsetRunAfterCodeChange,
+      };
+      const agent = await this.pricingAgentService.updatePricingAgent(agentId, { deploymentPolicy }, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found for update: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully updated deployment policy for agent: ${agentId}`);
+      return agent;
+    } catch (error) {
+      this.logger.error(`Failed to update deployment policy for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to update deployment policy: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:agentId/handoff-rules')
+  @ApiOperation({ summary: 'Get the rules handing chatbot conversations of a pricing agent over to a human' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Handoff rules retrieved successfully, null when conversations are never handed off', type: HandoffRules })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getHandoffRules(@Param('agentId') agentId: string, @Headers('X-Tenant-ID') tenantId?: string): Promise<HandoffRules | null> {
+    this.logger.log(`Getting handoff rules for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      return agent.handoffRules ?? null;
+    } catch (error) {
+      this.logger.error(`Failed to get handoff rules for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get handoff rules: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Put('/:agentId/handoff-rules')
+  @ApiOperation({ summary: 'Set the rules handing chatbot conversations of a pricing agent over to a human' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Handoff rules updated successfully', type: PricingAgent })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid rules' })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async updateHandoffRules(
+    @Param('agentId') agentId: string,
+    @Body() body: UpdateHandoffRulesDto,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<PricingAgent> {
+    this.logger.log(`Updating handoff rules for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const handoffRules: HandoffRules = {
+        enabled: body.enabled,
+        errorCodes: body.errorCodes,
+        maxFailedAttempts: body.maxFailedAttempts,
+        handOffOnException: body.handOffOnException,
+        totalAbove: body.totalAbove ?? null,
+        chatwootTeamId: body.chatwootTeamId ?? null,
+      };
+      const agent = await this.pricingAgentService.updatePricingAgent(agentId, { handoffRules }, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found for update: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully updated handoff rules for agent: ${agentId}`);
+      return agent;
+    } catch (error) {
+      this.logger.error(`Failed to update handoff rules for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to update handoff rules: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:agentId/checkpoints/:checkpointId/deployment-gate')
+  @ApiOperation({ summary: 'Evaluate the deployment policy against a checkpoint testset without deploying' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'checkpointId', description: 'Checkpoint ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Deployment gate evaluated successfully', type: DeploymentGateReportDto })
+  @ApiResponse({ status: 400, description: 'Bad request - agent has no enabled deployment policy' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getDeploymentGateReport(
+    @Param('agentId') agentId: string,
+    @Param('checkpointId') checkpointId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<DeploymentGateReportDto> {
+    this.logger.log(`Evaluating deployment gate for checkpoint: ${checkpointId} of agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (!agent.deploymentPolicy?.enabled) {
+        throw new HttpException('Pricing agent has no enabled deployment policy', HttpStatus.BAD_REQUEST);
+      }
+
+      const checkpoint = await this.pricingAgentService.findOneCheckpoint(checkpointId, tenantId);
+      if (!checkpoint || checkpoint.pricingAgentId.toString() !== agentId) {
+        this.logger.warn(`Checkpoint not found: ${checkpointId} for agent: ${agentId}`);
+        throw new HttpException('Checkpoint not found', HttpStatus.NOT_FOUND);
+      }
+
+      return await this.deploymentService.evaluateDeploymentPolicy(checkpoint, agent.deploymentPolicy);
+    } catch (error) {
+      this.logger.error(`Failed to evaluate deployment gate for checkpoint ${checkpointId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to evaluate deployment gate: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get('/:agentId/checkpoints/:fromCheckpointId/diff/:toCheckpointId')
+  @ApiOperation({ summary: 'Diff the schema, formula code and input messages of two checkpoints' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'fromCheckpointId', description: 'Checkpoint ID to diff from' })
+  @ApiParam({ name: 'toCheckpointId', description: 'Checkpoint ID to diff to' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Checkpoints diffed successfully', type: CheckpointDiffDto })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async diffCheckpoints(
+    @Param('agentId') agentId: string,
+    @Param('fromCheckpointId') fromCheckpointId: string,
+    @Param('toCheckpointId') toCheckpointId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<CheckpointDiffDto> {
+    this.logger.log(`Diffing checkpoints ${fromCheckpointId} and ${toCheckpointId} of agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      return await this.checkpointComparisonService.diffCheckpoints(agentId, fromCheckpointId, toCheckpointId, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to diff checkpoints ${fromCheckpointId} and ${toCheckpointId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error.message === 'Checkpoint not found') {
+        throw new HttpException(error.message, HttpStatus.NOT_FOUND);
+      }
+      throw new HttpException(
+        `Failed to diff checkpoints: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Post('/:agentId/checkpoints/:fromCheckpointId/compare/:toCheckpointId')
+  @ApiOperation({ summary: 'Price the same orders with two checkpoints and report how totals and errors move' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiParam({ name: 'fromCheckpointId', description: 'Checkpoint ID to compare from' })
+  @ApiParam({ name: 'toCheckpointId', description: 'Checkpoint ID to compare to' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Checkpoints compared successfully', type: CheckpointBehaviorDiffDto })
+  @ApiResponse({ status: 400, description: 'Bad request - checkpoints without code or no orders to compare' })
+  @ApiResponse({ status: 404, description: 'Pricing agent or checkpoint not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async compareCheckpoints(
+    @Param('agentId') agentId: string,
+    @Param('fromCheckpointId') fromCheckpointId: string,
+    @Param('toCheckpointId') toCheckpointId: string,
+    @Body() compareDto: CompareCheckpointsDto,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<CheckpointBehaviorDiffDto> {
+    this.logger.log(`Comparing behavior of checkpoints ${fromCheckpointId} and ${toCheckpointId} of agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      return await this.checkpointComparisonService.compareBehavior(agentId, fromCheckpointId, toCheckpointId, compareDto, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to compare checkpoints ${fromCheckpointId} and ${toCheckpointId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error.message === 'Checkpoint not found') {
+        throw new HttpException(error.message, HttpStatus.NOT_FOUND);
+      }
+      if (error.message === 'Both checkpoints must have functionSchema and functionCode' || error.message === 'No orders to compare') {
+        throw new HttpException(error.message, HttpStatus.BAD_REQUEST);
+      }
+      throw new HttpException(
+        `Failed to compare checkpoints: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   @Post('/:agentId/messages')
   @ApiOperation({ summary: 'Add input message to pricing agent' })
   @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
@@ -554,6 +1057,43 @@ export class PricingAgentsController {
     }
   }
 
+  // Declared before '/:agentId/checkpoints/:checkpointId' so 'tree' is not taken for a checkpoint ID
+  @Get('/:agentId/checkpoints/tree')
+  @ApiOperation({ summary: 'Get the lineage tree of a pricing agent\'s checkpoints' })
+  @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID', required: false })
+  @ApiResponse({ status: 200, description: 'Checkpoint tree retrieved successfully', type: CheckpointTreeDto })
+  @ApiResponse({ status: 404, description: 'Pricing agent not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getPricingAgentCheckpointTree(
+    @Param('agentId') agentId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<CheckpointTreeDto> {
+    this.logger.log(`Getting checkpoint tree for agent: ${agentId} for tenant: ${tenantId}`);
+
+    try {
+      // Validate agent exists
+      const agent = await this.pricingAgentService.findOnePricingAgent(agentId, tenantId);
+      if (!agent) {
+        this.logger.warn(`Pricing agent not found: ${agentId} for tenant: ${tenantId}`);
+        throw new HttpException('Pricing agent not found', HttpStatus.NOT_FOUND);
+      }
+
+      const deployedCheckpointId = agent.isDeployed ? agent.deployedCheckpointId : null;
+      return await this.pricingAgentService.findCheckpointTree(agentId, deployedCheckpointId, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to get checkpoint tree for agent ${agentId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get checkpoint tree: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   @Get('/:agentId/checkpoints/:checkpointId')
   @ApiOperation({ summary: 'Get full checkpoint data by ID' })
   @ApiParam({ name: 'agentId', description: 'Pricing agent ID' })
@@ -824,4 +1364,12 @@ export class PricingAgentsController {
       throw new HttpException(`Internal server error: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  private toPolicyViolationException(error: DeploymentPolicyViolationError): HttpException {
+    return new HttpException({
+      statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+      message: error.message,
+      report: error.report,
+    }, HttpStatus.UNPROCESSABLE_ENTITY);
+  }
 }
@@ -0,0 +1,141 @@
+import { Controller, Get, Param, Query, Headers, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiHeader } from '@nestjs/swagger';
+import { Quote, QuoteSource } from '../models/mongodb.model';
+import { QuoteService } from '../services/quote.service';
+import { isMultiTenancyEnabled } from '../config/multi-tenancy.config';
+import { AuthGuard } from '../auth/auth.guard';
+
+/**
+ * REST API controller for the quote ledger.
+ *
+ * Exposes the quotes recorded by the integrations and playground endpoints, each with
+ * the checkpoint that produced it, so a quoted price can be traced back to its formula.
+ */
+@ApiTags('quotes')
+@Controller('quotes')
+@UseGuards(AuthGuard)
+export class QuotesController {
+  private readonly logger = new Logger(QuotesController.name);
+
+  constructor(private readonly quoteService: QuoteService) {
+    this.logger.log('QuotesController initialized');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List recorded quotes, newest first' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiQuery({ name: 'agentId', description: 'Filter by pricing agent ID', required: false })
+  @ApiQuery({ name: 'checkpointId', description: 'Filter by checkpoint ID', required: false })
+  @ApiQuery({ name: 'source', description: 'Filter by quote source', required: false, enum: QuoteSource })
+  @ApiQuery({ name: 'apiKeyId', description: 'Filter by API key ID', required: false })
+  @ApiQuery({ name: 'from', description: 'Only quotes created at or after this ISO date', required: false })
+  @ApiQuery({ name: 'to', description: 'Only quotes created at or before this ISO date', required: false })
+  @ApiQuery({ name: 'limit', description: 'Maximum number of quotes to return (default: 50)', required: false })
+  @ApiQuery({ name: 'skip', description: 'Number of quotes to skip (default: 0)', required: false })
+  @ApiResponse({ status: 200, description: 'Quotes retrieved successfully', type: [Quote] })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid parameters' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getQuotes(
+    @Headers('X-Tenant-ID') tenantId?: string,
+    @Query('agentId') agentId?: string,
+    @Query('checkpointId') checkpointId?: string,
+    @Query('source') source?: string,
+    @Query('apiKeyId') apiKeyId?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @Query('skip') skip?: string
+  ): Promise<Quote[]> {
+    this.logger.log(`Getting quotes for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      if (source && !Object.values(QuoteSource).includes(source as QuoteSource)) {
+        this.logger.warn(`Invalid source parameter: ${source}`);
+        throw new HttpException(`Source must be one of: ${Object.values(QuoteSource).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        this.logger.warn(`Invalid date range: ${from} - ${to}`);
+        throw new HttpException('from and to must be valid ISO dates', HttpStatus.BAD_REQUEST);
+      }
+
+      const limitNum = limit ? parseInt(limit, 10) : 50;
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+        this.logger.warn(`Invalid limit parameter: ${limit}`);
+        throw new HttpException('Limit must be a number between 1 and 100', HttpStatus.BAD_REQUEST);
+      }
+
+      const skipNum = skip ? parseInt(skip, 10) : 0;
+      if (isNaN(skipNum) || skipNum < 0) {
+        this.logger.warn(`Invalid skip parameter: ${skip}`);
+        throw new HttpException('Skip must be a non-negative number', HttpStatus.BAD_REQUEST);
+      }
+
+      const quotes = await this.quoteService.findQuotes(tenantId, {
+        pricingAgentId: agentId,
+        checkpointId,
+        source: source as QuoteSource | undefined,
+        apiKeyId,
+        from: fromDate,
+        to: toDate,
+      }, limitNum, skipNum);
+
+      this.logger.log(`Successfully retrieved ${quotes.length} quotes for tenant: ${tenantId}`);
+      return quotes;
+    } catch (error) {
+      this.logger.error(`Failed to get quotes: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get quotes: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  @Get(':quoteId')
+  @ApiOperation({ summary: 'Get a recorded quote by ID' })
+  @ApiParam({ name: 'quoteId', description: 'Quote ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Quote retrieved successfully', type: Quote })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getQuote(@Param('quoteId') quoteId: string, @Headers('X-Tenant-ID') tenantId?: string): Promise<Quote> {
+    this.logger.log(`Getting quote: ${quoteId} for tenant: ${tenantId}`);
+
+    try {
+      if (isMultiTenancyEnabled && !tenantId) {
+        this.logger.warn('tenantId is required in multi-tenant mode');
+        throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+      }
+
+      const quote = await this.quoteService.findOneQuote(quoteId, tenantId);
+      if (!quote) {
+        this.logger.warn(`Quote not found: ${quoteId} for tenant: ${tenantId}`);
+        throw new HttpException('Quote not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully retrieved quote: ${quoteId}`);
+      return quote;
+    } catch (error) {
+      this.logger.error(`Failed to get quote ${quoteId}: ${error.message}`, error.stack);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException(
+        `Failed to get quote: ${error.message}`,
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
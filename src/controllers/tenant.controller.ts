@@ -1,6 +1,10 @@
 import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, Req, HttpException, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { isISO4217CurrencyCode } from 'class-validator';
 import { TenantService } from '../services/tenant.service';
+import { EntitlementService } from '../services/entitlement.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { PricingAgentService } from '../services/pricing-agent.service';
 import { AuthGuard } from '../auth/auth.guard';
 import { CreateTenantDto } from '../dtos/create-tenant.dto';
 import { UpdateTenantDto } from '../dtos/update-tenant.dto';
@@ -14,13 +18,21 @@ import { UpdateTenantBasicInfoDto } from '../dtos/update-tenant-basic-info.dto';
 import { UpdateTenantBuilderLlmConfigDto } from '../dtos/update-tenant-builder-llm-config.dto';
 import { UpdateTenantChatbotLlmConfigDto } from '../dtos/update-tenant-chatbot-llm-config.dto';
 import { UpdateTenantChatwootConfigDto } from '../dtos/update-tenant-chatwoot-config.dto';
+import { UpdateTenantFxRatesDto } from '../dtos/update-tenant-fx-rates.dto';
+import { TenantEntitlementsDto } from '../dtos/tenant-entitlements.dto';
+import { PlanResource } from '../models/mongodb.model';
 import type { AuthenticatedRequest } from '../auth/auth.guard';
 
 @ApiTags('User Tenants')
 @Controller('user-tenants')
 @UseGuards(AuthGuard)
 export class TenantController {
-  constructor(private readonly tenantService: TenantService) {}
+  constructor(
+    private readonly tenantService: TenantService,
+    private readonly entitlementService: EntitlementService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly pricingAgentService: PricingAgentService,
+  ) {}
 
   @Post('tenants')
   @ApiOperation({ summary: 'Create a new tenant for user' })
@@ -63,6 +75,17 @@ export class TenantController {
     return this.tenantService.getTenantById(tenantId);
   }
 
+  @Get('tenants/:id/entitlements')
+  @ApiOperation({ summary: 'Get the limits of the tenant plan with the current usage' })
+  @ApiResponse({ status: 200, description: 'Tenant entitlements', type: TenantEntitlementsDto })
+  async getTenantEntitlements(@Param('id') tenantId: string): Promise<TenantEntitlementsDto> {
+    return this.entitlementService.getEntitlements(tenantId, {
+      [PlanResource.PRICING_AGENTS]: await this.pricingAgentService.countPricingAgents(tenantId),
+      [PlanResource.API_KEYS]: await this.apiKeyService.countApiKeys(tenantId),
+      [PlanResource.USERS]: await this.tenantService.countTenantUsers(tenantId),
+    });
+  }
+
   // Specific update endpoints
   @Put('tenants/:id/basic-info')
   @ApiOperation({ summary: 'Update tenant basic information (name and description)' })
@@ -106,6 +129,34 @@ export class TenantController {
     return this.tenantService.updateTenantChatwootConfig(tenantId, body);
   }
 
+  @Put('tenants/:id/fx-rates')
+  @ApiOperation({ summary: 'Set the static exchange rates used to return quotes in another currency than the agent one' })
+  @ApiResponse({ status: 200, description: 'Exchange rates updated successfully', type: TenantDto })
+  @ApiResponse({ status: 400, description: 'Bad request - rates must be positive numbers keyed by ISO 4217 currency' })
+  async updateTenantFxRates(
+    @Param('id') tenantId: string,
+    @Body() body: UpdateTenantFxRatesDto
+  ): Promise<TenantDto | null> {
+    for (const [currency, rate] of Object.entries(body.rates)) {
+      if (!isISO4217CurrencyCode(currency) || typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+        throw new HttpException(`Invalid exchange rate for ${currency}`, HttpStatus.BAD_REQUEST);
+      }
+    }
+
+    return this.tenantService.updateTenantFxRates(tenantId, {
+      baseCurrency: body.baseCurrency,
+      rates: body.rates,
+      updatedAt: new Date(),
+    });
+  }
+
+  @Delete('tenants/:id/fx-rates')
+  @ApiOperation({ summary: 'Remove the exchange rates, quotes are then only returned in the agent currency' })
+  @ApiResponse({ status: 200, description: 'Exchange rates removed successfully', type: TenantDto })
+  async deleteTenantFxRates(@Param('id') tenantId: string): Promise<TenantDto | null> {
+    return this.tenantService.updateTenantFxRates(tenantId, null);
+  }
+
   // Keep the general update endpoint for backward compatibility
   @Put('tenants/:id')
   @ApiOperation({ summary: 'Update tenant (deprecated - use specific endpoints)' })
@@ -129,6 +180,7 @@ export class TenantController {
   @Post(':tenantId/users')
   @ApiOperation({ summary: 'Assign authenticated user to tenant' })
   @ApiResponse({ status: 201, description: 'User assigned to tenant successfully', type: UserTenantDto })
+  @ApiResponse({ status: 402, description: 'The tenant plan user limit is reached' })
   async assignUserToTenant(
     @Param('tenantId') tenantId: string,
     @Req() request: AuthenticatedRequest,
@@ -0,0 +1,277 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, Headers, HttpException, HttpStatus, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiHeader } from '@nestjs/swagger';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEventType, WebhookSubscription } from '../models/mongodb.model';
+import { WebhookService, WebhookUrlError } from '../services/webhook.service';
+import {
+  CreateWebhookSubscriptionDto,
+  CreateWebhookSubscriptionResponseDto,
+  UpdateWebhookSubscriptionDto,
+} from '../dtos/webhook-subscription.dto';
+import { SuccessResponseDto } from '../dtos/success-response.dto';
+import { isMultiTenancyEnabled } from '../config/multi-tenancy.config';
+import { AuthGuard } from '../auth/auth.guard';
+
+/**
+ * REST API controller for the outbound webhooks of a tenant.
+ *
+ * Subscriptions choose the engine events posted to a URL. Every POST is signed with the
+ * subscription secret in the X-Webhook-Signature header, see signWebhookPayload. Deliveries
+ * are kept with the log of their attempts and can be redelivered.
+ */
+@ApiTags('webhooks')
+@Controller('webhooks')
+@UseGuards(AuthGuard)
+export class WebhooksController {
+  private readonly logger = new Logger(WebhooksController.name);
+
+  constructor(private readonly webhookService: WebhookService) {
+    this.logger.log('WebhooksController initialized');
+  }
+
+  @Get('subscriptions')
+  @ApiOperation({ summary: 'List the webhook subscriptions of a tenant' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook subscriptions retrieved successfully', type: [WebhookSubscription] })
+  @ApiResponse({ status: 400, description: 'Bad request - tenantId required in multi-tenant mode' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getSubscriptions(@Headers('X-Tenant-ID') tenantId?: string): Promise<WebhookSubscription[]> {
+    this.logger.log(`Getting webhook subscriptions for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      return await this.webhookService.findSubscriptions(tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to get webhook subscriptions: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to get webhook subscriptions');
+    }
+  }
+
+  @Post('subscriptions')
+  @ApiOperation({ summary: 'Subscribe a URL to engine events' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 201, description: 'Webhook subscription created, secret is only returned here', type: CreateWebhookSubscriptionResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid or non-public URL, invalid events, or tenantId required in multi-tenant mode' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async createSubscription(
+    @Body() body: CreateWebhookSubscriptionDto,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<CreateWebhookSubscriptionResponseDto> {
+    this.logger.log(`Creating webhook subscription for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      return await this.webhookService.createSubscription(body, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to create webhook subscription: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to create webhook subscription');
+    }
+  }
+
+  @Get('subscriptions/:subscriptionId')
+  @ApiOperation({ summary: 'Get a webhook subscription' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook subscription retrieved successfully', type: WebhookSubscription })
+  @ApiResponse({ status: 404, description: 'Webhook subscription not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<WebhookSubscription> {
+    this.logger.log(`Getting webhook subscription: ${subscriptionId} for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      const subscription = await this.webhookService.findOneSubscription(subscriptionId, tenantId);
+      if (!subscription) {
+        throw new HttpException('Webhook subscription not found', HttpStatus.NOT_FOUND);
+      }
+      return subscription;
+    } catch (error) {
+      this.logger.error(`Failed to get webhook subscription ${subscriptionId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to get webhook subscription');
+    }
+  }
+
+  @Put('subscriptions/:subscriptionId')
+  @ApiOperation({ summary: 'Update a webhook subscription' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook subscription updated successfully', type: WebhookSubscription })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid or non-public URL, or invalid events' })
+  @ApiResponse({ status: 404, description: 'Webhook subscription not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async updateSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+    @Body() body: UpdateWebhookSubscriptionDto,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<WebhookSubscription> {
+    this.logger.log(`Updating webhook subscription: ${subscriptionId} for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      const subscription = await this.webhookService.updateSubscription(subscriptionId, body, tenantId);
+      if (!subscription) {
+        throw new HttpException('Webhook subscription not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully updated webhook subscription: ${subscriptionId}`);
+      return subscription;
+    } catch (error) {
+      this.logger.error(`Failed to update webhook subscription ${subscriptionId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to update webhook subscription');
+    }
+  }
+
+  @Delete('subscriptions/:subscriptionId')
+  @ApiOperation({ summary: 'Delete a webhook subscription (soft delete), its pending deliveries are not attempted anymore' })
+  @ApiParam({ name: 'subscriptionId', description: 'Webhook subscription ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook subscription deleted successfully', type: SuccessResponseDto })
+  @ApiResponse({ status: 404, description: 'Webhook subscription not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async deleteSubscription(
+    @Param('subscriptionId') subscriptionId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<SuccessResponseDto> {
+    this.logger.log(`Deleting webhook subscription: ${subscriptionId} for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      const success = await this.webhookService.deleteSubscription(subscriptionId, tenantId);
+      if (!success) {
+        throw new HttpException('Webhook subscription not found', HttpStatus.NOT_FOUND);
+      }
+      return { success };
+    } catch (error) {
+      this.logger.error(`Failed to delete webhook subscription ${subscriptionId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to delete webhook subscription');
+    }
+  }
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'List the webhook deliveries with their attempts, newest first' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiQuery({ name: 'subscriptionId', description: 'Filter by webhook subscription ID', required: false })
+  @ApiQuery({ name: 'event', description: 'Filter by event type', required: false, enum: WebhookEventType })
+  @ApiQuery({ name: 'status', description: 'Filter by delivery status', required: false, enum: WebhookDeliveryStatus })
+  @ApiQuery({ name: 'limit', description: 'Maximum number of deliveries to return (default: 50)', required: false })
+  @ApiQuery({ name: 'skip', description: 'Number of deliveries to skip (default: 0)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook deliveries retrieved successfully', type: [WebhookDelivery] })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid parameters' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getDeliveries(
+    @Headers('X-Tenant-ID') tenantId?: string,
+    @Query('subscriptionId') subscriptionId?: string,
+    @Query('event') event?: string,
+    @Query('status') status?: string,
+    @Query('limit') limit?: string,
+    @Query('skip') skip?: string
+  ): Promise<WebhookDelivery[]> {
+    this.logger.log(`Getting webhook deliveries for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+
+      if (event && !Object.values(WebhookEventType).includes(event as WebhookEventType)) {
+        throw new HttpException(`Event must be one of: ${Object.values(WebhookEventType).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+      if (status && !Object.values(WebhookDeliveryStatus).includes(status as WebhookDeliveryStatus)) {
+        throw new HttpException(`Status must be one of: ${Object.values(WebhookDeliveryStatus).join(', ')}`, HttpStatus.BAD_REQUEST);
+      }
+
+      const limitNum = limit ? parseInt(limit, 10) : 50;
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+        throw new HttpException('Limit must be a number between 1 and 100', HttpStatus.BAD_REQUEST);
+      }
+
+      const skipNum = skip ? parseInt(skip, 10) : 0;
+      if (isNaN(skipNum) || skipNum < 0) {
+        throw new HttpException('Skip must be a non-negative number', HttpStatus.BAD_REQUEST);
+      }
+
+      return await this.webhookService.findDeliveries(tenantId, {
+        subscriptionId,
+        event: event as WebhookEventType | undefined,
+        status: status as WebhookDeliveryStatus | undefined,
+      }, limitNum, skipNum);
+    } catch (error) {
+      this.logger.error(`Failed to get webhook deliveries: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to get webhook deliveries');
+    }
+  }
+
+  @Get('deliveries/:deliveryId')
+  @ApiOperation({ summary: 'Get a webhook delivery with its attempts' })
+  @ApiParam({ name: 'deliveryId', description: 'Webhook delivery ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 200, description: 'Webhook delivery retrieved successfully', type: WebhookDelivery })
+  @ApiResponse({ status: 404, description: 'Webhook delivery not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getDelivery(
+    @Param('deliveryId') deliveryId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<WebhookDelivery> {
+    this.logger.log(`Getting webhook delivery: ${deliveryId} for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      const delivery = await this.webhookService.findOneDelivery(deliveryId, tenantId);
+      if (!delivery) {
+        throw new HttpException('Webhook delivery not found', HttpStatus.NOT_FOUND);
+      }
+      return delivery;
+    } catch (error) {
+      this.logger.error(`Failed to get webhook delivery ${deliveryId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to get webhook delivery');
+    }
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  @ApiOperation({ summary: 'Post the payload of a delivery again, as a new delivery with the same event ID' })
+  @ApiParam({ name: 'deliveryId', description: 'Webhook delivery ID' })
+  @ApiHeader({ name: 'X-Tenant-ID', description: 'Tenant ID (required in multi-tenant mode)', required: false })
+  @ApiResponse({ status: 201, description: 'Redelivery queued', type: WebhookDelivery })
+  @ApiResponse({ status: 404, description: 'Webhook delivery or its subscription not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async redeliver(
+    @Param('deliveryId') deliveryId: string,
+    @Headers('X-Tenant-ID') tenantId?: string
+  ): Promise<WebhookDelivery> {
+    this.logger.log(`Redelivering webhook delivery: ${deliveryId} for tenant: ${tenantId}`);
+
+    try {
+      this.assertTenant(tenantId);
+      const delivery = await this.webhookService.redeliver(deliveryId, tenantId);
+      if (!delivery) {
+        throw new HttpException('Webhook delivery not found', HttpStatus.NOT_FOUND);
+      }
+
+      this.logger.log(`Successfully queued redelivery: ${delivery._id} of webhook delivery: ${deliveryId}`);
+      return delivery;
+    } catch (error) {
+      this.logger.error(`Failed to redeliver webhook delivery ${deliveryId}: ${error.message}`, error.stack);
+      throw this.toHttpException(error, 'Failed to redeliver webhook delivery');
+    }
+  }
+
+  private assertTenant(tenantId?: string): void {
+    if (isMultiTenancyEnabled && !tenantId) {
+      this.logger.warn('tenantId is required in multi-tenant mode');
+      throw new HttpException('tenantId is required in multi-tenant mode', HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  private toHttpException(error: any, failureMessage: string): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (error.message === 'Webhook subscription not found') {
+      return new HttpException(error.message, HttpStatus.NOT_FOUND);
+    }
+    if (error instanceof WebhookUrlError) {
+      return new HttpException(error.message, HttpStatus.BAD_REQUEST);
+    }
+    return new HttpException(`${failureMessage}: ${error.message}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ApiKeySecretUsageDto {
+  @ApiProperty({ type: String, required: false, description: 'Last characters of the secret' })
+  hint?: string;
+
+  @ApiProperty({ type: Boolean, description: 'Whether this is the secret issued by the last rotation' })
+  current: boolean;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+
+  @ApiProperty({ type: Date, required: false })
+  lastUsedAt?: Date;
+
+  @ApiProperty({ type: Boolean, description: 'Whether clients used the secret since the last rotation' })
+  inUse: boolean;
+
+  @ApiProperty({ type: Date, required: false, description: 'When the secret stops being accepted' })
+  expiresAt?: Date;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO4217CurrencyCode, IsLocale, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class SendChatSessionMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  input: string;
+
+  @ApiProperty({ description: 'BCP 47 locale to reply and format prices in, detected from the conversation when not set', required: false, example: 'de-DE' })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @ApiProperty({ description: 'ISO 4217 currency to return prices in, converted from the agent currency with the tenant exchange rates. Ignored when the agent has no currency, its prices are then formatted as plain numbers', required: false, example: 'EUR' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
@@ -0,0 +1,16 @@
+import { MissingOrderField, QuoteResult } from 'src/models/mongodb.model';
+import { FormattedQuoteResultDto } from './playground-execution.dto';
+import { IntegrationConversationResponseDto } from './integration-quote.dto';
+
+/**
+ * Server-Sent Events of the streaming chat endpoints, in the order they are sent.
+ * `quote_result` is not sent when the order is missing fields, the AI message then asks for them.
+ * `ai_message` is sent once per generated chunk, `done` carries the same body as the non-streaming endpoint
+ * and `error` ends a stream that failed after it started.
+ */
+export type ChatStreamEvent =
+  | { event: 'structured_order'; data: { structuredOrder: any; missingFields: MissingOrderField[]; locale: string } }
+  | { event: 'quote_result'; data: { functionResult: QuoteResult; formattedResult: FormattedQuoteResultDto; quoteId?: string; validUntil?: Date } }
+  | { event: 'ai_message'; data: { chunk: string } }
+  | { event: 'done'; data: IntegrationConversationResponseDto }
+  | { event: 'error'; data: { statusCode: number; message: string } };
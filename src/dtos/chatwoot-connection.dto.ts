@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class ConnectChatwootDto {
+  @ApiProperty({ type: Number, required: false, description: 'Chatwoot account to connect, defaults to the connected account or the first account the user administers' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  accountId?: number;
+}
+
+export class ChatwootInboxDto {
+  @ApiProperty({ type: Number })
+  id: number;
+
+  @ApiProperty({ type: String, required: false })
+  name?: string;
+
+  @ApiProperty({ type: String, required: false })
+  channelType?: string;
+
+  @ApiProperty({ type: String, format: 'uuid', required: false, description: 'Pricing agent answering the inbox, when routed' })
+  pricingAgentId?: string;
+
+  @ApiProperty({ type: Boolean, description: 'Whether the agent bot was connected to the inbox' })
+  agentBotConnected: boolean;
+}
+
+export class ChatwootConnectionDto {
+  @ApiProperty({ type: Number })
+  accountId: number;
+
+  @ApiProperty({ type: String, required: false })
+  accountName?: string;
+
+  @ApiProperty({ type: Number })
+  agentBotId: number;
+
+  @ApiProperty({ type: Boolean, description: 'Whether the agent bot was created by this connection' })
+  agentBotCreated: boolean;
+
+  @ApiProperty({ type: [ChatwootInboxDto] })
+  inboxes: ChatwootInboxDto[];
+}
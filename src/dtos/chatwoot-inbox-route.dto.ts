@@ -0,0 +1,40 @@
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class CreateChatwootInboxRouteDto {
+  @IsInt()
+  @Min(1)
+  chatwootAccountId: number;
+
+  @IsInt()
+  @Min(1)
+  chatwootInboxId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  pricingAgentId: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateChatwootInboxRouteDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chatwootAccountId?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chatwootInboxId?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  pricingAgentId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,110 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RunnerExceptionDTO } from './checkpoint-testset.dto';
+
+export class OrderBehaviorDiffDto {
+  @ApiProperty({ type: Number, description: 'Position of the order in the compared inputs' })
+  index: number;
+
+  @ApiProperty({ type: String, format: 'uuid', required: false, description: 'Dataset test the order was generated from' })
+  datasetTestId?: string;
+
+  @ApiProperty({ type: String, required: false, description: 'Natural language order description of the dataset test' })
+  description?: string;
+
+  @ApiProperty({ type: Object })
+  input: any;
+
+  @ApiProperty({ type: Number, required: false })
+  fromTotal?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  toTotal?: number;
+
+  @ApiProperty({ type: Number, required: false, description: 'toTotal - fromTotal, set when both checkpoints returned a total' })
+  totalDelta?: number;
+
+  @ApiProperty({ type: Number, required: false, description: 'Delta relative to fromTotal in percent, not set when fromTotal is 0' })
+  totalDeltaPercent?: number;
+
+  @ApiProperty({ type: [String] })
+  fromErrorCodes: string[];
+
+  @ApiProperty({ type: [String] })
+  toErrorCodes: string[];
+
+  @ApiProperty({ type: [String], description: 'Error codes returned by the second checkpoint only' })
+  appearedErrorCodes: string[];
+
+  @ApiProperty({ type: [String], description: 'Error codes returned by the first checkpoint only' })
+  disappearedErrorCodes: string[];
+
+  @ApiProperty({ type: RunnerExceptionDTO, required: false })
+  fromRunnerException?: RunnerExceptionDTO;
+
+  @ApiProperty({ type: RunnerExceptionDTO, required: false })
+  toRunnerException?: RunnerExceptionDTO;
+}
+
+export class BehaviorDiffStatisticsDto {
+  @ApiProperty({ type: Number })
+  orderCount: number;
+
+  @ApiProperty({ type: Number, description: 'Orders for which both checkpoints returned a total' })
+  comparedCount: number;
+
+  @ApiProperty({ type: Number })
+  unchangedCount: number;
+
+  @ApiProperty({ type: Number })
+  increasedCount: number;
+
+  @ApiProperty({ type: Number })
+  decreasedCount: number;
+
+  @ApiProperty({ type: Number, description: 'Sum of totals of the first checkpoint over the compared orders' })
+  fromTotalSum: number;
+
+  @ApiProperty({ type: Number, description: 'Sum of totals of the second checkpoint over the compared orders' })
+  toTotalSum: number;
+
+  @ApiProperty({ type: Number, required: false })
+  meanDelta?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  meanDeltaPercent?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  minDelta?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  maxDelta?: number;
+
+  @ApiProperty({ type: Number, description: 'Orders with error codes returned by the second checkpoint only' })
+  ordersWithAppearedErrors: number;
+
+  @ApiProperty({ type: Number, description: 'Orders with error codes returned by the first checkpoint only' })
+  ordersWithDisappearedErrors: number;
+
+  @ApiProperty({ type: Number, description: 'Orders on which either formula failed to execute' })
+  failedExecutionCount: number;
+}
+
+export class CheckpointBehaviorDiffDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  pricingAgentId: string;
+
+  @ApiProperty({ type: String, format: 'uuid' })
+  fromCheckpointId: string;
+
+  @ApiProperty({ type: String, format: 'uuid' })
+  toCheckpointId: string;
+
+  @ApiProperty({ type: String, enum: ['orders', 'testset'], description: 'Where the compared inputs came from' })
+  inputSource: 'orders' | 'testset';
+
+  @ApiProperty({ type: [OrderBehaviorDiffDto] })
+  orders: OrderBehaviorDiffDto[];
+
+  @ApiProperty({ type: BehaviorDiffStatisticsDto })
+  statistics: BehaviorDiffStatisticsDto;
+}
@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TagEnum } from '../models/mongodb.model';
+
+export class TextDiffDto {
+  @ApiProperty({ type: Boolean })
+  changed: boolean;
+
+  @ApiProperty({ type: String, description: 'Unified diff of the two versions, empty when unchanged' })
+  unifiedDiff: string;
+
+  @ApiProperty({ type: Number, description: 'Number of added lines' })
+  additions: number;
+
+  @ApiProperty({ type: Number, description: 'Number of removed lines' })
+  deletions: number;
+}
+
+export class InputMessageDiffEntryDto {
+  @ApiProperty({ type: String })
+  id: string;
+
+  @ApiProperty({ type: String, required: false })
+  message?: string;
+
+  @ApiProperty({ type: [String], enum: TagEnum, enumName: 'TagEnum' })
+  tags: TagEnum[];
+}
+
+export class ModifiedInputMessageDto {
+  @ApiProperty({ type: String })
+  id: string;
+
+  @ApiProperty({ type: String, required: false })
+  previousMessage?: string;
+
+  @ApiProperty({ type: String, required: false })
+  message?: string;
+
+  @ApiProperty({ type: [String], enum: TagEnum, enumName: 'TagEnum' })
+  addedTags: TagEnum[];
+
+  @ApiProperty({ type: [String], enum: TagEnum, enumName: 'TagEnum' })
+  removedTags: TagEnum[];
+}
+
+export class InputMessagesDiffDto {
+  @ApiProperty({ type: [InputMessageDiffEntryDto] })
+  added: InputMessageDiffEntryDto[];
+
+  @ApiProperty({ type: [InputMessageDiffEntryDto] })
+  removed: InputMessageDiffEntryDto[];
+
+  @ApiProperty({ type: [ModifiedInputMessageDto], description: 'Messages present in both checkpoints whose text or tags differ' })
+  modified: ModifiedInputMessageDto[];
+}
+
+export class TagsDiffDto {
+  @ApiProperty({ type: [String], enum: TagEnum, enumName: 'TagEnum', description: 'Tags used by the newer checkpoint only' })
+  added: TagEnum[];
+
+  @ApiProperty({ type: [String], enum: TagEnum, enumName: 'TagEnum', description: 'Tags used by the older checkpoint only' })
+  removed: TagEnum[];
+}
+
+export class CheckpointDiffDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  pricingAgentId: string;
+
+  @ApiProperty({ type: String, format: 'uuid' })
+  fromCheckpointId: string;
+
+  @ApiProperty({ type: String, format: 'uuid' })
+  toCheckpointId: string;
+
+  @ApiProperty({ type: TextDiffDto })
+  functionSchema: TextDiffDto;
+
+  @ApiProperty({ type: TextDiffDto })
+  functionCode: TextDiffDto;
+
+  @ApiProperty({ type: InputMessagesDiffDto })
+  inputMessages: InputMessagesDiffDto;
+
+  @ApiProperty({ type: TagsDiffDto })
+  tags: TagsDiffDto;
+}
@@ -1,22 +1,38 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { ObjectId } from 'mongodb';
-import { BacktraceCalculationStep, HappyPathTestData, QuoteError, QuoteResult, TestResult, UnhappyPathTestData } from '../models/mongodb.model';
+import { BacktraceCalculationStep, HappyPathTestData, QuoteCurrencyConversion, QuoteError, QuoteResult, RunnerException, RunnerExceptionCode, TestResult, UnhappyPathTestData } from '../models/mongodb.model';
 
 export class TestResultDTO implements TestResult {
   passed: boolean;
   functionResult?: QuoteResultDTO;
-  runnerException?: any;
+  runnerException?: RunnerExceptionDTO;
+}
+
+export class RunnerExceptionDTO implements RunnerException {
+  @ApiProperty({ enum: RunnerExceptionCode, enumName: 'RunnerExceptionCode' })
+  code: RunnerExceptionCode;
+  message: string;
+  stack?: string;
 }
 
 export class QuoteResultDTO implements QuoteResult {
   total?: number;
   pricingCalculationBacktrace?: BacktraceCalculationStepDTO;
   errors?: QuoteErrorDTO[];
+  currency?: string;
+  conversion?: QuoteCurrencyConversionDTO;
+}
+
+export class QuoteCurrencyConversionDTO implements QuoteCurrencyConversion {
+  fromCurrency: string;
+  rate: number;
+  originalTotal: number;
 }
 
 export class QuoteErrorDTO implements QuoteError{
   code: string;
   message: string;
+  path?: string;
 }
 
 export class BacktraceCalculationStepDTO implements BacktraceCalculationStep{
@@ -48,6 +64,9 @@ export class CheckpointHappyPathTestWithData {
   @ApiProperty({ type: TestResultDTO, required: false })
   testRunResult?: TestResultDTO;
 
+  @ApiProperty({ type: Date, required: false })
+  lastRunAt?: Date;
+
   @ApiProperty({ type: HappyPathTestData })
   testData: HappyPathTestData;
 }
@@ -74,6 +93,9 @@ export class CheckpointUnhappyPathTestWithData {
   @ApiProperty({ type: TestResultDTO, required: false })
   testRunResult?: TestResultDTO;
 
+  @ApiProperty({ type: Date, required: false })
+  lastRunAt?: Date;
+
   @ApiProperty({ type: UnhappyPathTestData })
   testData: UnhappyPathTestData;
 }
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CheckpointTreeNodeDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  checkpointId: string;
+
+  @ApiProperty({ type: Number, required: false })
+  version?: number;
+
+  @ApiProperty({ type: String, format: 'uuid', required: false })
+  parentCheckpointId?: string | null;
+
+  @ApiProperty({ type: String })
+  checkpointTrigger: string;
+
+  @ApiProperty({ type: String, required: false })
+  checkpointDescription?: string;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+
+  @ApiProperty({ type: Boolean, description: 'Checkpoint pinned by the active deployment' })
+  isDeployed: boolean;
+
+  @ApiProperty({ type: Boolean, description: 'Checkpoint with the highest version' })
+  isLatest: boolean;
+
+  @ApiProperty({ type: () => [CheckpointTreeNodeDto], description: 'Checkpoints cloned from this one, oldest first' })
+  children: CheckpointTreeNodeDto[];
+}
+
+export class CheckpointTreeDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  pricingAgentId: string;
+
+  @ApiProperty({ type: [CheckpointTreeNodeDto], description: 'Checkpoints without a known parent: the initial checkpoint, checkpoints created before lineage was recorded and children of deleted checkpoints' })
+  roots: CheckpointTreeNodeDto[];
+
+  @ApiProperty({ type: [String], description: 'Checkpoints edited more than once, i.e. where the history forks' })
+  branchPointIds: string[];
+}
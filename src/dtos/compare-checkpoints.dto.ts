@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsOptional, IsString, ArrayMaxSize } from 'class-validator';
+
+/**
+ * Data Transfer Object for comparing the prices of two checkpoints.
+ *
+ * Orders are priced by both checkpoints. Without orders, the structured inputs of the
+ * first checkpoint's testset are used, optionally limited to one dataset.
+ */
+export class CompareCheckpointsDto {
+  @ApiProperty({ type: String, format: 'uuid', required: false, description: 'Only use the testset inputs generated from this dataset' })
+  @IsString()
+  @IsOptional()
+  datasetId?: string;
+
+  @ApiProperty({ type: [Object], required: false, description: 'Structured orders to price with both checkpoints (max 200)' })
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsOptional()
+  orders?: any[];
+}
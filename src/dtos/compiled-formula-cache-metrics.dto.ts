@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SandboxPoolMetricsDto {
+  @ApiProperty({ type: Number })
+  poolSize: number;
+
+  @ApiProperty({ type: Number })
+  activeWorkers: number;
+
+  @ApiProperty({ type: Number })
+  queuedTasks: number;
+
+  @ApiProperty({ type: Number, description: 'Executions that reused a script compiled by the worker' })
+  scriptCacheHits: number;
+
+  @ApiProperty({ type: Number })
+  scriptCacheMisses: number;
+}
+
+export class CompiledFormulaCacheMetricsDto {
+  @ApiProperty({ type: Number })
+  entries: number;
+
+  @ApiProperty({ type: Number })
+  maxEntries: number;
+
+  @ApiProperty({ type: Number })
+  hits: number;
+
+  @ApiProperty({ type: Number })
+  misses: number;
+
+  @ApiProperty({ type: Number })
+  evictions: number;
+
+  @ApiProperty({ type: Number, description: 'Share of lookups served from the cache, between 0 and 1' })
+  hitRate: number;
+
+  @ApiProperty({ type: SandboxPoolMetricsDto })
+  sandbox: SandboxPoolMetricsDto;
+}
@@ -1,4 +1,5 @@
-import { IsString, IsNotEmpty, IsOptional, IsDateString } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsDateString, IsArray, IsEnum, IsMongoId } from 'class-validator';
+import { ApiKeyScope } from '../models/mongodb.model';
 
 export class CreateApiKeyDto {
   @IsString()
@@ -8,4 +9,16 @@ export class CreateApiKeyDto {
   @IsOptional()
   @IsDateString()
   expiresAt?: string;
+
+  // All scopes when not set
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes?: ApiKeyScope[];
+
+  // All of the tenant pricing agents when not set
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  allowedPricingAgentIds?: string[] | null;
 }
@@ -1,7 +1,13 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsISO4217CurrencyCode } from 'class-validator';
 
 export class CreatePricingAgentDto {
   @IsString()
   @IsNotEmpty()
   name: string;
+
+  @ApiProperty({ description: 'ISO 4217 currency the agent prices in', required: false, example: 'EUR' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
 }
@@ -0,0 +1,81 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeploymentPolicy, ExpectedErrorType } from '../models/mongodb.model';
+import { QuoteErrorDTO, RunnerExceptionDTO } from './checkpoint-testset.dto';
+
+export class TestsetPassRateDto {
+  @ApiProperty({ type: Number })
+  total: number;
+
+  @ApiProperty({ type: Number })
+  passed: number;
+
+  @ApiProperty({ type: Number })
+  failed: number;
+
+  @ApiProperty({ type: Number, description: 'Tests without a result for the current code' })
+  notRun: number;
+
+  @ApiProperty({ type: Number, description: 'Percentage of passed tests, not run tests count as not passed' })
+  passRate: number;
+}
+
+export class DeploymentGateFailingTestDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  testRunId: string;
+
+  @ApiProperty({ type: String, format: 'uuid' })
+  datasetId: string;
+
+  @ApiProperty({ type: String, enum: ['happy_path', 'unhappy_path'] })
+  testType: 'happy_path' | 'unhappy_path';
+
+  @ApiProperty({ type: String, enum: ['failed', 'not_run', 'stale'] })
+  reason: 'failed' | 'not_run' | 'stale';
+
+  @ApiProperty({ type: String })
+  orderInputNaturalLanguage: string;
+
+  @ApiProperty({ type: Number, required: false })
+  expectedTotal?: number;
+
+  @ApiProperty({ enum: ExpectedErrorType, enumName: 'ExpectedErrorType', required: false })
+  expectedErrorType?: ExpectedErrorType;
+
+  @ApiProperty({ type: Number, required: false })
+  actualTotal?: number;
+
+  @ApiProperty({ type: [QuoteErrorDTO], required: false })
+  actualErrors?: QuoteErrorDTO[];
+
+  @ApiProperty({ type: RunnerExceptionDTO, required: false })
+  runnerException?: RunnerExceptionDTO;
+}
+
+/**
+ * Result of evaluating a checkpoint's testset against the agent's deployment policy.
+ *
+ * Returned by the deployment gate endpoint and embedded in the error body when a
+ * deployment is refused.
+ */
+export class DeploymentGateReportDto {
+  @ApiProperty({ type: String, format: 'uuid' })
+  checkpointId: string;
+
+  @ApiProperty({ type: Boolean })
+  passed: boolean;
+
+  @ApiProperty({ type: DeploymentPolicy })
+  policy: DeploymentPolicy;
+
+  @ApiProperty({ type: [String], description: 'Human readable policy violations' })
+  violations: string[];
+
+  @ApiProperty({ type: TestsetPassRateDto })
+  happyPath: TestsetPassRateDto;
+
+  @ApiProperty({ type: TestsetPassRateDto })
+  unhappyPath: TestsetPassRateDto;
+
+  @ApiProperty({ type: [DeploymentGateFailingTestDto] })
+  failingTests: DeploymentGateFailingTestDto[];
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { QuoteResultDTO } from './checkpoint-testset.dto';
+import { PlaygroundExecutionResponseDto } from './playground-execution.dto';
+
+export class IntegrationQuoteResultDto extends QuoteResultDTO {
+  @ApiProperty({ type: String, format: 'uuid', description: 'Reference of the recorded quote, used to accept or re-price it' })
+  quoteId: string;
+
+  @ApiProperty({ type: Date, description: 'The quoted total can be accepted until this date' })
+  validUntil: Date;
+}
+
+export class IntegrationConversationResponseDto extends PlaygroundExecutionResponseDto {
+  @ApiProperty({ type: String, format: 'uuid', description: 'Reference of the recorded quote, used to accept or re-price it. Null when the order is incomplete and was not priced', required: false })
+  quoteId: string | null;
+
+  @ApiProperty({ type: Date, description: 'The quoted total can be accepted until this date. Null when the order is incomplete and was not priced', required: false })
+  validUntil: Date | null;
+}
+
+export class IntegrationChatSessionResponseDto extends IntegrationConversationResponseDto {
+  @ApiProperty({ type: String, format: 'uuid', description: 'Chat session the message was added to' })
+  sessionId: string;
+}
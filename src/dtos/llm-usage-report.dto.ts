@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export enum LlmUsageGroupBy {
+  PURPOSE = 'purpose',
+  OPERATION = 'operation',
+  MODEL = 'model',
+  PRICING_AGENT = 'pricingAgentId',
+  DAY = 'day',
+}
+
+export class LlmUsageTotalsDto {
+  @ApiProperty({ type: Number })
+  calls: number;
+
+  @ApiProperty({ type: Number })
+  failedCalls: number;
+
+  @ApiProperty({ type: Number, description: 'Calls to models without a known price, not included in the estimated cost' })
+  unpricedCalls: number;
+
+  @ApiProperty({ type: Number })
+  promptTokens: number;
+
+  @ApiProperty({ type: Number })
+  completionTokens: number;
+
+  @ApiProperty({ type: Number })
+  totalTokens: number;
+
+  @ApiProperty({ type: Number, description: 'Estimated cost in USD' })
+  estimatedCostUsd: number;
+}
+
+export class LlmUsageReportGroupDto extends LlmUsageTotalsDto {
+  @ApiProperty({ type: String, required: false, description: 'Value of the grouping field, a YYYY-MM-DD date (UTC) when grouped by day' })
+  key: string | null;
+
+  @ApiProperty({ type: Number })
+  averageLatencyMs: number;
+}
+
+export class LlmUsageReportDto {
+  @ApiProperty({ enum: LlmUsageGroupBy, enumName: 'LlmUsageGroupBy' })
+  groupBy: LlmUsageGroupBy;
+
+  @ApiProperty({ type: Date, required: false })
+  from: Date | null;
+
+  @ApiProperty({ type: Date, required: false })
+  to: Date | null;
+
+  @ApiProperty({ type: LlmUsageTotalsDto })
+  total: LlmUsageTotalsDto;
+
+  @ApiProperty({ type: [LlmUsageReportGroupDto] })
+  groups: LlmUsageReportGroupDto[];
+}
@@ -1,7 +1,7 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { QuoteResult } from 'src/models/mongodb.model';
-import { QuoteResultDTO } from './checkpoint-testset.dto';
-import { IsOptional, IsString } from 'class-validator';
+import { BacktraceCalculationStepDTO, QuoteResultDTO } from './checkpoint-testset.dto';
+import { IsISO4217CurrencyCode, IsLocale, IsOptional, IsString } from 'class-validator';
 
 export class ChatbotMessage {
   @ApiProperty({ description: 'The message text' })
@@ -16,17 +16,58 @@ export class PlaygroundExecutionRequestDto {
   input: string;
   @IsOptional()
   conversation?: ChatbotMessage[];
+
+  @ApiProperty({ description: 'BCP 47 locale to reply and format prices in, detected from the conversation when not set', required: false, example: 'de-DE' })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @ApiProperty({ description: 'ISO 4217 currency to return prices in, converted from the agent currency with the tenant exchange rates. Ignored when the agent has no currency, its prices are then formatted as plain numbers', required: false, example: 'EUR' })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+export class FormattedQuoteResultDto {
+  @ApiProperty({ description: 'The total formatted for the locale and currency, null when the pricing function returned no total', required: false })
+  total: string | null;
+
+  @ApiProperty({ description: 'The calculation backtrace with the numbers in its descriptions formatted for the locale', type: BacktraceCalculationStepDTO, required: false })
+  pricingCalculationBacktrace?: BacktraceCalculationStepDTO;
+
+  @ApiProperty({ description: 'ISO 4217 currency of the amounts in the backtrace, the agent currency when the total was converted to another one', required: false })
+  backtraceCurrency?: string | null;
+}
+
+export class MissingOrderFieldDto {
+  @ApiProperty({ description: 'JSON pointer of the order input field' })
+  path: string;
+
+  @ApiProperty({ description: 'What the customer still has to provide or clarify' })
+  reason: string;
 }
 
 export class PlaygroundExecutionResponseDto {
   @ApiProperty({ description: 'The structured order input converted from natural language' })
   structuredOrder: any;
 
-  @ApiProperty({ description: 'The result from executing the pricing function' })
-  functionResult: QuoteResultDTO;
+  @ApiProperty({ description: 'The result from executing the pricing function, null when the order is incomplete and was not priced', required: false })
+  functionResult: QuoteResultDTO | null;
+
+  @ApiProperty({ description: 'Fields the customer still has to provide or clarify, the AI message then asks for them instead of quoting. Empty when the order was priced', type: [MissingOrderFieldDto] })
+  missingFields: MissingOrderFieldDto[];
 
   @ApiProperty({ description: 'The AI-generated response message for the playground conversation' })
   aiMessage: string;
+
+  @ApiProperty({ description: 'BCP 47 locale the AI message is written in and the prices are formatted for, requested or detected from the conversation', example: 'de-DE' })
+  locale: string;
+
+  @ApiProperty({ description: 'ISO 4217 currency of the prices, null when the agent has no currency', required: false })
+  currency: string | null;
+
+  @ApiProperty({ description: 'The function result prices formatted for the locale and currency, null when the order was not priced', type: FormattedQuoteResultDto, required: false })
+  formattedResult: FormattedQuoteResultDto | null;
 }
 
 export class DemoConversationResponseDto {
@@ -0,0 +1,22 @@
+import { IsBoolean, IsMongoId, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object for pricing agent deployment rollbacks.
+ *
+ * Without a deploymentId the agent is rolled back to the deployment that was
+ * active before the current one.
+ */
+export class RollbackDeploymentDto {
+  @IsMongoId()
+  @IsOptional()
+  deploymentId?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  // Deploys the checkpoint even when it fails the deployment policy, recorded on the deployment
+  @IsBoolean()
+  @IsOptional()
+  overrideDeploymentPolicy?: boolean;
+}
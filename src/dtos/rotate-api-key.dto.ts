@@ -0,0 +1,11 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { API_KEY_ROTATION_MAX_GRACE_HOURS } from '../config/api-key.config';
+
+export class RotateApiKeyDto {
+  // Hours the current secret stays valid after the rotation, API_KEY_ROTATION_GRACE_HOURS when not set, 0 revokes it at once
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(API_KEY_ROTATION_MAX_GRACE_HOURS)
+  gracePeriodHours?: number;
+}
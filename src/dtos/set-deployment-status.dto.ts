@@ -1,6 +1,20 @@
-import { IsBoolean } from 'class-validator';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
 
 export class SetDeploymentStatusDto {
   @IsBoolean()
   isDeployed: boolean;
+
+  // Checkpoint to pin when deploying, defaults to the latest checkpoint
+  @IsString()
+  @IsOptional()
+  checkpointId?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  // Deploys the checkpoint even when it fails the deployment policy, recorded on the deployment
+  @IsBoolean()
+  @IsOptional()
+  overrideDeploymentPolicy?: boolean;
 }
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PlanResource, QuotaMetric, SubscriptionPlan } from '../models/mongodb.model';
+
+export class EntitlementDto {
+  @ApiProperty({ enum: [...Object.values(PlanResource), ...Object.values(QuotaMetric)], description: 'Capped resource or monthly quota' })
+  name: PlanResource | QuotaMetric;
+
+  @ApiProperty({ type: Number, required: false, description: 'Limit of the plan, null for unlimited' })
+  limit: number | null;
+
+  @ApiProperty({ type: Number, description: 'Resources in use, or calls counted this month for a quota' })
+  used: number;
+
+  @ApiProperty({ type: Date, required: false, description: 'When a monthly quota starts over' })
+  resetsAt?: Date;
+}
+
+export class TenantEntitlementsDto {
+  @ApiProperty({ enum: SubscriptionPlan, enumName: 'SubscriptionPlan', description: 'Plan the limits are applied from, free when the subscription is not active' })
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ type: [EntitlementDto] })
+  entitlements: EntitlementDto[];
+}
@@ -1,6 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { ObjectId } from 'mongodb';
-import { Subscription } from '../models/mongodb.model';
+import { FxRateTable, Subscription } from '../models/mongodb.model';
 import { LLMConfigurationResponseDto } from './llm-configuration-response.dto';
 
 export class TenantDto {
@@ -25,6 +25,9 @@ export class TenantDto {
   @ApiProperty({ type: LLMConfigurationResponseDto, required: false })
   chatbotLlmConfiguration?: LLMConfigurationResponseDto;
 
+  @ApiProperty({ type: FxRateTable, required: false })
+  fxRates?: FxRateTable | null;
+
   @ApiProperty({ type: Date })
   createdAt: Date;
 
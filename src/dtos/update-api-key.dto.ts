@@ -1,4 +1,5 @@
-import { IsString, IsOptional, IsBoolean, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsDateString, IsArray, IsEnum, IsMongoId } from 'class-validator';
+import { ApiKeyScope } from '../models/mongodb.model';
 
 export class UpdateApiKeyDto {
   @IsOptional()
@@ -12,4 +13,15 @@ export class UpdateApiKeyDto {
   @IsOptional()
   @IsDateString()
   expiresAt?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes?: ApiKeyScope[];
+
+  // null lifts the restriction to the listed pricing agents
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  allowedPricingAgentIds?: string[] | null;
 }
@@ -0,0 +1,19 @@
+import { IsBoolean, IsNumber, Max, Min } from 'class-validator';
+
+export class UpdateDeploymentPolicyDto {
+  @IsBoolean()
+  enabled: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minHappyPathPassRate: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minUnhappyPathPassRate: number;
+
+  @IsBoolean()
+  requireTestsetRunAfterCodeChange: boolean;
+}
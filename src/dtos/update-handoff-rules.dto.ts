@@ -0,0 +1,28 @@
+import { IsArray, IsBoolean, IsIn, IsInt, IsNumber, IsOptional, Min } from 'class-validator';
+import { ExpectedErrorType } from '../models/mongodb.model';
+
+export class UpdateHandoffRulesDto {
+  @IsBoolean()
+  enabled: boolean;
+
+  @IsArray()
+  @IsIn(Object.values(ExpectedErrorType), { each: true })
+  errorCodes: ExpectedErrorType[];
+
+  @IsInt()
+  @Min(1)
+  maxFailedAttempts: number;
+
+  @IsBoolean()
+  handOffOnException: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  totalAbove?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chatwootTeamId?: number | null;
+}
@@ -27,6 +27,18 @@ export class SubscriptionDto {
   @IsOptional()
   maxApiKeys?: number;
 
+  @IsNumber()
+  @IsOptional()
+  maxPricingAgents?: number;
+
+  @IsNumber()
+  @IsOptional()
+  maxMonthlyIntegrationCalls?: number;
+
+  @IsNumber()
+  @IsOptional()
+  maxMonthlyAiGenerations?: number;
+
   @IsArray()
   @IsString({ each: true })
   @IsOptional()
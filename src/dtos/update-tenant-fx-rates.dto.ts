@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO4217CurrencyCode, IsObject } from 'class-validator';
+
+export class UpdateTenantFxRatesDto {
+  @ApiProperty({ description: 'ISO 4217 currency the rates are relative to', example: 'EUR' })
+  @IsISO4217CurrencyCode()
+  baseCurrency: string;
+
+  @ApiProperty({ type: 'object', additionalProperties: { type: 'number' }, description: 'Amount of each ISO 4217 currency for one unit of the base currency', example: { USD: 1.08, GBP: 0.85 } })
+  @IsObject()
+  rates: Record<string, number>;
+}
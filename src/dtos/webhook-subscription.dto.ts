@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsBoolean, IsEnum, IsOptional, IsString, IsUrl } from 'class-validator';
+import { WebhookEventType, WebhookSubscription } from '../models/mongodb.model';
+
+export class CreateWebhookSubscriptionDto {
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEventType, { each: true })
+  events: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEventType, { each: true })
+  events?: WebhookEventType[];
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class CreateWebhookSubscriptionResponseDto {
+  @ApiProperty({ type: String, description: 'Secret the payloads are signed with, only returned once' })
+  secret: string;
+
+  @ApiProperty({ type: WebhookSubscription })
+  subscription: WebhookSubscription;
+}
@@ -39,6 +39,8 @@ async function bootstrap() {
     .setDescription('API documentation for the Pricing Agent Builder service')
     .setVersion('1.0')
     .addTag('pricing-agents')
+    .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'X-API-Key')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
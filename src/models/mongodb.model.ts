@@ -16,6 +16,16 @@ export enum LLMProvider {
   AZURE_OPENAI = 'azure_openai'
 }
 
+/**
+ * What an LLM is used for, each purpose resolves its own tenant configuration
+ */
+export enum LlmPurpose {
+  BUILDER = 'builder', // schema and pricing function generation
+  CHATBOT = 'chatbot', // end-customer conversations (integrations chat, Chatwoot, playground)
+  EXTRACTION = 'extraction', // pricing table extraction from documents
+  TEST_GENERATION = 'test_generation', // datasets, testsets and example generation
+}
+
 export enum SubscriptionPlan {
   FREE = 'free',
   STARTER = 'starter',
@@ -36,6 +46,19 @@ export enum BillingCycle {
   YEARLY = 'yearly'
 }
 
+// Resources a plan caps the number of
+export enum PlanResource {
+  PRICING_AGENTS = 'pricing_agents',
+  API_KEYS = 'api_keys',
+  USERS = 'users',
+}
+
+// Calls a plan caps per calendar month (UTC)
+export enum QuotaMetric {
+  INTEGRATION_CALLS = 'integration_calls', // quotes served through the integrations endpoints and Chatwoot
+  AI_GENERATIONS = 'ai_generations', // schema, formula, dataset, testset, example and table generations
+}
+
 export class Subscription {
   @ApiProperty({ enum: SubscriptionPlan, enumName: 'SubscriptionPlan' })
   plan: SubscriptionPlan;
@@ -58,6 +81,15 @@ export class Subscription {
   @ApiProperty({ type: Number, required: false })
   maxApiKeys?: number;
 
+  @ApiProperty({ type: Number, required: false })
+  maxPricingAgents?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  maxMonthlyIntegrationCalls?: number;
+
+  @ApiProperty({ type: Number, required: false })
+  maxMonthlyAiGenerations?: number;
+
   @ApiProperty({ type: [String], required: false })
   featuresEnabled?: string[];
 }
@@ -91,6 +123,27 @@ export class ChatwootConfiguration {
 
   @ApiProperty({ type: String, required: false })
   chatwootHost?: string;
+
+  @ApiProperty({ type: Number, required: false, description: 'Chatwoot account the engine is connected to' })
+  accountId?: number;
+
+  @ApiProperty({ type: Number, required: false, description: 'Agent bot provisioned by the engine, its access token is stored as chatbotApiKey' })
+  agentBotId?: number;
+
+  @ApiProperty({ type: String, required: false, description: 'API key in the outgoing URL of the provisioned agent bot, revoked when the bot is provisioned again' })
+  agentBotApiKeyId?: string;
+}
+
+// Static exchange rates provided by the tenant to convert quoted totals, see CurrencyService
+export class FxRateTable {
+  @ApiProperty({ type: String, description: 'ISO 4217 currency the rates are relative to', example: 'EUR' })
+  baseCurrency: string;
+
+  @ApiProperty({ type: 'object', additionalProperties: { type: 'number' }, description: 'Amount of each ISO 4217 currency for one unit of the base currency', example: { USD: 1.08, GBP: 0.85 } })
+  rates: Record<string, number>;
+
+  @ApiProperty({ type: Date })
+  updatedAt: Date;
 }
 
 export class Tenant {
@@ -118,6 +171,9 @@ export class Tenant {
   @ApiProperty({ type: ChatwootConfiguration, required: false })
   chatwootConfiguration?: ChatwootConfiguration;
 
+  @ApiProperty({ type: FxRateTable, required: false })
+  fxRates?: FxRateTable | null; // Quotes are only returned in the currency of their agent when not set
+
   @ApiProperty({ type: Date })
   createdAt: Date;
 
@@ -185,6 +241,11 @@ export class PricingAgentCheckpoint {
   @ApiProperty({ type: String, format: 'uuid' })
   pricingAgentId: ObjectId; // Reference to the pricing agent
   tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ type: Number, required: false, description: 'Monotonic per-agent version, missing on checkpoints created before versioning' })
+  version?: number;
+  @ApiProperty({ name: 'parentCheckpointId', type: String, format: 'uuid', required: false })
+  parentCheckpointId?: ObjectId | null; // checkpoint this one was cloned from, null for the initial checkpoint
   
   humanInputMessages: HumanInputMessage[];
   functionSchema?: string;
@@ -212,6 +273,40 @@ export class HumanInputMessage {
   deletedAt?: Date | null;
 }
 
+export class DeploymentPolicy {
+  @ApiProperty({ type: Boolean, default: true })
+  enabled: boolean;
+
+  @ApiProperty({ type: Number, minimum: 0, maximum: 100, default: 100 })
+  minHappyPathPassRate: number; // percent of happy path tests that must pass
+
+  @ApiProperty({ type: Number, minimum: 0, maximum: 100, default: 100 })
+  minUnhappyPathPassRate: number; // percent of unhappy path tests that must pass
+
+  @ApiProperty({ type: Boolean, default: true })
+  requireTestsetRunAfterCodeChange: boolean; // every test must have a result produced against the checkpoint's current code
+}
+
+export class HandoffRules {
+  @ApiProperty({ type: Boolean, default: true })
+  enabled: boolean;
+
+  @ApiProperty({ type: [String], description: 'Quote error codes counted as a failed attempt' })
+  errorCodes: string[];
+
+  @ApiProperty({ type: Number, minimum: 1, default: 2 })
+  maxFailedAttempts: number; // consecutive failed attempts before the conversation is handed off
+
+  @ApiProperty({ type: Boolean, default: true })
+  handOffOnException: boolean; // hand off as soon as the pricing function throws
+
+  @ApiProperty({ type: Number, required: false, nullable: true })
+  totalAbove?: number | null; // quotes above this total are reviewed by a human before being sent
+
+  @ApiProperty({ type: Number, required: false, nullable: true })
+  chatwootTeamId?: number | null; // Chatwoot team the conversation is assigned to on handoff
+}
+
 export class PricingAgent {
   @ApiProperty({ name: '_id', type: String, format: 'uuid' })
   _id?: ObjectId;
@@ -220,6 +315,50 @@ export class PricingAgent {
   createdAt: Date;
   deletedAt?: Date | null;
   isDeployed: boolean;
+  @ApiProperty({ name: 'deployedCheckpointId', type: String, format: 'uuid', required: false })
+  deployedCheckpointId?: ObjectId | null; // Checkpoint pinned for production, served by the integrations endpoints
+  @ApiProperty({ type: DeploymentPolicy, required: false })
+  deploymentPolicy?: DeploymentPolicy; // Deployments are not gated when no policy is set
+  @ApiProperty({ type: HandoffRules, required: false })
+  handoffRules?: HandoffRules; // Chatbot conversations are never handed off when no rules are set
+  @ApiProperty({ type: String, required: false, description: 'ISO 4217 currency the agent prices in', example: 'EUR' })
+  currency?: string | null; // Quoted totals carry no currency unless one is requested when not set
+  lastCheckpointVersion?: number; // Version of the newest checkpoint, incremented atomically when a checkpoint is created
+}
+
+export class DeploymentPolicyOverride {
+  @ApiProperty({ type: String, required: false, description: 'ID of the user who deployed despite the policy' })
+  overriddenBy: string | null;
+  @ApiProperty({ type: [String], description: 'Violations of the deployment policy at the time of the deployment' })
+  violations: string[];
+}
+
+export class PricingAgentDeployment {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  @ApiProperty({ name: 'pricingAgentId', type: String, format: 'uuid' })
+  pricingAgentId: ObjectId;
+  @ApiProperty({ name: 'checkpointId', type: String, format: 'uuid' })
+  checkpointId: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ type: String, enum: ['deploy', 'rollback', 'undeploy'] })
+  action: 'deploy' | 'rollback' | 'undeploy';
+  @ApiProperty({ type: String, required: false })
+  description?: string;
+
+  // deployment that was active when this one was created, used to walk back on rollback
+  @ApiProperty({ name: 'previousDeploymentId', type: String, format: 'uuid', required: false })
+  previousDeploymentId?: ObjectId | null;
+  @ApiProperty({ name: 'rolledBackDeploymentId', type: String, format: 'uuid', required: false })
+  rolledBackDeploymentId?: ObjectId | null;
+  @ApiProperty({ type: DeploymentPolicyOverride, required: false })
+  policyOverride?: DeploymentPolicyOverride | null; // set when the checkpoint was deployed without satisfying the deployment policy
+
+  @ApiProperty({ type: Date })
+  deployedAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  supersededAt?: Date | null; // set when a newer deployment (or undeploy) replaces this one
 }
 
 export class TestingDataset {
@@ -288,6 +427,7 @@ export class CheckpointHappyPathTestRun {
   deletedAt?: Date | null;
   functionInputParams: any; // Generated typed input parameters based on the function schema and natural language description
   testRunResult?: TestResult;
+  lastRunAt?: Date; // when testRunResult was produced
 }
 
 export class CheckpointUnhappyPathTestRun {
@@ -304,6 +444,7 @@ export class CheckpointUnhappyPathTestRun {
   deletedAt?: Date | null;
   functionInputParams: any; // Generated typed input parameters based on the function schema and natural language description
   testRunResult?: TestResult;
+  lastRunAt?: Date; // when testRunResult was produced
 }
 
 export enum ExpectedErrorType {
@@ -311,21 +452,50 @@ export enum ExpectedErrorType {
   QUOTATION_RULE_VIOLATION = 'QUOTATION_RULE_VIOLATION'
 }
 
+export enum RunnerExceptionCode {
+  TIMEOUT = 'TIMEOUT',
+  OUT_OF_MEMORY = 'OUT_OF_MEMORY',
+  COMPILATION_ERROR = 'COMPILATION_ERROR',
+  EXECUTION_ERROR = 'EXECUTION_ERROR', // generated code threw an error
+  SANDBOX_ERROR = 'SANDBOX_ERROR' // sandbox worker crashed for another reason
+}
+
+export interface RunnerException {
+  code: RunnerExceptionCode;
+  message: string;
+  stack?: string;
+}
+
 export interface TestResult {
   passed: boolean;
   functionResult?: QuoteResult;
-  runnerException?: any;
+  runnerException?: RunnerException;
 }
 
 export interface QuoteResult {
   total?: number;
   pricingCalculationBacktrace?: BacktraceCalculationStep;
   errors?: QuoteError[];
+  currency?: string; // ISO 4217 currency of the total, set by the engine and not by the pricing function
+  conversion?: QuoteCurrencyConversion; // set when the total was converted from the agent currency
+}
+
+export interface QuoteCurrencyConversion {
+  fromCurrency: string;
+  rate: number; // amount of the quote currency for one unit of fromCurrency
+  originalTotal: number; // total in fromCurrency, as computed by the pricing function
 }
 
 export interface QuoteError {
   code: string;
   message: string;
+  path?: string; // JSON pointer of the offending order input field
+}
+
+// Order input field the customer still has to provide or clarify before the order can be priced
+export interface MissingOrderField {
+  path: string; // JSON pointer of the order input field
+  reason: string;
 }
 
 export interface BacktraceCalculationStep {
@@ -334,6 +504,31 @@ export interface BacktraceCalculationStep {
   subTasks?: BacktraceCalculationStep[];
 }
 
+// Integration endpoints an API key may call
+export enum ApiKeyScope {
+  PRICE = 'price', // pricing, re-pricing and looking up or accepting the quotes
+  CHAT = 'chat', // chat and Chatwoot webhooks, looking up or accepting the quotes
+  OPENAPI = 'openapi', // OpenAPI schema of the agent's pricing endpoint
+}
+
+// Secret of an API key replaced by a rotation, valid until the end of the grace period
+export class ApiKeySecret {
+  @ApiProperty({ type: String })
+  key: string; // Hashed secret
+
+  @ApiProperty({ type: String, required: false, description: 'Last characters of the secret' })
+  hint?: string;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+
+  @ApiProperty({ type: Date, required: false })
+  lastUsedAt?: Date;
+
+  @ApiProperty({ type: Date })
+  expiresAt: Date;
+}
+
 export class ApiKey {
   @ApiProperty({ name: '_id', type: String, format: 'uuid' })
   _id?: ObjectId;
@@ -344,6 +539,14 @@ export class ApiKey {
   @ApiProperty({ type: String })
   key: string; // Hashed API key
 
+  @ApiProperty({ type: String, required: false, description: 'Last characters of the current secret' })
+  hint?: string;
+
+  @ApiProperty({ type: Date, required: false, description: 'When the current secret was issued by a rotation' })
+  rotatedAt?: Date;
+
+  previousSecrets?: ApiKeySecret[]; // Previous secrets still valid after a rotation, not returned by the API
+
   @ApiProperty({ type: String, format: 'uuid' })
   tenantId: ObjectId;
 
@@ -353,12 +556,321 @@ export class ApiKey {
   @ApiProperty({ type: Date })
   createdAt: Date;
 
-  @ApiProperty({ type: Date, required: false })
+  @ApiProperty({ type: Date, required: false, description: 'When the current secret was last used' })
   lastUsedAt?: Date;
 
   @ApiProperty({ type: Date, required: false })
   expiresAt?: Date;
 
+  @ApiProperty({ type: [String], enum: ApiKeyScope, enumName: 'ApiKeyScope', required: false, description: 'Endpoints the key may call, all of them when not set' })
+  scopes?: ApiKeyScope[];
+
+  @ApiProperty({ type: [String], required: false, description: 'Pricing agents the key may use, all of the tenant agents when not set' })
+  allowedPricingAgentIds?: ObjectId[] | null;
+
+  @ApiProperty({ type: Date, required: false })
+  deletedAt?: Date | null;
+}
+
+export enum QuoteSource {
+  API = 'api',
+  CHAT = 'chat',
+  CHATWOOT = 'chatwoot',
+  PLAYGROUND = 'playground'
+}
+
+export class Quote {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ name: 'pricingAgentId', type: String, format: 'uuid' })
+  pricingAgentId: ObjectId;
+  @ApiProperty({ name: 'checkpointId', type: String, format: 'uuid' })
+  checkpointId: ObjectId; // formula version that produced the price
+
+  @ApiProperty({ enum: QuoteSource, enumName: 'QuoteSource' })
+  source: QuoteSource;
+  @ApiProperty({ name: 'apiKeyId', type: String, format: 'uuid', required: false })
+  apiKeyId?: ObjectId | null; // set for quotes served through the integrations endpoints
+
+  @ApiProperty({ type: Object, description: 'Structured order input passed to the pricing function' })
+  inputParams: any;
+  @ApiProperty({ type: Object, description: 'QuoteResult returned by the pricing function' })
+  result: QuoteResult;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, description: 'The quoted total can be accepted until this date' })
+  validUntil: Date;
+  @ApiProperty({ type: Date, required: false })
+  acceptedAt?: Date | null;
+  @ApiProperty({ name: 'repricedFromQuoteId', type: String, format: 'uuid', required: false })
+  repricedFromQuoteId?: ObjectId | null; // quote whose input was priced again to create this one
+}
+
+export class ChatwootInboxRoute {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ type: Number })
+  chatwootAccountId: number;
+  @ApiProperty({ type: Number })
+  chatwootInboxId: number;
+
+  @ApiProperty({ name: 'pricingAgentId', type: String, format: 'uuid' })
+  pricingAgentId: ObjectId; // agent answering the conversations of the inbox
+
+  @ApiProperty({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
+  @ApiProperty({ type: Date, required: false })
+  deletedAt?: Date | null;
+}
+
+export class ChatwootConversationState {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ type: Number })
+  chatwootAccountId: number;
+  @ApiProperty({ type: Number })
+  chatwootConversationId: number;
+
+  @ApiProperty({ type: Number })
+  failedAttempts: number; // consecutive quotes that failed with a handoff error code
+  @ApiProperty({ type: Date, required: false })
+  handedOffAt?: Date | null;
+  @ApiProperty({ type: String, required: false })
+  handoffReason?: string | null;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
+}
+
+/**
+ * The agent call an LLM usage record was made for, finer grained than its purpose
+ */
+export enum LlmOperation {
+  SCHEMA_GENERATION = 'schema_generation',
+  FORMULA_GENERATION = 'formula_generation',
+  ORDER_CONVERSION = 'order_conversion',
+  RESPONSE_GENERATION = 'response_generation',
+  CONVERSATION_GENERATION = 'conversation_generation',
+  HAPPY_PATH_DATASET_GENERATION = 'happy_path_dataset_generation',
+  UNHAPPY_PATH_DATASET_GENERATION = 'unhappy_path_dataset_generation',
+  TESTSET_GENERATION = 'testset_generation',
+  PRICING_TABLE_EXTRACTION = 'pricing_table_extraction',
+}
+
+export class LlmUsage {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ enum: LlmPurpose, enumName: 'LlmPurpose' })
+  purpose: LlmPurpose;
+  @ApiProperty({ enum: LlmOperation, enumName: 'LlmOperation' })
+  operation: LlmOperation;
+  @ApiProperty({ name: 'pricingAgentId', type: String, format: 'uuid', required: false })
+  pricingAgentId?: ObjectId | null;
+  @ApiProperty({ name: 'checkpointId', type: String, format: 'uuid', required: false })
+  checkpointId?: ObjectId | null; // checkpoint the call was made for, not the one it may create
+
+  @ApiProperty({ enum: LLMProvider, enumName: 'LLMProvider' })
+  provider: LLMProvider;
+  @ApiProperty({ type: String })
+  model: string;
+  @ApiProperty({ type: Boolean, description: 'Whether the call was made with the tenant\'s own API key' })
+  byok: boolean;
+
+  @ApiProperty({ type: Number })
+  promptTokens: number;
+  @ApiProperty({ type: Number })
+  completionTokens: number;
+  @ApiProperty({ type: Number })
+  totalTokens: number;
+  @ApiProperty({ type: Number })
+  latencyMs: number;
+  @ApiProperty({ type: Number, required: false, description: 'Estimated cost in USD, null when the model has no known price' })
+  estimatedCostUsd: number | null;
+
+  @ApiProperty({ type: String, required: false })
+  error?: string | null; // set when the provider call failed
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+}
+
+export class UsageCounter {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ enum: QuotaMetric, enumName: 'QuotaMetric' })
+  metric: QuotaMetric;
+  @ApiProperty({ type: String, description: 'Calendar month (UTC) counted, as YYYY-MM' })
+  period: string;
+  @ApiProperty({ type: Number })
+  count: number;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
+}
+
+// Lease on a plan limited resource of a tenant, held while the resource is counted and created
+export interface PlanLimitLock {
+  _id: string; // tenant ID and resource
+  lockId: ObjectId;
+  lockedUntil: Date;
+}
+
+/**
+ * Engine events a webhook subscription can be notified of
+ */
+export enum WebhookEventType {
+  CHECKPOINT_CREATED = 'checkpoint.created',
+  SCHEMA_GENERATED = 'schema.generated',
+  FORMULA_GENERATED = 'formula.generated',
+  TESTSET_RUN_COMPLETED = 'testset.run_completed',
+  AGENT_DEPLOYED = 'agent.deployed',
+  AGENT_UNDEPLOYED = 'agent.undeployed',
+  QUOTE_ISSUED = 'quote.issued',
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending', // waiting for its next attempt
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed', // gave up after the last attempt
+}
+
+export class WebhookSubscription {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ type: String })
+  url: string;
+  @ApiProperty({ type: [String], enum: WebhookEventType, enumName: 'WebhookEventType' })
+  events: WebhookEventType[];
+  @ApiProperty({ type: String, required: false })
+  description?: string;
+
+  secret: string; // HMAC signing key, only returned when the subscription is created
+
+  @ApiProperty({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
   @ApiProperty({ type: Date, required: false })
   deletedAt?: Date | null;
 }
+
+export class WebhookDeliveryAttempt {
+  @ApiProperty({ type: Date })
+  attemptedAt: Date;
+  @ApiProperty({ type: Number, required: false, description: 'HTTP status of the response, null when no response was received' })
+  responseStatus: number | null;
+  @ApiProperty({ type: String, required: false })
+  error?: string | null;
+  @ApiProperty({ type: Number })
+  durationMs: number;
+}
+
+export class WebhookDelivery {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ name: 'subscriptionId', type: String, format: 'uuid' })
+  subscriptionId: ObjectId;
+  @ApiProperty({ type: String, description: 'ID of the event, the same for all deliveries and redeliveries of the event' })
+  eventId: string;
+  @ApiProperty({ enum: WebhookEventType, enumName: 'WebhookEventType' })
+  event: WebhookEventType;
+  @ApiProperty({ type: Object, description: 'JSON body posted to the subscription URL' })
+  payload: WebhookEventPayload;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus, enumName: 'WebhookDeliveryStatus' })
+  status: WebhookDeliveryStatus;
+  @ApiProperty({ type: Number })
+  attempts: number;
+  @ApiProperty({ type: [WebhookDeliveryAttempt] })
+  attemptLog: WebhookDeliveryAttempt[];
+  @ApiProperty({ type: Date, required: false })
+  nextAttemptAt: Date | null;
+  lockedUntil?: Date | null; // set while a delivery attempt is in progress
+
+  @ApiProperty({ name: 'redeliveredFromId', type: String, format: 'uuid', required: false })
+  redeliveredFromId?: ObjectId | null; // delivery this one was redelivered from
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
+}
+
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: Date;
+  tenantId?: string;
+  data: Record<string, any>;
+}
+
+export enum ChatSessionStatus {
+  OPEN = 'open',
+  CLOSED = 'closed',
+}
+
+export class ChatSessionMessage {
+  @ApiProperty({ type: String })
+  message: string;
+  @ApiProperty({ enum: ['AI', 'User'] })
+  role: 'AI' | 'User';
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+}
+
+export class ChatSession {
+  @ApiProperty({ name: '_id', type: String, format: 'uuid' })
+  _id?: ObjectId;
+  tenantId?: string; // Made optional for single-tenant mode
+
+  @ApiProperty({ name: 'pricingAgentId', type: String, format: 'uuid' })
+  pricingAgentId: ObjectId;
+  @ApiProperty({ name: 'apiKeyId', type: String, format: 'uuid', required: false })
+  apiKeyId?: ObjectId | null; // API key the session was created with, the only one that can continue it
+
+  @ApiProperty({ enum: ChatSessionStatus, enumName: 'ChatSessionStatus' })
+  status: ChatSessionStatus;
+  @ApiProperty({ type: [ChatSessionMessage] })
+  messages: ChatSessionMessage[];
+
+  @ApiProperty({ type: Object, required: false, description: 'Structured order of the last quote, updated by every new message' })
+  structuredOrder?: any;
+  @ApiProperty({ type: Object, required: false, description: 'QuoteResult of the last quote' })
+  lastQuoteResult?: QuoteResult | null;
+  @ApiProperty({ name: 'lastQuoteId', type: String, format: 'uuid', required: false })
+  lastQuoteId?: ObjectId | null;
+
+  @ApiProperty({ type: Date })
+  createdAt: Date;
+  @ApiProperty({ type: Date, required: false })
+  updatedAt?: Date;
+  @ApiProperty({ type: Date, required: false })
+  closedAt?: Date | null;
+}
@@ -1,14 +1,30 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
 import { Inject } from '@nestjs/common';
 import { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
-import { ApiKey } from '../models/mongodb.model';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, ApiKeyScope, PlanResource, PricingAgent } from '../models/mongodb.model';
+import { EntitlementService } from './entitlement.service';
+import { API_KEY_ROTATION_GRACE_HOURS } from '../config/api-key.config';
+import { ApiKeySecretUsageDto } from '../dtos/api-key-secret-usage.dto';
+
+// What an API key may do, allowedPricingAgentIds null for all of the tenant pricing agents
+export type ApiKeyAccess = {
+  scopes?: ApiKeyScope[];
+  allowedPricingAgentIds?: string[] | null;
+};
+
+// Hashes of the previous secrets are only read to validate and rotate keys, never returned
+const API_KEY_PROJECTION = { previousSecrets: 0 } as const;
 
 @Injectable()
 export class ApiKeyService {
   private readonly logger = new Logger(ApiKeyService.name);
 
-  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private db: Db,
+    private readonly entitlementService: EntitlementService,
+  ) {
     this.logger.log('ApiKeyService initialized');
   }
 
@@ -16,20 +32,30 @@ export class ApiKeyService {
     return this.db.collection<ApiKey>('api-keys');
   }
 
-  async createApiKey(tenantId: string, name: string, expiresAt?: Date): Promise<{ key: string; apiKey: ApiKey }> {
-    const rawKey = `ak_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+  async createApiKey(tenantId: string, name: string, expiresAt?: Date, access: ApiKeyAccess = {}): Promise<{ key: string; apiKey: ApiKey }> {
+    const allowedPricingAgentIds = await this.toAllowedPricingAgentIds(tenantId, access.allowedPricingAgentIds);
+
+    const rawKey = this.generateRawKey();
     const hashedKey = this.hashToken(rawKey);
 
     const apiKey: ApiKey = {
       name,
       key: hashedKey,
+      hint: this.hintOf(rawKey),
       tenantId: new ObjectId(tenantId),
       isActive: true,
       createdAt: new Date(),
       expiresAt,
+      scopes: access.scopes ?? Object.values(ApiKeyScope),
+      allowedPricingAgentIds,
     };
 
-    const result = await this.apiKeyCollection.insertOne(apiKey);
+    const result = await this.entitlementService.createWithinLimit(
+      tenantId,
+      PlanResource.API_KEYS,
+      () => this.countApiKeys(tenantId),
+      () => this.apiKeyCollection.insertOne(apiKey)
+    );
     const createdApiKey = {
       _id: result.insertedId,
       ...apiKey,
@@ -39,13 +65,20 @@ export class ApiKeyService {
     return { key: rawKey, apiKey: createdApiKey };
   }
 
+  async countApiKeys(tenantId: string): Promise<number> {
+    return this.apiKeyCollection.countDocuments({
+      tenantId: new ObjectId(tenantId),
+      deletedAt: null
+    });
+  }
+
   async findApiKeys(tenantId: string): Promise<ApiKey[]> {
     const filter = {
       tenantId: new ObjectId(tenantId),
       deletedAt: null
     };
 
-    const apiKeys = await this.apiKeyCollection.find(filter).toArray();
+    const apiKeys = await this.apiKeyCollection.find(filter, { projection: API_KEY_PROJECTION }).toArray();
     this.logger.log(`Found ${apiKeys.length} API keys for tenant: ${tenantId}`);
     return apiKeys;
   }
@@ -57,7 +90,7 @@ export class ApiKeyService {
       deletedAt: null
     };
 
-    const apiKey = await this.apiKeyCollection.findOne(filter);
+    const apiKey = await this.apiKeyCollection.findOne(filter, { projection: API_KEY_PROJECTION });
     if (apiKey) {
       this.logger.log(`Found API key: ${apiKey.name} (${id})`);
     } else {
@@ -66,14 +99,24 @@ export class ApiKeyService {
     return apiKey;
   }
 
-  async updateApiKey(id: string, tenantId: string, updateData: Partial<Pick<ApiKey, 'name' | 'isActive' | 'expiresAt'>>): Promise<ApiKey | null> {
+  async updateApiKey(
+    id: string,
+    tenantId: string,
+    updateData: Partial<Pick<ApiKey, 'name' | 'isActive' | 'expiresAt' | 'scopes'>> & Pick<ApiKeyAccess, 'allowedPricingAgentIds'>
+  ): Promise<ApiKey | null> {
     const filter = {
       _id: new ObjectId(id),
       tenantId: new ObjectId(tenantId),
       deletedAt: null
     };
 
-    await this.apiKeyCollection.updateOne(filter, { $set: updateData });
+    const { allowedPricingAgentIds, ...update } = updateData;
+    const $set: Partial<ApiKey> = { ...update };
+    if (allowedPricingAgentIds !== undefined) {
+      $set.allowedPricingAgentIds = await this.toAllowedPricingAgentIds(tenantId, allowedPricingAgentIds);
+    }
+
+    await this.apiKeyCollection.updateOne(filter, { $set });
     const updatedApiKey = await this.findOneApiKey(id, tenantId);
 
     if (updatedApiKey) {
@@ -85,6 +128,80 @@ export class ApiKeyService {
     return updatedApiKey;
   }
 
+  /**
+   * Issues a new secret for the key. The current secret stays valid for the grace period so the
+   * clients can switch over, the key keeps its ID, scopes and allowed pricing agents.
+   */
+  async rotateApiKey(id: string, tenantId: string, gracePeriodHours = API_KEY_ROTATION_GRACE_HOURS): Promise<{ key: string; apiKey: ApiKey } | null> {
+    const apiKey = await this.findApiKeyWithSecrets(id, tenantId);
+    if (!apiKey) {
+      return null;
+    }
+
+    const now = new Date();
+    const rawKey = this.generateRawKey();
+    const previousSecrets = (apiKey.previousSecrets ?? []).filter(secret => secret.expiresAt > now);
+    if (gracePeriodHours > 0) {
+      previousSecrets.push({
+        key: apiKey.key,
+        hint: apiKey.hint,
+        createdAt: apiKey.rotatedAt ?? apiKey.createdAt,
+        lastUsedAt: apiKey.lastUsedAt,
+        expiresAt: new Date(now.getTime() + gracePeriodHours * 60 * 60 * 1000),
+      });
+    }
+
+    // Only rotate the secret that was read, so concurrent rotations cannot drop a valid secret
+    const result = await this.apiKeyCollection.updateOne(
+      { _id: apiKey._id, key: apiKey.key, deletedAt: null },
+      {
+        $set: { key: this.hashToken(rawKey), hint: this.hintOf(rawKey), rotatedAt: now, previousSecrets },
+        $unset: { lastUsedAt: '' },
+      }
+    );
+    if (result.matchedCount === 0) {
+      throw new ConflictException('API key was rotated concurrently');
+    }
+
+    this.logger.log(`Rotated API key: ${apiKey.name} (${id}), previous secret valid for ${gracePeriodHours} hours`);
+    return { key: rawKey, apiKey: (await this.findOneApiKey(id, tenantId))! };
+  }
+
+  /**
+   * Lists the secrets the key accepts with when they were last used, to tell whether clients still use a previous secret
+   */
+  async getApiKeySecretUsage(id: string, tenantId: string): Promise<ApiKeySecretUsageDto[] | null> {
+    const apiKey = await this.findApiKeyWithSecrets(id, tenantId);
+    if (!apiKey) {
+      return null;
+    }
+
+    const now = new Date();
+    const rotatedAt = apiKey.rotatedAt ?? apiKey.createdAt;
+    const inUse = (lastUsedAt?: Date | null) => !!lastUsedAt && lastUsedAt >= rotatedAt;
+
+    return [
+      {
+        hint: apiKey.hint,
+        current: true,
+        createdAt: rotatedAt,
+        lastUsedAt: apiKey.lastUsedAt ?? undefined,
+        inUse: inUse(apiKey.lastUsedAt),
+        expiresAt: apiKey.expiresAt ?? undefined,
+      },
+      ...(apiKey.previousSecrets ?? [])
+        .filter(secret => secret.expiresAt > now)
+        .map(secret => ({
+          hint: secret.hint,
+          current: false,
+          createdAt: secret.createdAt,
+          lastUsedAt: secret.lastUsedAt ?? undefined,
+          inUse: inUse(secret.lastUsedAt),
+          expiresAt: secret.expiresAt,
+        })),
+    ];
+  }
+
   async deleteApiKey(id: string, tenantId: string): Promise<boolean> {
     const filter = {
       _id: new ObjectId(id),
@@ -104,34 +221,88 @@ export class ApiKeyService {
     return deleted;
   }
 
-  async validateApiKey(hashedToken: string): Promise<ApiKey | null> {
-    //const hashedToken = this.hashToken(rawKey);
+  /**
+   * Finds the active key of a raw API key sent by a client, only hashes of the secrets are stored
+   */
+  async validateApiKey(rawKey: string): Promise<ApiKey | null> {
+    const hashedToken = this.hashToken(rawKey);
+    const now = new Date();
     const apiKey = await this.apiKeyCollection.findOne({
-      key: hashedToken,
       isActive: true,
       deletedAt: null,
-      $or: [
-        { expiresAt: { $exists: false } },
-        { expiresAt: { $eq: null } } as any,
-        { expiresAt: { $gt: new Date() } }
+      $and: [
+        {
+          $or: [
+            { key: hashedToken },
+            // Previous secret of a rotated key, within its grace period
+            { previousSecrets: { $elemMatch: { key: hashedToken, expiresAt: { $gt: now } } } }
+          ]
+        },
+        {
+          $or: [
+            { expiresAt: { $exists: false } },
+            { expiresAt: { $eq: null } } as any,
+            { expiresAt: { $gt: now } }
+          ]
+        }
       ]
     });
 
     if (apiKey) {
-      // Update last used timestamp
-      await this.apiKeyCollection.updateOne(
-        { _id: apiKey._id },
-        { $set: { lastUsedAt: new Date() } }
-      );
-    } else {
-      console.debug(`validateApiKey token=${hashedToken} not found`);
+      // Update last used timestamp of the secret
+      if (apiKey.key === hashedToken) {
+        await this.apiKeyCollection.updateOne(
+          { _id: apiKey._id },
+          { $set: { lastUsedAt: now } }
+        );
+      } else {
+        await this.apiKeyCollection.updateOne(
+          { _id: apiKey._id, 'previousSecrets.key': hashedToken },
+          { $set: { 'previousSecrets.$.lastUsedAt': now } }
+        );
+      }
     }
 
     return apiKey;
   }
 
+  private async findApiKeyWithSecrets(id: string, tenantId: string): Promise<ApiKey | null> {
+    return this.apiKeyCollection.findOne({
+      _id: new ObjectId(id),
+      tenantId: new ObjectId(tenantId),
+      deletedAt: null
+    });
+  }
+
+  /**
+   * Checks that the pricing agents a key is restricted to belong to the tenant
+   */
+  private async toAllowedPricingAgentIds(tenantId: string, pricingAgentIds?: string[] | null): Promise<ObjectId[] | null> {
+    if (!pricingAgentIds) {
+      return null;
+    }
+
+    const ids = [...new Set(pricingAgentIds)].map(pricingAgentId => new ObjectId(pricingAgentId));
+    const found = await this.db.collection<PricingAgent>('pricing-agents').countDocuments({
+      _id: { $in: ids },
+      tenantId,
+      deletedAt: null
+    });
+    if (found !== ids.length) {
+      throw new Error('Pricing agent not found');
+    }
+    return ids;
+  }
+
+  private generateRawKey(): string {
+    return `ak_${randomBytes(32).toString('base64url')}`;
+  }
+
+  private hintOf(rawKey: string): string {
+    return rawKey.slice(-4);
+  }
+
   private hashToken(token: string): string {
-    const { createHash } = require('crypto');
     return createHash('sha256').update(token).digest('hex');
   }
 }
@@ -0,0 +1,159 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Db, ObjectId, Filter } from 'mongodb';
+import { ChatSession, ChatSessionStatus, QuoteSource } from '../models/mongodb.model';
+import { ConversationQuoteService, PricingAgentNotFoundError } from './conversation-quote.service';
+import { PricingAgentService } from './pricing-agent.service';
+import { IntegrationChatSessionResponseDto } from '../dtos/integration-quote.dto';
+import { SendChatSessionMessageDto } from '../dtos/chat-session.dto';
+
+type ChatSessionFilter = Filter<ChatSession>;
+
+export class ChatSessionClosedError extends Error {
+  constructor() {
+    super('Chat session is closed');
+    this.name = 'ChatSessionClosedError';
+  }
+}
+
+/**
+ * Service for the conversations of the integrations chat endpoint kept on the server.
+ *
+ * A session stores the message history with the structured order and the result of the
+ * last quote, so clients only send the new message and the order of the previous turn is
+ * updated instead of being converted again from the whole conversation. A session can
+ * only be continued with the API key it was created with.
+ */
+@Injectable()
+export class ChatSessionService {
+  private readonly logger = new Logger(ChatSessionService.name);
+
+  constructor(
+    @Inject('DATABASE_CONNECTION') private db: Db,
+    private readonly conversationQuoteService: ConversationQuoteService,
+    private readonly pricingAgentService: PricingAgentService,
+  ) {
+    this.logger.log('ChatSessionService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<ChatSession>('chat-sessions');
+  }
+
+  private buildChatSessionFilter(tenantId?: string, additionalFilters: Partial<ChatSessionFilter> = {}): ChatSessionFilter {
+    const filter: ChatSessionFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  async createSession(pricingAgentId: string, apiKeyId: string, tenantId?: string): Promise<ChatSession> {
+    this.logger.log(`Creating chat session for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const agent = await this.pricingAgentService.findOnePricingAgent(pricingAgentId, tenantId);
+      if (!agent) {
+        throw new PricingAgentNotFoundError();
+      }
+
+      const session: ChatSession = {
+        tenantId,
+        pricingAgentId: new ObjectId(pricingAgentId),
+        apiKeyId: new ObjectId(apiKeyId),
+        status: ChatSessionStatus.OPEN,
+        messages: [],
+        structuredOrder: null,
+        lastQuoteResult: null,
+        lastQuoteId: null,
+        createdAt: new Date(),
+        closedAt: null,
+      };
+
+      const result = await this.collection.insertOne(session);
+      this.logger.log(`Successfully created chat session: ${result.insertedId}`);
+      return { _id: result.insertedId, ...session };
+    } catch (error) {
+      this.logger.error(`Failed to create chat session for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findOneSession(sessionId: string, pricingAgentId: string, apiKeyId: string, tenantId?: string): Promise<ChatSession | null> {
+    return this.collection.findOne(this.buildChatSessionFilter(tenantId, {
+      _id: new ObjectId(sessionId),
+      pricingAgentId: new ObjectId(pricingAgentId),
+      apiKeyId: new ObjectId(apiKeyId),
+    }));
+  }
+
+  /**
+   * Quotes the session conversation with the new message, then appends the message and the answer to the session
+   */
+  async sendMessage(session: ChatSession, message: SendChatSessionMessageDto, tenantId?: string): Promise<IntegrationChatSessionResponseDto> {
+    this.logger.log(`Sending message to chat session: ${session._id} for tenant: ${tenantId}`);
+
+    try {
+      if (session.status === ChatSessionStatus.CLOSED) {
+        throw new ChatSessionClosedError();
+      }
+
+      const userMessageAt = new Date();
+      const result = await this.conversationQuoteService.quoteConversation({
+        pricingAgentId: session.pricingAgentId.toString(),
+        input: message.input,
+        conversation: session.messages.map(({ message, role }) => ({ message, role })),
+        currentStructuredOrder: session.structuredOrder ?? undefined,
+        locale: message.locale,
+        currency: message.currency,
+        source: QuoteSource.CHAT,
+        apiKeyId: session.apiKeyId?.toString(),
+      }, tenantId);
+
+      // A turn that asks for missing fields updates the order but keeps the last quote
+      const now = new Date();
+      const update = await this.collection.updateOne(
+        { _id: session._id, status: ChatSessionStatus.OPEN },
+        {
+          $push: {
+            messages: {
+              $each: [
+                { message: message.input, role: 'User', createdAt: userMessageAt },
+                { message: result.aiMessage, role: 'AI', createdAt: now },
+              ],
+            },
+          },
+          $set: {
+            structuredOrder: result.structuredOrder,
+            ...(result.quoteId ? { lastQuoteResult: result.functionResult, lastQuoteId: new ObjectId(result.quoteId) } : {}),
+            updatedAt: now,
+          },
+        }
+      );
+      if (update.matchedCount === 0) {
+        this.logger.warn(`Chat session ${session._id} was closed while quoting, the message was not stored`);
+      }
+
+      return { ...result, sessionId: session._id!.toString() };
+    } catch (error) {
+      this.logger.error(`Failed to send message to chat session ${session._id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async closeSession(session: ChatSession): Promise<ChatSession> {
+    this.logger.log(`Closing chat session: ${session._id}`);
+
+    try {
+      const now = new Date();
+      const closed = await this.collection.findOneAndUpdate(
+        { _id: session._id },
+        { $set: { status: ChatSessionStatus.CLOSED, closedAt: session.closedAt ?? now, updatedAt: now } },
+        { returnDocument: 'after' }
+      );
+      return closed!;
+    } catch (error) {
+      this.logger.error(`Failed to close chat session ${session._id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
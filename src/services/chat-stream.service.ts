@@ -0,0 +1,68 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { Response } from 'express';
+import { ChatStreamEvent } from '../dtos/chat-stream-event.dto';
+
+/**
+ * Sends the events of the streaming chat endpoints as Server-Sent Events.
+ *
+ * The first event is produced before the response starts, so failed lookups and validations are
+ * still answered with their status code. Errors after that are sent as an `error` event, and the
+ * events stop being produced when the client disconnects.
+ */
+@Injectable()
+export class ChatStreamService {
+  private readonly logger = new Logger(ChatStreamService.name);
+
+  constructor() {
+    this.logger.log('ChatStreamService initialized');
+  }
+
+  async send(
+    response: Response,
+    events: AsyncGenerator<ChatStreamEvent>,
+    toHttpException: (error: any) => HttpException
+  ): Promise<void> {
+    let next: IteratorResult<ChatStreamEvent>;
+    try {
+      next = await events.next();
+    } catch (error) {
+      throw toHttpException(error);
+    }
+
+    response.status(HttpStatus.OK);
+    response.setHeader('Content-Type', 'text/event-stream');
+    response.setHeader('Cache-Control', 'no-cache');
+    response.setHeader('Connection', 'keep-alive');
+    response.setHeader('X-Accel-Buffering', 'no');
+    response.flushHeaders();
+
+    let disconnected = false;
+    response.on('close', () => {
+      disconnected = true;
+    });
+
+    try {
+      while (!next.done) {
+        if (disconnected) {
+          this.logger.log('Client disconnected, stopping the chat stream');
+          await events.return(undefined);
+          return;
+        }
+        this.write(response, next.value);
+        next = await events.next();
+      }
+    } catch (error) {
+      const httpException = toHttpException(error);
+      this.write(response, {
+        event: 'error',
+        data: { statusCode: httpException.getStatus(), message: httpException.message },
+      });
+    } finally {
+      response.end();
+    }
+  }
+
+  private write(response: Response, { event, data }: ChatStreamEvent): void {
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Message } from '../chatwoot/client';
+import { BacktraceCalculationStep, HandoffRules, QuoteError, QuoteResult, QuoteSource, RunnerException } from '../models/mongodb.model';
+import { ChatbotMessage } from '../dtos/playground-execution.dto';
+import { IntegrationConversationResponseDto } from '../dtos/integration-quote.dto';
+import { ChatwootService } from './chatwoot.service';
+import { ChatwootConversationStateService } from './chatwoot-conversation-state.service';
+import { ConversationQuoteService, PricingExecutionError } from './conversation-quote.service';
+import { PricingAgentService } from './pricing-agent.service';
+
+/**
+ * The part of a Chatwoot agent bot event payload used to answer a conversation.
+ * See https://www.chatwoot.com/docs/product/others/agent-bots
+ */
+export type ChatwootWebhookEvent = {
+  event: string;
+  id?: number;
+  content?: string | null;
+  message_type?: 'incoming' | 'outgoing' | 'activity' | 'template';
+  private?: boolean;
+  account?: { id: number };
+  inbox?: { id: number };
+  conversation?: { id: number; status?: string };
+};
+
+// What the agents see in the private note left on a handed off conversation
+type HandoffDetails = {
+  reason: string;
+  structuredOrder?: any;
+  errors?: QuoteError[];
+  backtrace?: BacktraceCalculationStep;
+  runnerException?: RunnerException;
+  draftReply?: string;
+};
+
+// Numeric message types returned by the Chatwoot messages API
+const CHATWOOT_INCOMING_MESSAGE = 0;
+const CHATWOOT_OUTGOING_MESSAGE = 1;
+
+/**
+ * Answers Chatwoot conversations handled by an agent bot with quotes from a pricing agent.
+ *
+ * The conversation history is read back from Chatwoot, priced with the agent's deployed
+ * checkpoint and the generated reply is posted to the conversation as the bot. When the
+ * agent's handoff rules match, the reply is not sent: the conversation is opened for the
+ * human agents, optionally assigned to a team, with a private note explaining why.
+ */
+@Injectable()
+export class ChatwootAgentBotService {
+  private readonly logger = new Logger(ChatwootAgentBotService.name);
+
+  constructor(
+    private readonly chatwootService: ChatwootService,
+    private readonly conversationQuoteService: ConversationQuoteService,
+    private readonly conversationStateService: ChatwootConversationStateService,
+    private readonly pricingAgentService: PricingAgentService,
+  ) {
+    this.logger.log('ChatwootAgentBotService initialized');
+  }
+
+  /**
+   * Whether the event is a customer message the bot should answer.
+   * Chatwoot keeps conversations handled by a bot pending until a human agent takes them over.
+   */
+  shouldAnswer(event: ChatwootWebhookEvent): boolean {
+    return event.event === 'message_created'
+      && event.message_type === 'incoming'
+      && !event.private
+      && !!event.content?.trim()
+      && !!event.account?.id
+      && !!event.conversation?.id
+      && event.conversation.status === 'pending';
+  }
+
+  async answerConversation(pricingAgentId: string, event: ChatwootWebhookEvent, tenantId: string, apiKeyId?: string): Promise<void> {
+    const accountId = event.account!.id;
+    const conversationId = event.conversation!.id;
+    this.logger.log(`Answering Chatwoot conversation: ${conversationId} with agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const agent = await this.pricingAgentService.findOnePricingAgent(pricingAgentId, tenantId);
+      const rules = agent?.handoffRules?.enabled ? agent.handoffRules : null;
+
+      const messages = await this.chatwootService.listConversationMessages(tenantId, accountId, conversationId);
+      const conversation = this.toChatbotMessages(messages.filter(message => message.id !== event.id));
+
+      let result: IntegrationConversationResponseDto;
+      try {
+        result = await this.conversationQuoteService.quoteConversation({
+          pricingAgentId,
+          input: event.content!,
+          conversation,
+          source: QuoteSource.CHATWOOT,
+          apiKeyId,
+        }, tenantId);
+      } catch (error) {
+        if (rules?.handOffOnException && error instanceof PricingExecutionError) {
+          await this.handOff(tenantId, accountId, conversationId, rules, {
+            reason: `The pricing function failed with ${error.runnerException.code}`,
+            structuredOrder: error.structuredOrder,
+            runnerException: error.runnerException,
+          });
+          return;
+        }
+        throw error;
+      }
+
+      // Handoff rules apply to quotes, the follow-up questions for missing order fields are sent as they are
+      const functionResult = result.functionResult;
+      const handoffReason = rules && functionResult ? await this.evaluateHandoffRules(rules, functionResult, tenantId, accountId, conversationId) : null;
+      if (handoffReason) {
+        await this.handOff(tenantId, accountId, conversationId, rules!, {
+          reason: handoffReason,
+          structuredOrder: result.structuredOrder,
+          errors: functionResult!.errors,
+          backtrace: functionResult!.pricingCalculationBacktrace,
+          draftReply: result.aiMessage,
+        });
+        return;
+      }
+
+      await this.chatwootService.sendMessage(tenantId, accountId, conversationId, result.aiMessage);
+      this.logger.log(`Successfully answered Chatwoot conversation: ${conversationId} with quote: ${result.quoteId}`);
+    } catch (error) {
+      this.logger.error(`Failed to answer Chatwoot conversation ${conversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns why the conversation should be handed off after a quote, null to keep the bot answering
+   */
+  private async evaluateHandoffRules(
+    rules: HandoffRules,
+    functionResult: QuoteResult,
+    tenantId: string,
+    accountId: number,
+    conversationId: number
+  ): Promise<string | null> {
+    const failedCodes = [...new Set((functionResult.errors ?? [])
+      .map(error => error.code)
+      .filter(code => rules.errorCodes.includes(code)))];
+
+    if (failedCodes.length > 0) {
+      const failedAttempts = await this.conversationStateService.recordFailedAttempt(accountId, conversationId, tenantId);
+      if (failedAttempts >= rules.maxFailedAttempts) {
+        return `Quoting failed ${failedAttempts} times in a row with ${failedCodes.join(', ')}`;
+      }
+      return null;
+    }
+
+    await this.conversationStateService.resetFailedAttempts(accountId, conversationId, tenantId);
+
+    const total = functionResult.total;
+    if (rules.totalAbove !== null && rules.totalAbove !== undefined && typeof total === 'number' && total > rules.totalAbove) {
+      return `The quoted total ${total} is above the handoff threshold of ${rules.totalAbove}`;
+    }
+    return null;
+  }
+
+  private async handOff(tenantId: string, accountId: number, conversationId: number, rules: HandoffRules, details: HandoffDetails): Promise<void> {
+    this.logger.log(`Handing off Chatwoot conversation: ${conversationId} for tenant: ${tenantId}: ${details.reason}`);
+
+    await this.chatwootService.sendMessage(tenantId, accountId, conversationId, this.buildHandoffNote(details), true);
+    if (rules.chatwootTeamId) {
+      await this.chatwootService.assignConversationToTeam(tenantId, accountId, conversationId, rules.chatwootTeamId);
+    }
+    await this.chatwootService.openConversation(tenantId, accountId, conversationId);
+    await this.conversationStateService.recordHandoff(accountId, conversationId, details.reason, tenantId);
+
+    this.logger.log(`Successfully handed off Chatwoot conversation: ${conversationId}`);
+  }
+
+  private buildHandoffNote(details: HandoffDetails): string {
+    const sections = [`Handed over by the pricing bot: ${details.reason}`];
+
+    if (details.structuredOrder !== undefined) {
+      sections.push(`Structured order:\n${JSON.stringify(details.structuredOrder, null, 2)}`);
+    }
+    if (details.errors?.length) {
+      sections.push(`Errors:\n${details.errors.map(error => `- ${error.code}: ${error.message}`).join('\n')}`);
+    }
+    if (details.backtrace) {
+      sections.push(`Backtrace:\n${this.formatBacktrace(details.backtrace)}`);
+    }
+    if (details.runnerException) {
+      sections.push(`Exception:\n${details.runnerException.code}: ${details.runnerException.message}`);
+    }
+    if (details.draftReply) {
+      sections.push(`Draft reply (not sent):\n${details.draftReply}`);
+    }
+    return sections.join('\n\n');
+  }
+
+  private formatBacktrace(step: BacktraceCalculationStep, depth: number = 0): string {
+    const line = `${'  '.repeat(depth)}- ${step.operation}: ${step.description}`;
+    return [line, ...(step.subTasks ?? []).map(subTask => this.formatBacktrace(subTask, depth + 1))].join('\n');
+  }
+
+  /**
+   * Maps the public messages of a Chatwoot conversation to chatbot messages, oldest first.
+   * Private notes and activity messages are left out.
+   */
+  private toChatbotMessages(messages: Message[]): ChatbotMessage[] {
+    return messages
+      .filter(message => !message.private && message.content)
+      .filter(message => message.message_type === CHATWOOT_INCOMING_MESSAGE || message.message_type === CHATWOOT_OUTGOING_MESSAGE)
+      .sort((a, b) => (a.created_at ?? 0) - (b.created_at ?? 0))
+      .map(message => ({
+        message: message.content!,
+        role: message.message_type === CHATWOOT_INCOMING_MESSAGE ? 'User' : 'AI',
+      }));
+  }
+}
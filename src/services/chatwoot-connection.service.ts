@@ -0,0 +1,143 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChatwootService } from './chatwoot.service';
+import { ChatwootInboxRouteService } from './chatwoot-inbox-route.service';
+import { TenantService } from './tenant.service';
+import { ApiKeyService } from './api-key.service';
+import { ChatwootConnectionDto, ChatwootInboxDto } from '../dtos/chatwoot-connection.dto';
+import { ApiKeyScope } from '../models/mongodb.model';
+import { CHATWOOT_AGENT_BOT_NAME, PUBLIC_API_URL } from '../config/chatwoot.config';
+
+/**
+ * Connects a tenant to its Chatwoot account.
+ *
+ * Validates the configured host and user access token, provisions the agent bot whose
+ * outgoing URL is the routed webhook of this engine, and connects the bot to every
+ * active routed inbox. Connecting again reuses the bot and only syncs the inboxes; when
+ * the bot is provisioned again, the API key of the previous bot is revoked.
+ */
+@Injectable()
+export class ChatwootConnectionService {
+  private readonly logger = new Logger(ChatwootConnectionService.name);
+
+  constructor(
+    private readonly chatwootService: ChatwootService,
+    private readonly chatwootInboxRouteService: ChatwootInboxRouteService,
+    private readonly tenantService: TenantService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {
+    this.logger.log('ChatwootConnectionService initialized');
+  }
+
+  async connect(tenantId: string, requestedAccountId?: number): Promise<ChatwootConnectionDto> {
+    this.logger.log(`Connecting Chatwoot for tenant: ${tenantId}`);
+
+    try {
+      const configuration = await this.chatwootService.getChatwootConfiguration(tenantId);
+
+      // Validates chatwootHost and userApiKey against the Chatwoot API
+      const profile = await this.chatwootService.fetchUserProfile(tenantId);
+      const accounts = profile.accounts ?? [];
+      const accountId = requestedAccountId
+        ?? configuration.accountId
+        ?? accounts.find(account => account.role === 'administrator')?.id;
+
+      const account = accounts.find(candidate => candidate.id === accountId);
+      if (!accountId || !account) {
+        throw new Error('Chatwoot user does not belong to the requested account');
+      }
+      if (account.role !== 'administrator') {
+        throw new Error('Chatwoot user must be an administrator of the account');
+      }
+
+      let agentBotId = configuration.agentBotId;
+      const agentBotCreated = !agentBotId || !configuration.chatbotApiKey || configuration.accountId !== accountId;
+      if (agentBotCreated) {
+        agentBotId = await this.provisionAgentBot(tenantId, accountId, configuration.agentBotApiKeyId);
+      }
+
+      const inboxes = await this.chatwootService.listInboxes(tenantId, accountId);
+      const routes = await this.chatwootInboxRouteService.findRoutes(tenantId);
+      const routesByInbox = new Map(
+        routes
+          .filter(route => route.isActive && route.chatwootAccountId === accountId)
+          .map(route => [route.chatwootInboxId, route])
+      );
+
+      const inboxDtos: ChatwootInboxDto[] = [];
+      for (const inbox of inboxes) {
+        const route = inbox.id !== undefined ? routesByInbox.get(inbox.id) : undefined;
+        if (route) {
+          await this.chatwootService.setInboxAgentBot(tenantId, accountId, route.chatwootInboxId, agentBotId!);
+        }
+        inboxDtos.push({
+          id: inbox.id!,
+          name: inbox.name,
+          channelType: inbox.channel_type,
+          pricingAgentId: route?.pricingAgentId.toString(),
+          agentBotConnected: !!route,
+        });
+      }
+
+      this.logger.log(`Successfully connected Chatwoot account: ${accountId} with agent bot: ${agentBotId} for tenant: ${tenantId}`);
+      return {
+        accountId,
+        accountName: account.name,
+        agentBotId: agentBotId!,
+        agentBotCreated,
+        inboxes: inboxDtos,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to connect Chatwoot for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the agent bot with a dedicated API key in its outgoing URL and stores its access token.
+   * The key is revoked when the bot cannot be provisioned, the key of the previous bot once it is.
+   */
+  private async provisionAgentBot(tenantId: string, accountId: number, previousApiKeyId?: string): Promise<number> {
+    if (!PUBLIC_API_URL) {
+      throw new Error('PUBLIC_API_URL must be configured to provision the Chatwoot agent bot');
+    }
+
+    const { key, apiKey } = await this.apiKeyService.createApiKey(tenantId, `Chatwoot agent bot (account ${accountId})`, undefined, {
+      scopes: [ApiKeyScope.CHAT],
+    });
+    const apiKeyId = apiKey._id!.toString();
+    const outgoingUrl = `${PUBLIC_API_URL}/integrations/chatwoot/webhook?apiKey=${encodeURIComponent(key)}`;
+
+    try {
+      const agentBot = await this.chatwootService.createAgentBot(tenantId, accountId, CHATWOOT_AGENT_BOT_NAME, outgoingUrl);
+      if (!agentBot.id || !agentBot.access_token) {
+        throw new Error('Chatwoot did not return the agent bot access token');
+      }
+
+      await this.tenantService.updateTenantChatwootConnection(tenantId, {
+        accountId,
+        agentBotId: agentBot.id,
+        agentBotApiKeyId: apiKeyId,
+        chatbotApiKey: agentBot.access_token,
+      });
+
+      if (previousApiKeyId && previousApiKeyId !== apiKeyId) {
+        await this.revokeAgentBotApiKey(previousApiKeyId, tenantId);
+      }
+      return agentBot.id;
+    } catch (error) {
+      await this.revokeAgentBotApiKey(apiKeyId, tenantId);
+      throw error;
+    }
+  }
+
+  /**
+   * Failures are logged only, the key is left for the tenant to delete
+   */
+  private async revokeAgentBotApiKey(apiKeyId: string, tenantId: string): Promise<void> {
+    try {
+      await this.apiKeyService.deleteApiKey(apiKeyId, tenantId);
+    } catch (error) {
+      this.logger.warn(`Failed to revoke Chatwoot agent bot API key ${apiKeyId} for tenant ${tenantId}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Db, Filter } from 'mongodb';
+import { ChatwootConversationState } from '../models/mongodb.model';
+
+type ChatwootConversationStateFilter = Filter<ChatwootConversationState>;
+
+/**
+ * Service for the state the agent bot keeps per Chatwoot conversation.
+ *
+ * Counts the consecutive quotes that failed with a handoff error code and records
+ * when and why the conversation was handed over to a human.
+ */
+@Injectable()
+export class ChatwootConversationStateService {
+  private readonly logger = new Logger(ChatwootConversationStateService.name);
+
+  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+    this.logger.log('ChatwootConversationStateService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<ChatwootConversationState>('chatwoot-conversation-states');
+  }
+
+  private buildStateFilter(chatwootAccountId: number, chatwootConversationId: number, tenantId?: string): ChatwootConversationStateFilter {
+    const filter: ChatwootConversationStateFilter = { chatwootAccountId, chatwootConversationId };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  /**
+   * Counts a failed quote and returns the number of consecutive failed quotes
+   */
+  async recordFailedAttempt(chatwootAccountId: number, chatwootConversationId: number, tenantId?: string): Promise<number> {
+    this.logger.log(`Recording failed attempt for Chatwoot conversation: ${chatwootConversationId} for tenant: ${tenantId}`);
+
+    try {
+      const now = new Date();
+      const state = await this.collection.findOneAndUpdate(
+        this.buildStateFilter(chatwootAccountId, chatwootConversationId, tenantId),
+        {
+          $inc: { failedAttempts: 1 },
+          $set: { updatedAt: now },
+          $setOnInsert: { createdAt: now },
+        },
+        { upsert: true, returnDocument: 'after' }
+      );
+
+      return state!.failedAttempts;
+    } catch (error) {
+      this.logger.error(`Failed to record failed attempt for Chatwoot conversation ${chatwootConversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async resetFailedAttempts(chatwootAccountId: number, chatwootConversationId: number, tenantId?: string): Promise<void> {
+    try {
+      await this.collection.updateOne(
+        this.buildStateFilter(chatwootAccountId, chatwootConversationId, tenantId),
+        { $set: { failedAttempts: 0, updatedAt: new Date() } }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to reset failed attempts for Chatwoot conversation ${chatwootConversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the handoff and resets the failed attempts, so the bot starts over if the conversation is handed back
+   */
+  async recordHandoff(chatwootAccountId: number, chatwootConversationId: number, reason: string, tenantId?: string): Promise<void> {
+    this.logger.log(`Recording handoff of Chatwoot conversation: ${chatwootConversationId} for tenant: ${tenantId}`);
+
+    try {
+      const now = new Date();
+      await this.collection.updateOne(
+        this.buildStateFilter(chatwootAccountId, chatwootConversationId, tenantId),
+        {
+          $set: { failedAttempts: 0, handedOffAt: now, handoffReason: reason, updatedAt: now },
+          $setOnInsert: { createdAt: now },
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record handoff of Chatwoot conversation ${chatwootConversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { Db, ObjectId, Filter, MongoServerError } from 'mongodb';
+import { ChatwootInboxRoute } from '../models/mongodb.model';
+
+type ChatwootInboxRouteFilter = Filter<ChatwootInboxRoute>;
+
+export type ChatwootInboxRouteData = {
+  chatwootAccountId: number;
+  chatwootInboxId: number;
+  pricingAgentId: string;
+  isActive?: boolean;
+};
+
+/**
+ * Service for the Chatwoot inbox routes of a tenant.
+ *
+ * A route tells the agent bot webhook which pricing agent answers the conversations
+ * of a Chatwoot inbox. An inbox can be routed to a single agent at a time, which a
+ * unique index on the routes that are not deleted enforces for concurrent requests.
+ */
+@Injectable()
+export class ChatwootInboxRouteService implements OnModuleInit {
+  private readonly logger = new Logger(ChatwootInboxRouteService.name);
+
+  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+    this.logger.log('ChatwootInboxRouteService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<ChatwootInboxRoute>('chatwoot-inbox-routes');
+  }
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.collection.createIndex(
+        { tenantId: 1, chatwootAccountId: 1, chatwootInboxId: 1 },
+        { name: 'unique_routed_inbox', unique: true, partialFilterExpression: { deletedAt: { $type: 'null' } } }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to create the unique Chatwoot inbox route index: ${error.message}`, error.stack);
+    }
+  }
+
+  private buildRouteFilter(tenantId?: string, additionalFilters: Partial<ChatwootInboxRouteFilter> = {}): ChatwootInboxRouteFilter {
+    const filter: ChatwootInboxRouteFilter = { deletedAt: null, ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  async createRoute(data: ChatwootInboxRouteData, tenantId?: string): Promise<ChatwootInboxRoute> {
+    this.logger.log(`Creating Chatwoot route for inbox: ${data.chatwootInboxId} (account: ${data.chatwootAccountId}) for tenant: ${tenantId}`);
+
+    try {
+      await this.ensureInboxNotRouted(data.chatwootAccountId, data.chatwootInboxId, tenantId);
+
+      const route: ChatwootInboxRoute = {
+        tenantId,
+        chatwootAccountId: data.chatwootAccountId,
+        chatwootInboxId: data.chatwootInboxId,
+        pricingAgentId: new ObjectId(data.pricingAgentId),
+        isActive: data.isActive ?? true,
+        createdAt: new Date(),
+        deletedAt: null,
+      };
+
+      const result = await this.collection.insertOne(route).catch(error => this.rethrowDuplicateRoute(error));
+      this.logger.log(`Successfully created Chatwoot route: ${result.insertedId}`);
+      return { ...route, _id: result.insertedId };
+    } catch (error) {
+      this.logger.error(`Failed to create Chatwoot route for inbox ${data.chatwootInboxId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findRoutes(tenantId?: string): Promise<ChatwootInboxRoute[]> {
+    this.logger.log(`Finding Chatwoot routes for tenant: ${tenantId}`);
+
+    try {
+      const routes = await this.collection
+        .find(this.buildRouteFilter(tenantId))
+        .sort({ chatwootAccountId: 1, chatwootInboxId: 1 })
+        .toArray();
+
+      this.logger.log(`Successfully retrieved ${routes.length} Chatwoot routes for tenant: ${tenantId}`);
+      return routes;
+    } catch (error) {
+      this.logger.error(`Failed to find Chatwoot routes for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findOneRoute(id: string, tenantId?: string): Promise<ChatwootInboxRoute | null> {
+    this.logger.log(`Finding Chatwoot route: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const route = await this.collection.findOne(this.buildRouteFilter(tenantId, { _id: new ObjectId(id) }));
+      if (!route) {
+        this.logger.warn(`Chatwoot route not found: ${id} for tenant: ${tenantId}`);
+      }
+      return route;
+    } catch (error) {
+      this.logger.error(`Failed to find Chatwoot route ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the active route of a Chatwoot inbox, used to pick the agent answering a webhook event
+   */
+  async findActiveRouteByInbox(chatwootAccountId: number, chatwootInboxId: number, tenantId?: string): Promise<ChatwootInboxRoute | null> {
+    this.logger.log(`Finding active Chatwoot route for inbox: ${chatwootInboxId} (account: ${chatwootAccountId}) for tenant: ${tenantId}`);
+
+    try {
+      return await this.collection.findOne(this.buildRouteFilter(tenantId, { chatwootAccountId, chatwootInboxId, isActive: true }));
+    } catch (error) {
+      this.logger.error(`Failed to find Chatwoot route for inbox ${chatwootInboxId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async updateRoute(id: string, data: Partial<ChatwootInboxRouteData>, tenantId?: string): Promise<ChatwootInboxRoute | null> {
+    this.logger.log(`Updating Chatwoot route: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const existing = await this.findOneRoute(id, tenantId);
+      if (!existing) {
+        return null;
+      }
+
+      const chatwootAccountId = data.chatwootAccountId ?? existing.chatwootAccountId;
+      const chatwootInboxId = data.chatwootInboxId ?? existing.chatwootInboxId;
+      if (chatwootAccountId !== existing.chatwootAccountId || chatwootInboxId !== existing.chatwootInboxId) {
+        await this.ensureInboxNotRouted(chatwootAccountId, chatwootInboxId, tenantId);
+      }
+
+      const update: Partial<ChatwootInboxRoute> = {
+        chatwootAccountId,
+        chatwootInboxId,
+        updatedAt: new Date(),
+      };
+      if (data.pricingAgentId) {
+        update.pricingAgentId = new ObjectId(data.pricingAgentId);
+      }
+      if (data.isActive !== undefined) {
+        update.isActive = data.isActive;
+      }
+
+      const updated = await this.collection.findOneAndUpdate(
+        this.buildRouteFilter(tenantId, { _id: new ObjectId(id) }),
+        { $set: update },
+        { returnDocument: 'after' }
+      ).catch(error => this.rethrowDuplicateRoute(error));
+
+      this.logger.log(`Successfully updated Chatwoot route: ${id}`);
+      return updated;
+    } catch (error) {
+      this.logger.error(`Failed to update Chatwoot route ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteRoute(id: string, tenantId?: string): Promise<boolean> {
+    this.logger.log(`Deleting Chatwoot route: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const result = await this.collection.updateOne(
+        this.buildRouteFilter(tenantId, { _id: new ObjectId(id) }),
+        { $set: { deletedAt: new Date() } }
+      );
+
+      const deleted = result.modifiedCount > 0;
+      if (deleted) {
+        this.logger.log(`Successfully deleted Chatwoot route: ${id}`);
+      } else {
+        this.logger.warn(`Chatwoot route not found for deletion: ${id}`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(`Failed to delete Chatwoot route ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private async ensureInboxNotRouted(chatwootAccountId: number, chatwootInboxId: number, tenantId?: string): Promise<void> {
+    const existing = await this.collection.findOne(this.buildRouteFilter(tenantId, { chatwootAccountId, chatwootInboxId }));
+    if (existing) {
+      throw new Error('Chatwoot inbox is already routed to a pricing agent');
+    }
+  }
+
+  /**
+   * A route created concurrently for the same inbox fails on the unique index instead of the check above
+   */
+  private rethrowDuplicateRoute(error: any): never {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new Error('Chatwoot inbox is already routed to a pricing agent');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,233 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createClient, createConfig, type Client } from '../chatwoot/client/client';
+import {
+  assignAConversation,
+  createANewMessageInAConversation,
+  createAnAccountAgentBot,
+  fetchProfile,
+  listAllInboxes,
+  listAllMessages,
+  toggleStatusOfAConversation,
+  updateAgentBot,
+} from '../chatwoot/client';
+import type { AgentBot, ClientOptions, Inbox, Message, User } from '../chatwoot/client';
+import { ChatwootConfiguration } from '../models/mongodb.model';
+import { TenantService } from './tenant.service';
+
+// Credential of the tenant's Chatwoot configuration used to authenticate a call
+type ChatwootCredential = 'chatbotApiKey' | 'userApiKey';
+
+/**
+ * Thin wrapper around the generated Chatwoot client.
+ *
+ * A client is created for every call from the tenant's Chatwoot configuration. Conversation
+ * calls are authenticated with the agent bot access token, so replies show up in Chatwoot as
+ * sent by the bot, and account administration calls with the user access token.
+ */
+@Injectable()
+export class ChatwootService {
+  private readonly logger = new Logger(ChatwootService.name);
+
+  constructor(private readonly tenantService: TenantService) {
+    this.logger.log('ChatwootService initialized');
+  }
+
+  async getChatwootConfiguration(tenantId: string): Promise<ChatwootConfiguration> {
+    const tenant = await this.tenantService.getTenantByIdInternal(tenantId);
+    if (!tenant?.chatwootConfiguration?.chatwootHost) {
+      throw new Error('Chatwoot is not configured for this tenant');
+    }
+    return tenant.chatwootConfiguration;
+  }
+
+  private async createChatwootClient(tenantId: string, credential: ChatwootCredential): Promise<Client> {
+    const configuration = await this.getChatwootConfiguration(tenantId);
+    const token = configuration[credential];
+    if (!token) {
+      throw new Error(`Chatwoot ${credential} is not configured for this tenant`);
+    }
+
+    return createClient(createConfig<ClientOptions>({
+      baseUrl: configuration.chatwootHost,
+      auth: () => token,
+    }));
+  }
+
+  /**
+   * Unwraps the result of a generated SDK call, turning transport and HTTP errors into errors
+   */
+  private async send<T>(request: Promise<{ data?: T; error?: unknown; response?: Response }>): Promise<T> {
+    let result: { data?: T; error?: unknown; response?: Response };
+    try {
+      result = await request;
+    } catch (error) {
+      throw new Error(`Could not reach Chatwoot: ${error.message}`);
+    }
+
+    if (result.response?.status === 401) {
+      throw new Error('Chatwoot rejected the access token');
+    }
+    if (result.error !== undefined || !result.response?.ok) {
+      throw new Error(`Chatwoot responded with status ${result.response?.status}`);
+    }
+    return result.data as T;
+  }
+
+  /**
+   * Returns the latest messages of a conversation, oldest first
+   */
+  async listConversationMessages(tenantId: string, accountId: number, conversationId: number): Promise<Message[]> {
+    this.logger.log(`Listing messages of Chatwoot conversation: ${conversationId} (account: ${accountId}) for tenant: ${tenantId}`);
+
+    try {
+      const data = await this.send(listAllMessages({
+        client: await this.createChatwootClient(tenantId, 'chatbotApiKey'),
+        path: { account_id: accountId, conversation_id: conversationId },
+      }));
+
+      const messages = data.payload ?? [];
+      this.logger.log(`Successfully retrieved ${messages.length} messages of Chatwoot conversation: ${conversationId}`);
+      return messages;
+    } catch (error) {
+      this.logger.error(`Failed to list messages of Chatwoot conversation ${conversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Posts a message to a conversation, private notes are only visible to the agents
+   */
+  async sendMessage(tenantId: string, accountId: number, conversationId: number, content: string, isPrivate: boolean = false): Promise<void> {
+    this.logger.log(`Sending ${isPrivate ? 'private note' : 'message'} to Chatwoot conversation: ${conversationId} (account: ${accountId}) for tenant: ${tenantId}`);
+
+    try {
+      await this.send(createANewMessageInAConversation({
+        client: await this.createChatwootClient(tenantId, 'chatbotApiKey'),
+        path: { account_id: accountId, conversation_id: conversationId },
+        body: {
+          content,
+          message_type: 'outgoing',
+          private: isPrivate,
+        },
+      }));
+
+      this.logger.log(`Successfully sent message to Chatwoot conversation: ${conversationId}`);
+    } catch (error) {
+      this.logger.error(`Failed to send message to Chatwoot conversation ${conversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a pending conversation, which hands it over from the agent bot to the human agents
+   */
+  async openConversation(tenantId: string, accountId: number, conversationId: number): Promise<void> {
+    this.logger.log(`Opening Chatwoot conversation: ${conversationId} (account: ${accountId}) for tenant: ${tenantId}`);
+
+    try {
+      await this.send(toggleStatusOfAConversation({
+        client: await this.createChatwootClient(tenantId, 'chatbotApiKey'),
+        path: { account_id: accountId, conversation_id: conversationId },
+        body: { status: 'open' },
+      }));
+
+      this.logger.log(`Successfully opened Chatwoot conversation: ${conversationId}`);
+    } catch (error) {
+      this.logger.error(`Failed to open Chatwoot conversation ${conversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async assignConversationToTeam(tenantId: string, accountId: number, conversationId: number, teamId: number): Promise<void> {
+    this.logger.log(`Assigning Chatwoot conversation: ${conversationId} (account: ${accountId}) to team: ${teamId} for tenant: ${tenantId}`);
+
+    try {
+      await this.send(assignAConversation({
+        client: await this.createChatwootClient(tenantId, 'chatbotApiKey'),
+        path: { account_id: accountId, conversation_id: conversationId },
+        body: { team_id: teamId },
+      }));
+
+      this.logger.log(`Successfully assigned Chatwoot conversation: ${conversationId} to team: ${teamId}`);
+    } catch (error) {
+      this.logger.error(`Failed to assign Chatwoot conversation ${conversationId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the Chatwoot user owning the configured user access token, with the accounts it belongs to
+   */
+  async fetchUserProfile(tenantId: string): Promise<User> {
+    this.logger.log(`Fetching Chatwoot user profile for tenant: ${tenantId}`);
+
+    try {
+      const profile = await this.send(fetchProfile({
+        client: await this.createChatwootClient(tenantId, 'userApiKey'),
+      }));
+
+      this.logger.log(`Successfully fetched Chatwoot user profile: ${profile.id}`);
+      return profile;
+    } catch (error) {
+      this.logger.error(`Failed to fetch Chatwoot user profile for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async listInboxes(tenantId: string, accountId: number): Promise<Inbox[]> {
+    this.logger.log(`Listing Chatwoot inboxes of account: ${accountId} for tenant: ${tenantId}`);
+
+    try {
+      const data = await this.send(listAllInboxes({
+        client: await this.createChatwootClient(tenantId, 'userApiKey'),
+        path: { account_id: accountId },
+      }));
+
+      const inboxes = data.payload ?? [];
+      this.logger.log(`Successfully retrieved ${inboxes.length} Chatwoot inboxes of account: ${accountId}`);
+      return inboxes;
+    } catch (error) {
+      this.logger.error(`Failed to list Chatwoot inboxes of account ${accountId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async createAgentBot(tenantId: string, accountId: number, name: string, outgoingUrl: string): Promise<AgentBot> {
+    this.logger.log(`Creating Chatwoot agent bot in account: ${accountId} for tenant: ${tenantId}`);
+
+    try {
+      const agentBot = await this.send(createAnAccountAgentBot({
+        client: await this.createChatwootClient(tenantId, 'userApiKey'),
+        path: { account_id: accountId },
+        body: {
+          name,
+          outgoing_url: outgoingUrl,
+          bot_type: 0, // webhook bot
+        },
+      }));
+
+      this.logger.log(`Successfully created Chatwoot agent bot: ${agentBot.id}`);
+      return agentBot;
+    } catch (error) {
+      this.logger.error(`Failed to create Chatwoot agent bot in account ${accountId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async setInboxAgentBot(tenantId: string, accountId: number, inboxId: number, agentBotId: number): Promise<void> {
+    this.logger.log(`Connecting Chatwoot agent bot: ${agentBotId} to inbox: ${inboxId} (account: ${accountId}) for tenant: ${tenantId}`);
+
+    try {
+      await this.send(updateAgentBot({
+        client: await this.createChatwootClient(tenantId, 'userApiKey'),
+        path: { account_id: accountId, id: inboxId },
+        body: { agent_bot: agentBotId },
+      }));
+
+      this.logger.log(`Successfully connected Chatwoot agent bot: ${agentBotId} to inbox: ${inboxId}`);
+    } catch (error) {
+      this.logger.error(`Failed to connect Chatwoot agent bot to inbox ${inboxId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
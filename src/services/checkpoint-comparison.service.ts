@@ -0,0 +1,295 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { formatPatch, structuredPatch } from 'diff';
+import { HumanInputMessage, PricingAgentCheckpoint, QuoteResult, RunnerException, TagEnum } from '../models/mongodb.model';
+import { PricingAgentService } from './pricing-agent.service';
+import { DynamicRunnerService } from './dynamic-runner.service';
+import { TestingDatasetService } from './testing-dataset.service';
+import { CheckpointDiffDto, InputMessageDiffEntryDto, InputMessagesDiffDto, ModifiedInputMessageDto, TagsDiffDto, TextDiffDto } from '../dtos/checkpoint-diff.dto';
+import { BehaviorDiffStatisticsDto, CheckpointBehaviorDiffDto, OrderBehaviorDiffDto } from '../dtos/checkpoint-behavior-diff.dto';
+import { CompareCheckpointsDto } from '../dtos/compare-checkpoints.dto';
+
+// Lines of unchanged context around each hunk of the unified diffs
+const DIFF_CONTEXT_LINES = 3;
+// Totals closer than this are considered unchanged
+const TOTAL_EPSILON = 1e-9;
+
+type ComparedOrder = {
+  input: any;
+  datasetTestId?: string;
+  description?: string;
+};
+
+type OrderExecution = {
+  result?: QuoteResult;
+  runnerException?: RunnerException;
+};
+
+/**
+ * Service comparing two checkpoints of a pricing agent.
+ *
+ * Checkpoints are full snapshots of the input messages, order schema and formula code,
+ * so a comparison shows reviewers what a regeneration changed before it is deployed:
+ * textually, and behaviorally by pricing identical orders with both formulas.
+ */
+@Injectable()
+export class CheckpointComparisonService {
+  private readonly logger = new Logger(CheckpointComparisonService.name);
+
+  constructor(
+    private readonly pricingAgentService: PricingAgentService,
+    private readonly dynamicRunnerService: DynamicRunnerService,
+    private readonly testingDatasetService: TestingDatasetService,
+  ) {
+    this.logger.log('CheckpointComparisonService initialized');
+  }
+
+  /**
+   * Diffs two checkpoints of the same pricing agent, from the first to the second
+   */
+  async diffCheckpoints(pricingAgentId: string, fromCheckpointId: string, toCheckpointId: string, tenantId?: string): Promise<CheckpointDiffDto> {
+    this.logger.log(`Diffing checkpoints ${fromCheckpointId} and ${toCheckpointId} of agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const [fromCheckpoint, toCheckpoint] = await Promise.all([
+        this.findAgentCheckpoint(pricingAgentId, fromCheckpointId, tenantId),
+        this.findAgentCheckpoint(pricingAgentId, toCheckpointId, tenantId),
+      ]);
+
+      const diff: CheckpointDiffDto = {
+        pricingAgentId,
+        fromCheckpointId,
+        toCheckpointId,
+        functionSchema: this.diffText('functionSchema.ts', fromCheckpoint.functionSchema, toCheckpoint.functionSchema),
+        functionCode: this.diffText('functionCode.ts', fromCheckpoint.functionCode, toCheckpoint.functionCode),
+        inputMessages: this.diffInputMessages(fromCheckpoint.humanInputMessages, toCheckpoint.humanInputMessages),
+        tags: this.diffTags(fromCheckpoint.humanInputMessages, toCheckpoint.humanInputMessages),
+      };
+
+      this.logger.log(`Successfully diffed checkpoints ${fromCheckpointId} and ${toCheckpointId}`);
+      return diff;
+    } catch (error) {
+      this.logger.error(`Failed to diff checkpoints ${fromCheckpointId} and ${toCheckpointId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Prices the same orders with two checkpoints of a pricing agent and reports how the totals
+   * and error codes move from the first to the second
+   */
+  async compareBehavior(
+    pricingAgentId: string,
+    fromCheckpointId: string,
+    toCheckpointId: string,
+    options: CompareCheckpointsDto = {},
+    tenantId?: string
+  ): Promise<CheckpointBehaviorDiffDto> {
+    this.logger.log(`Comparing behavior of checkpoints ${fromCheckpointId} and ${toCheckpointId} of agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const [fromCheckpoint, toCheckpoint] = await Promise.all([
+        this.findAgentCheckpoint(pricingAgentId, fromCheckpointId, tenantId),
+        this.findAgentCheckpoint(pricingAgentId, toCheckpointId, tenantId),
+      ]);
+
+      if (!fromCheckpoint.functionSchema || !fromCheckpoint.functionCode || !toCheckpoint.functionSchema || !toCheckpoint.functionCode) {
+        throw new Error('Both checkpoints must have functionSchema and functionCode');
+      }
+
+      const inputSource = options.orders ? 'orders' : 'testset';
+      const orders = options.orders
+        ? options.orders.map(input => ({ input }))
+        : await this.findTestsetOrders(fromCheckpoint, toCheckpoint, options.datasetId);
+
+      if (orders.length === 0) {
+        throw new Error('No orders to compare');
+      }
+
+      // Executed one after another so a large comparison never holds the whole sandbox pool needed by live quotes
+      const orderDiffs: OrderBehaviorDiffDto[] = [];
+      for (const [index, order] of orders.entries()) {
+        const fromExecution = await this.executeOrder(fromCheckpoint, order.input);
+        const toExecution = await this.executeOrder(toCheckpoint, order.input);
+        orderDiffs.push(this.diffOrderExecutions(index, order, fromExecution, toExecution));
+      }
+
+      const report: CheckpointBehaviorDiffDto = {
+        pricingAgentId,
+        fromCheckpointId,
+        toCheckpointId,
+        inputSource,
+        orders: orderDiffs,
+        statistics: this.summarizeOrderDiffs(orderDiffs),
+      };
+
+      this.logger.log(`Successfully compared ${orderDiffs.length} orders, ${report.statistics.increasedCount + report.statistics.decreasedCount} totals changed`);
+      return report;
+    } catch (error) {
+      this.logger.error(`Failed to compare behavior of checkpoints ${fromCheckpointId} and ${toCheckpointId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private async findAgentCheckpoint(pricingAgentId: string, checkpointId: string, tenantId?: string): Promise<PricingAgentCheckpoint> {
+    const checkpoint = await this.pricingAgentService.findOneCheckpoint(checkpointId, tenantId);
+    if (!checkpoint || checkpoint.pricingAgentId.toString() !== pricingAgentId) {
+      throw new Error('Checkpoint not found');
+    }
+    return checkpoint;
+  }
+
+  private diffText(fileName: string, oldText: string = '', newText: string = ''): TextDiffDto {
+    if (oldText === newText) {
+      return { changed: false, unifiedDiff: '', additions: 0, deletions: 0 };
+    }
+
+    const patch = structuredPatch(fileName, fileName, oldText, newText, undefined, undefined, { context: DIFF_CONTEXT_LINES });
+    const lines = patch.hunks.flatMap(hunk => hunk.lines);
+
+    return {
+      changed: true,
+      unifiedDiff: formatPatch(patch),
+      additions: lines.filter(line => line.startsWith('+')).length,
+      deletions: lines.filter(line => line.startsWith('-')).length,
+    };
+  }
+
+  private diffInputMessages(oldMessages: HumanInputMessage[] = [], newMessages: HumanInputMessage[] = []): InputMessagesDiffDto {
+    const oldById = new Map(this.activeMessages(oldMessages).map(message => [message.id, message]));
+    const newById = new Map(this.activeMessages(newMessages).map(message => [message.id, message]));
+
+    const added = [...newById.values()].filter(message => !oldById.has(message.id)).map(message => this.toDiffEntry(message));
+    const removed = [...oldById.values()].filter(message => !newById.has(message.id)).map(message => this.toDiffEntry(message));
+
+    const modified: ModifiedInputMessageDto[] = [];
+    for (const [id, newMessage] of newById) {
+      const oldMessage = oldById.get(id);
+      if (!oldMessage) {
+        continue;
+      }
+
+      const oldTags = oldMessage.tags ?? [];
+      const newTags = newMessage.tags ?? [];
+      const addedTags = newTags.filter(tag => !oldTags.includes(tag));
+      const removedTags = oldTags.filter(tag => !newTags.includes(tag));
+
+      if (oldMessage.message !== newMessage.message || addedTags.length > 0 || removedTags.length > 0) {
+        modified.push({ id, previousMessage: oldMessage.message, message: newMessage.message, addedTags, removedTags });
+      }
+    }
+
+    return { added, removed, modified };
+  }
+
+  private diffTags(oldMessages: HumanInputMessage[] = [], newMessages: HumanInputMessage[] = []): TagsDiffDto {
+    const oldTags = this.collectTags(oldMessages);
+    const newTags = this.collectTags(newMessages);
+
+    return {
+      added: [...newTags].filter(tag => !oldTags.has(tag)),
+      removed: [...oldTags].filter(tag => !newTags.has(tag)),
+    };
+  }
+
+  private activeMessages(messages: HumanInputMessage[]): HumanInputMessage[] {
+    return messages.filter(message => !message.deletedAt);
+  }
+
+  private collectTags(messages: HumanInputMessage[]): Set<TagEnum> {
+    return new Set(this.activeMessages(messages).flatMap(message => message.tags ?? []));
+  }
+
+  private toDiffEntry(message: HumanInputMessage): InputMessageDiffEntryDto {
+    return { id: message.id, message: message.message, tags: message.tags ?? [] };
+  }
+
+  /**
+   * Structured inputs of the first checkpoint's testset, or of the second one when the
+   * first has no testset (e.g. when comparing against a checkpoint created before testing)
+   */
+  private async findTestsetOrders(fromCheckpoint: PricingAgentCheckpoint, toCheckpoint: PricingAgentCheckpoint, datasetId?: string): Promise<ComparedOrder[]> {
+    for (const checkpoint of [fromCheckpoint, toCheckpoint]) {
+      const testset = await this.testingDatasetService.getCheckpointTestset(checkpoint);
+      const tests = [...(testset.happyPathTests ?? []), ...(testset.unhappyPathTests ?? [])]
+        .filter(test => !datasetId || test.datasetId.toString() === datasetId);
+
+      if (tests.length > 0) {
+        return tests.map(test => ({
+          input: test.functionInputParams,
+          datasetTestId: test.datasetTestId.toString(),
+          description: test.testData.orderInputNaturalLanguage,
+        }));
+      }
+    }
+    return [];
+  }
+
+  private async executeOrder(checkpoint: PricingAgentCheckpoint, input: any): Promise<OrderExecution> {
+    try {
+      const result = await this.dynamicRunnerService.executePricingFunction(
+        checkpoint.functionCode!,
+        checkpoint.functionSchema,
+        input,
+        checkpoint._id!.toString()
+      );
+      return { result };
+    } catch (error) {
+      return { runnerException: this.dynamicRunnerService.toRunnerException(error) };
+    }
+  }
+
+  private diffOrderExecutions(index: number, order: ComparedOrder, fromExecution: OrderExecution, toExecution: OrderExecution): OrderBehaviorDiffDto {
+    const fromTotal = fromExecution.result?.total;
+    const toTotal = toExecution.result?.total;
+    const fromErrorCodes = [...new Set((fromExecution.result?.errors ?? []).map(error => error.code))];
+    const toErrorCodes = [...new Set((toExecution.result?.errors ?? []).map(error => error.code))];
+
+    const orderDiff: OrderBehaviorDiffDto = {
+      index,
+      datasetTestId: order.datasetTestId,
+      description: order.description,
+      input: order.input,
+      fromTotal,
+      toTotal,
+      fromErrorCodes,
+      toErrorCodes,
+      appearedErrorCodes: toErrorCodes.filter(code => !fromErrorCodes.includes(code)),
+      disappearedErrorCodes: fromErrorCodes.filter(code => !toErrorCodes.includes(code)),
+      fromRunnerException: fromExecution.runnerException,
+      toRunnerException: toExecution.runnerException,
+    };
+
+    if (typeof fromTotal === 'number' && typeof toTotal === 'number') {
+      orderDiff.totalDelta = toTotal - fromTotal;
+      if (fromTotal !== 0) {
+        orderDiff.totalDeltaPercent = (orderDiff.totalDelta / Math.abs(fromTotal)) * 100;
+      }
+    }
+
+    return orderDiff;
+  }
+
+  private summarizeOrderDiffs(orderDiffs: OrderBehaviorDiffDto[]): BehaviorDiffStatisticsDto {
+    const compared = orderDiffs.filter(order => order.totalDelta !== undefined);
+    const deltas = compared.map(order => order.totalDelta!);
+    const deltaPercents = compared.filter(order => order.totalDeltaPercent !== undefined).map(order => order.totalDeltaPercent!);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    return {
+      orderCount: orderDiffs.length,
+      comparedCount: compared.length,
+      unchangedCount: deltas.filter(delta => Math.abs(delta) <= TOTAL_EPSILON).length,
+      increasedCount: deltas.filter(delta => delta > TOTAL_EPSILON).length,
+      decreasedCount: deltas.filter(delta => delta < -TOTAL_EPSILON).length,
+      fromTotalSum: sum(compared.map(order => order.fromTotal!)),
+      toTotalSum: sum(compared.map(order => order.toTotal!)),
+      meanDelta: deltas.length > 0 ? sum(deltas) / deltas.length : undefined,
+      meanDeltaPercent: deltaPercents.length > 0 ? sum(deltaPercents) / deltaPercents.length : undefined,
+      minDelta: deltas.length > 0 ? Math.min(...deltas) : undefined,
+      maxDelta: deltas.length > 0 ? Math.max(...deltas) : undefined,
+      ordersWithAppearedErrors: orderDiffs.filter(order => order.appearedErrorCodes.length > 0).length,
+      ordersWithDisappearedErrors: orderDiffs.filter(order => order.disappearedErrorCodes.length > 0).length,
+      failedExecutionCount: orderDiffs.filter(order => order.fromRunnerException || order.toRunnerException).length,
+    };
+  }
+}
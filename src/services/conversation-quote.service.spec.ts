@@ -0,0 +1,123 @@
+import { ObjectId } from 'mongodb';
+import { ConversationQuoteService, PricingAgentNotDeployedError } from './conversation-quote.service';
+import { QuotaMetric, QuoteSource } from '../models/mongodb.model';
+import { ChatStreamEvent } from '../dtos/chat-stream-event.dto';
+
+describe('conversation quote pipeline', () => {
+  const pricingAgentId = new ObjectId().toString();
+  const checkpoint = {
+    _id: new ObjectId(),
+    functionSchema: '{ quantity: number }',
+    functionCode: 'function quoteOrder() {}',
+    humanInputMessages: [{ message: 'Cleaning costs 10 EUR per hour' }, { message: '' }],
+  } as any;
+  const quote = { _id: new ObjectId(), validUntil: new Date('2026-01-02T00:00:00Z') };
+
+  let convertOrder: jest.Mock;
+  let streamPlaygroundMessage: jest.Mock;
+  let executePricingFunction: jest.Mock;
+  let findMissingOrderFields: jest.Mock;
+  let recordQuote: jest.Mock;
+  let consumeQuota: jest.Mock;
+  let refundQuota: jest.Mock;
+  let findOnePricingAgent: jest.Mock;
+  let service: ConversationQuoteService;
+
+  const request = {
+    pricingAgentId,
+    checkpoint,
+    quoteCurrency: null,
+    input: 'Cleaning for 2 hours',
+    source: QuoteSource.PLAYGROUND,
+  };
+
+  beforeEach(() => {
+    convertOrder = jest.fn().mockResolvedValue({ structuredOrderInput: { quantity: 2 }, missingFields: [], locale: 'en-US' });
+    streamPlaygroundMessage = jest.fn(async function* () {
+      yield 'That is ';
+      yield '20 EUR.';
+    });
+    executePricingFunction = jest.fn().mockResolvedValue({ total: 20 });
+    findMissingOrderFields = jest.fn().mockResolvedValue([]);
+    recordQuote = jest.fn().mockResolvedValue(quote);
+    consumeQuota = jest.fn();
+    refundQuota = jest.fn();
+    findOnePricingAgent = jest.fn().mockResolvedValue({ _id: new ObjectId(pricingAgentId), isDeployed: true });
+
+    service = new ConversationQuoteService(
+      { convertOrder } as any,
+      { streamPlaygroundMessage } as any,
+      { executePricingFunction } as any,
+      { findOnePricingAgent } as any,
+      { findDeployedCheckpoint: jest.fn().mockResolvedValue(checkpoint) } as any,
+      { getTenantLLMConfig: jest.fn().mockResolvedValue({ model: 'test-model' }) } as any,
+      { recordQuote } as any,
+      { consumeQuota, refundQuota } as any,
+      { findMissingOrderFields, findOrderInputErrors: jest.fn().mockResolvedValue([]) } as any,
+      { resolveLocale: (locale?: string, detected?: string) => locale ?? detected, formatQuoteResult: (result: any) => ({ total: `€${result.total}.00` }) } as any,
+      { resolveQuoteCurrency: jest.fn().mockResolvedValue(null), applyQuoteCurrency: (result: any) => result } as any,
+    );
+  });
+
+  const collect = async (events: AsyncGenerator<ChatStreamEvent>) => {
+    const collected: ChatStreamEvent[] = [];
+    for await (const event of events) {
+      collected.push(event);
+    }
+    return collected;
+  };
+
+  it('answers with the done event of the streamed pipeline', async () => {
+    const streamed = await collect(service.streamCheckpointConversation(request, 'tenant-id'));
+    const response = await service.quoteCheckpointConversation(request, 'tenant-id');
+
+    expect(streamed.map(event => event.event)).toEqual(['structured_order', 'quote_result', 'ai_message', 'ai_message', 'done']);
+    expect(streamed[streamed.length - 1].data).toEqual(response);
+    expect(response).toEqual({
+      structuredOrder: { quantity: 2 },
+      functionResult: { total: 20 },
+      missingFields: [],
+      aiMessage: 'That is 20 EUR.',
+      locale: 'en-US',
+      currency: null,
+      formattedResult: { total: '€20.00' },
+      quoteId: quote._id.toString(),
+      validUntil: quote.validUntil,
+    });
+    expect(streamPlaygroundMessage).toHaveBeenCalledWith(expect.objectContaining({
+      pricingAgentContext: 'Cleaning costs 10 EUR per hour',
+      formattedTotal: '€20.00',
+    }), { model: 'test-model' });
+    expect(recordQuote).toHaveBeenCalledWith(expect.objectContaining({ source: QuoteSource.PLAYGROUND, inputParams: { quantity: 2 } }), 'tenant-id');
+  });
+
+  it('asks for the missing fields without pricing the order', async () => {
+    const missingFields = [{ path: '/quantity', reason: 'not mentioned' }];
+    findMissingOrderFields.mockResolvedValue(missingFields);
+
+    const events = await collect(service.streamCheckpointConversation(request, 'tenant-id'));
+
+    expect(events.map(event => event.event)).toEqual(['structured_order', 'ai_message', 'ai_message', 'done']);
+    expect(events[events.length - 1].data).toMatchObject({ functionResult: null, missingFields, quoteId: null });
+    expect(executePricingFunction).not.toHaveBeenCalled();
+    expect(recordQuote).not.toHaveBeenCalled();
+  });
+
+  it('does not convert conversations of agents that are not deployed', async () => {
+    findOnePricingAgent.mockResolvedValue({ _id: new ObjectId(pricingAgentId), isDeployed: false });
+
+    await expect(service.quoteConversation({ pricingAgentId, input: 'Cleaning for 2 hours', source: QuoteSource.CHAT }, 'tenant-id'))
+      .rejects.toBeInstanceOf(PricingAgentNotDeployedError);
+    expect(convertOrder).not.toHaveBeenCalled();
+    expect(consumeQuota).not.toHaveBeenCalled();
+  });
+
+  it('refunds the integration call when the conversation cannot be quoted', async () => {
+    convertOrder.mockRejectedValue(new Error('model unavailable'));
+
+    await expect(service.quoteConversation({ pricingAgentId, input: 'Cleaning for 2 hours', source: QuoteSource.CHAT }, 'tenant-id'))
+      .rejects.toThrow('model unavailable');
+    const consumedAt = consumeQuota.mock.calls[0][2];
+    expect(refundQuota).toHaveBeenCalledWith('tenant-id', QuotaMetric.INTEGRATION_CALLS, consumedAt);
+  });
+});
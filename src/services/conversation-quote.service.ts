@@ -0,0 +1,335 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AiMessageToSchemaConversionAgentService } from '../ai-agents/ai-message-to-schema-conversion.agent';
+import { NaturalLanguageResponseGenerationAgentService } from '../ai-agents/ai-natural-language-response-generation.agent';
+import { LangchainCongigService } from '../ai-agents/langchain-config.service';
+import { DynamicRunnerService } from './dynamic-runner.service';
+import { PricingAgentService } from './pricing-agent.service';
+import { PricingAgentDeploymentService } from './pricing-agent-deployment.service';
+import { QuoteService } from './quote.service';
+import { EntitlementService } from './entitlement.service';
+import { OrderInputValidationService } from './order-input-validation.service';
+import { PriceFormattingService } from './price-formatting.service';
+import { CurrencyService, QuoteCurrency } from './currency.service';
+import { LlmPurpose, PricingAgentCheckpoint, QuotaMetric, Quote, QuoteResult, QuoteSource, RunnerException } from '../models/mongodb.model';
+import { ChatbotMessage, FormattedQuoteResultDto } from '../dtos/playground-execution.dto';
+import { IntegrationConversationResponseDto } from '../dtos/integration-quote.dto';
+import { ChatStreamEvent } from '../dtos/chat-stream-event.dto';
+
+export type ConversationQuoteRequest = {
+  pricingAgentId: string;
+  input: string;
+  conversation?: ChatbotMessage[];
+  currentStructuredOrder?: any; // order of the previous turn, updated instead of converted again from the whole conversation
+  locale?: string; // locale to reply and format prices in, detected from the conversation when not set
+  currency?: string; // currency to return prices in, converted from the agent currency with the tenant exchange rates
+  source: QuoteSource;
+  apiKeyId?: string;
+};
+
+/**
+ * The checkpoint an order is priced with, and the currency of its quotes
+ */
+export type QuoteCheckpoint = {
+  pricingAgentId: string;
+  checkpoint: PricingAgentCheckpoint;
+  quoteCurrency: QuoteCurrency | null; // null when the agent has no currency
+};
+
+/**
+ * A conversation priced with a given checkpoint, such as the deployed one or the one tried in the playground
+ */
+export type CheckpointConversationRequest = QuoteCheckpoint & Omit<ConversationQuoteRequest, 'pricingAgentId' | 'currency'>;
+
+export type CheckpointOrderRequest = QuoteCheckpoint & {
+  structuredOrder: any;
+  source: QuoteSource;
+  apiKeyId?: string;
+  repricedFromQuoteId?: string;
+};
+
+export type PricedOrder = {
+  functionResult: QuoteResult;
+  quote: Quote;
+};
+
+/**
+ * Joins the pricing instructions of the checkpoint, given to the LLM as the context of the agent
+ */
+export function getPricingAgentContext(checkpoint: PricingAgentCheckpoint): string {
+  return checkpoint.humanInputMessages
+    .map(msg => msg.message)
+    .filter(msg => msg)
+    .join('\n');
+}
+
+/**
+ * Thrown when the agent of a conversation or its deployed checkpoint does not exist
+ */
+export class PricingAgentNotFoundError extends Error {
+  constructor(message = 'Pricing agent not found') {
+    super(message);
+    this.name = 'PricingAgentNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the agent is not deployed or its deployed checkpoint cannot price orders
+ */
+export class PricingAgentNotDeployedError extends Error {
+  constructor(message = 'Pricing agent is not deployed') {
+    super(message);
+    this.name = 'PricingAgentNotDeployedError';
+  }
+}
+
+/**
+ * Thrown when the pricing function of the deployed checkpoint throws, with the order it was given
+ */
+export class PricingExecutionError extends Error {
+  constructor(
+    public readonly structuredOrder: any,
+    public readonly runnerException: RunnerException
+  ) {
+    super(runnerException.message);
+    this.name = 'PricingExecutionError';
+  }
+}
+
+/**
+ * Answers a customer conversation with a quote from a checkpoint of a pricing agent.
+ *
+ * Runs the convert → execute → respond pipeline shared by the integrations chat endpoints, the
+ * chat sessions, the Chatwoot agent bot and the playground, and records the price in the quote
+ * ledger. When the converted order is missing fields, execution is skipped and the response asks
+ * the customer for them. The pipeline emits its steps as events for the streaming endpoints, the
+ * other callers take the response of its last event.
+ */
+@Injectable()
+export class ConversationQuoteService {
+  private readonly logger = new Logger(ConversationQuoteService.name);
+
+  constructor(
+    private readonly aiOrderConversionAgent: AiMessageToSchemaConversionAgentService,
+    private readonly aiPlaygroundMessageAgent: NaturalLanguageResponseGenerationAgentService,
+    private readonly dynamicRunnerService: DynamicRunnerService,
+    private readonly pricingAgentService: PricingAgentService,
+    private readonly deploymentService: PricingAgentDeploymentService,
+    private readonly llmService: LangchainCongigService,
+    private readonly quoteService: QuoteService,
+    private readonly entitlementService: EntitlementService,
+    private readonly orderInputValidationService: OrderInputValidationService,
+    private readonly priceFormattingService: PriceFormattingService,
+    private readonly currencyService: CurrencyService,
+  ) {
+    this.logger.log('ConversationQuoteService initialized');
+  }
+
+  /**
+   * Quotes the conversation with the checkpoint pinned by the agent's deployment
+   */
+  async quoteConversation(request: ConversationQuoteRequest, tenantId?: string): Promise<IntegrationConversationResponseDto> {
+    return this.toResponse(this.streamConversation(request, tenantId));
+  }
+
+  /**
+   * Same as quoteConversation, emitting the structured order and the quote as soon as they are
+   * computed and the AI message while it is generated, see ChatStreamService
+   */
+  async *streamConversation(request: ConversationQuoteRequest, tenantId?: string): AsyncGenerator<ChatStreamEvent> {
+    const { pricingAgentId, currency, ...conversation } = request;
+    const quoteCheckpoint = await this.findDeployedCheckpoint(pricingAgentId, currency, tenantId);
+
+    // Counted before the LLM calls so a used up quota stops the request, given back when it fails
+    const consumedAt = new Date();
+    await this.entitlementService.consumeQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, consumedAt);
+    try {
+      yield* this.streamCheckpointConversation({ ...quoteCheckpoint, ...conversation }, tenantId);
+    } catch (error) {
+      await this.entitlementService.refundQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, consumedAt);
+      throw error;
+    }
+  }
+
+  /**
+   * Quotes the conversation with the given checkpoint
+   */
+  async quoteCheckpointConversation(request: CheckpointConversationRequest, tenantId?: string): Promise<IntegrationConversationResponseDto> {
+    return this.toResponse(this.streamCheckpointConversation(request, tenantId));
+  }
+
+  /**
+   * The pipeline: convert the conversation to an order, price it unless fields are missing, then generate the AI message
+   */
+  async *streamCheckpointConversation(request: CheckpointConversationRequest, tenantId?: string): AsyncGenerator<ChatStreamEvent> {
+    const { pricingAgentId, checkpoint, quoteCurrency } = request;
+    this.logger.log(`Quoting ${request.source} conversation for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      // Step 1: Convert conversation to structured parameters
+      const conversation = request.conversation || [];
+
+      // Get tenant LLM config (will throw error for free tier tenants without BYOK)
+      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.CHATBOT, {
+        pricingAgentId,
+        checkpointId: checkpoint._id!.toString(),
+      });
+
+      const conversionResult = await this.aiOrderConversionAgent.convertOrder({
+        conversationHistory: conversation.map(msg => ({ message: msg.message, role: msg.role })),
+        newUserMessage: request.input,
+        schema: checkpoint.functionSchema!,
+        currentStructuredOrder: request.currentStructuredOrder,
+      }, llmConfig);
+
+      const structuredOrder = conversionResult.structuredOrderInput;
+      const missingFields = await this.orderInputValidationService.findMissingOrderFields(
+        checkpoint._id!.toString(),
+        checkpoint.functionSchema!,
+        structuredOrder,
+        conversionResult.missingFields
+      );
+      const locale = this.priceFormattingService.resolveLocale(request.locale, conversionResult.locale);
+      yield { event: 'structured_order', data: { structuredOrder, missingFields, locale } };
+
+      // Step 2: Execute the pricing function (without testing), unless the AI message has to ask for missing fields
+      let priced: PricedOrder | null = null;
+      let formattedResult: FormattedQuoteResultDto | null = null;
+      if (missingFields.length === 0) {
+        priced = await this.priceOrder({
+          pricingAgentId,
+          checkpoint,
+          quoteCurrency,
+          structuredOrder,
+          source: request.source,
+          apiKeyId: request.apiKeyId,
+        }, tenantId);
+        formattedResult = this.priceFormattingService.formatQuoteResult(priced.functionResult, locale, priced.functionResult.currency ?? null);
+        yield {
+          event: 'quote_result',
+          data: {
+            functionResult: priced.functionResult,
+            formattedResult,
+            quoteId: priced.quote._id!.toString(),
+            validUntil: priced.quote.validUntil,
+          },
+        };
+      }
+
+      // Step 3: Stream AI message based on conversation and function result
+      let aiMessage = '';
+      for await (const chunk of this.aiPlaygroundMessageAgent.streamPlaygroundMessage({
+        conversation,
+        functionResult: priced?.functionResult ?? null,
+        missingFields,
+        pricingAgentContext: getPricingAgentContext(checkpoint),
+        locale,
+        formattedTotal: formattedResult?.total,
+      }, llmConfig)) {
+        aiMessage += chunk;
+        yield { event: 'ai_message', data: { chunk } };
+      }
+
+      if (priced) {
+        this.logger.log(`Successfully quoted conversation for agent: ${pricingAgentId} with quote: ${priced.quote._id}`);
+      } else {
+        this.logger.log(`Asked for ${missingFields.length} missing order fields for agent: ${pricingAgentId}`);
+      }
+      yield {
+        event: 'done',
+        data: {
+          structuredOrder,
+          functionResult: priced?.functionResult ?? null,
+          missingFields,
+          aiMessage,
+          locale,
+          currency: quoteCurrency?.currency ?? null,
+          formattedResult,
+          quoteId: priced?.quote._id!.toString() ?? null,
+          validUntil: priced?.quote.validUntil ?? null,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Failed to quote conversation for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the checkpoint pinned by the agent's deployment, and the currency to quote in
+   */
+  async findDeployedCheckpoint(pricingAgentId: string, currency?: string, tenantId?: string): Promise<QuoteCheckpoint> {
+    const agent = await this.pricingAgentService.findOnePricingAgent(pricingAgentId, tenantId);
+    if (!agent) {
+      throw new PricingAgentNotFoundError();
+    }
+
+    if (!agent.isDeployed) {
+      throw new PricingAgentNotDeployedError();
+    }
+
+    const checkpoint = await this.deploymentService.findDeployedCheckpoint(agent, tenantId);
+    if (!checkpoint) {
+      throw new PricingAgentNotFoundError('No deployed checkpoint found for the specified agent');
+    }
+
+    if (!checkpoint.functionSchema || !checkpoint.functionCode) {
+      throw new PricingAgentNotDeployedError('Checkpoint must have both functionSchema and functionCode');
+    }
+
+    const quoteCurrency = await this.currencyService.resolveQuoteCurrency(agent.currency, currency, tenantId);
+    return { pricingAgentId, checkpoint, quoteCurrency };
+  }
+
+  /**
+   * Executes the pricing function of the checkpoint (without testing) and records the quote.
+   * Orders that do not match the schema are answered with the input errors instead of running generated code.
+   */
+  async priceOrder(request: CheckpointOrderRequest, tenantId?: string): Promise<PricedOrder> {
+    const { checkpoint, structuredOrder } = request;
+
+    const inputErrors = await this.orderInputValidationService.findOrderInputErrors(
+      checkpoint._id!.toString(),
+      checkpoint.functionSchema!,
+      structuredOrder
+    );
+
+    let computedResult: QuoteResult = { errors: inputErrors };
+    if (inputErrors.length === 0) {
+      try {
+        computedResult = await this.dynamicRunnerService.executePricingFunction(
+          checkpoint.functionCode!,
+          checkpoint.functionSchema!,
+          structuredOrder,
+          checkpoint._id!.toString()
+        );
+      } catch (error) {
+        throw new PricingExecutionError(structuredOrder, this.dynamicRunnerService.toRunnerException(error));
+      }
+    }
+    const functionResult = this.currencyService.applyQuoteCurrency(computedResult, request.quoteCurrency);
+
+    const quote = await this.quoteService.recordQuote({
+      pricingAgentId: request.pricingAgentId,
+      checkpointId: checkpoint._id!.toString(),
+      source: request.source,
+      apiKeyId: request.apiKeyId,
+      inputParams: structuredOrder,
+      result: functionResult,
+      repricedFromQuoteId: request.repricedFromQuoteId,
+    }, tenantId);
+
+    return { functionResult, quote };
+  }
+
+  /**
+   * Runs the pipeline to the end, for the callers that answer with the whole response
+   */
+  private async toResponse(events: AsyncGenerator<ChatStreamEvent>): Promise<IntegrationConversationResponseDto> {
+    for await (const event of events) {
+      if (event.event === 'done') {
+        return event.data;
+      }
+    }
+    throw new Error('Conversation quote pipeline ended without a response');
+  }
+}
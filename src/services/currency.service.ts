@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FxRateTable, QuoteResult } from '../models/mongodb.model';
+import { TenantService } from './tenant.service';
+
+/**
+ * Thrown when a quote is requested in a currency the tenant exchange rates cannot convert to
+ */
+export class CurrencyConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CurrencyConversionError';
+  }
+}
+
+export interface QuoteCurrency {
+  currency: string; // currency of the returned quote
+  fromCurrency: string; // currency the pricing function computes in
+  rate: number; // amount of currency for one unit of fromCurrency
+}
+
+/**
+ * Sets the currency on the results of the pricing functions and converts their totals.
+ *
+ * Pricing functions compute in the currency of their agent. A quote requested in another currency
+ * is converted with the static exchange rates of the tenant; there is no live rates source. When the
+ * agent has no currency, the currency of its totals is unknown, so they are returned without one and
+ * the requested currency is ignored. Only totals are converted, the amounts in the backtraces stay in
+ * the agent currency, which the conversion of the result states.
+ */
+@Injectable()
+export class CurrencyService {
+  private readonly logger = new Logger(CurrencyService.name);
+
+  constructor(private readonly tenantService: TenantService) {
+    this.logger.log('CurrencyService initialized');
+  }
+
+  /**
+   * Resolves the currency of a quote before pricing, so that unsupported currencies are rejected
+   * before quotas are consumed. Returns null when the agent has no currency.
+   */
+  async resolveQuoteCurrency(agentCurrency: string | null | undefined, requestedCurrency: string | null | undefined, tenantId?: string): Promise<QuoteCurrency | null> {
+    const fromCurrency = agentCurrency;
+    if (!fromCurrency) {
+      if (requestedCurrency) {
+        this.logger.warn(`Ignoring requested currency ${requestedCurrency}, the pricing agent has no currency`);
+      }
+      return null;
+    }
+
+    const currency = requestedCurrency || fromCurrency;
+    if (currency === fromCurrency) {
+      return { currency, fromCurrency, rate: 1 };
+    }
+
+    const tenant = tenantId ? await this.tenantService.getTenantByIdInternal(tenantId) : null;
+    const rate = tenant?.fxRates ? this.getRate(tenant.fxRates, fromCurrency, currency) : null;
+    if (rate === null) {
+      throw new CurrencyConversionError(`No exchange rate from ${fromCurrency} to ${currency}`);
+    }
+    return { currency, fromCurrency, rate };
+  }
+
+  /**
+   * Returns the result in the quote currency, with the total converted when the rate is not 1
+   */
+  applyQuoteCurrency(result: QuoteResult, quoteCurrency: QuoteCurrency | null): QuoteResult {
+    if (!quoteCurrency) {
+      return result;
+    }
+
+    const { currency, fromCurrency, rate } = quoteCurrency;
+    if (typeof result.total !== 'number' || currency === fromCurrency) {
+      return { ...result, currency };
+    }
+
+    return {
+      ...result,
+      total: this.roundToMinorUnit(result.total * rate, currency),
+      currency,
+      conversion: { fromCurrency, rate, originalTotal: result.total },
+    };
+  }
+
+  private getRate(fxRates: FxRateTable, fromCurrency: string, toCurrency: string): number | null {
+    const rateOf = (currency: string) => currency === fxRates.baseCurrency ? 1 : fxRates.rates[currency];
+    const fromRate = rateOf(fromCurrency);
+    const toRate = rateOf(toCurrency);
+    if (!fromRate || !toRate) {
+      return null;
+    }
+    return toRate / fromRate;
+  }
+
+  private roundToMinorUnit(amount: number, currency: string): number {
+    const fractionDigits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    const factor = 10 ** fractionDigits;
+    return Math.round(amount * factor) / factor;
+  }
+}
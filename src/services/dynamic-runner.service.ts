@@ -1,15 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
 import * as ts from 'typescript';
-import * as vm from 'vm';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { CheckpointHappyPathTestRun, CheckpointUnhappyPathTestRun, ExpectedErrorType, QuoteResult, TestResult } from '../models/mongodb.model';
+import { createHash } from 'crypto';
+import { CheckpointHappyPathTestRun, CheckpointUnhappyPathTestRun, ExpectedErrorType, QuoteResult, RunnerException, RunnerExceptionCode, TestResult } from '../models/mongodb.model';
+import { SandboxExecutionError, SandboxPoolService } from './sandbox-pool.service';
+import { FORMULA_CACHE_MAX_ENTRIES } from '../config/sandbox.config';
+import { CompiledFormulaCacheMetricsDto } from '../dtos/compiled-formula-cache-metrics.dto';
+
+type CompiledFormula = {
+  cacheKey: string;
+  jsCode: string;
+};
 
 @Injectable()
 export class DynamicRunnerService {
   private readonly logger = new Logger(DynamicRunnerService.name);
+  // Transpiled formulas by cache key, Map insertion order doubles as LRU order
+  private readonly compiledFormulaCache = new Map<string, string>();
+  private compiledFormulaCacheHits = 0;
+  private compiledFormulaCacheMisses = 0;
+  private compiledFormulaCacheEvictions = 0;
 
-  constructor() {
+  constructor(private readonly sandboxPool: SandboxPoolService) {
     this.logger.log('DynamicRunnerService initialized');
   }
 
@@ -40,73 +53,64 @@ export class DynamicRunnerService {
   }
 
   /**
-   * Executes JavaScript code in a sandboxed environment
+   * Returns the transpiled formula for a checkpoint, transpiling only on cache miss.
+   * The key combines the checkpoint id with a hash of the code, so a checkpoint whose
+   * code was changed in place never reuses a stale entry.
    */
-  private executeInSandbox(code: string, input: any): QuoteResult {
-    this.logger.debug('Executing code in sandbox');
-
-    // Create a sandbox context
-    const sandbox = {
-      console: {
-        log: (...args: any[]) => {
-          this.logger.debug('Sandbox log:', ...args);
-        },
-        error: (...args: any[]) => {
-          this.logger.error('Sandbox error:', ...args);
-        },
-        warn: (...args: any[]) => {
-          this.logger.warn('Sandbox warn:', ...args);
-        },
-      },
-      process: {
-        env: {},
-      },
-      Buffer: Buffer,
-      setTimeout: setTimeout,
-      clearTimeout: clearTimeout,
-      setInterval: setInterval,
-      clearInterval: clearInterval,
-      Date: Date,
-      Math: Math,
-      Array: Array,
-      Object: Object,
-      String: String,
-      Number: Number,
-      Boolean: Boolean,
-      RegExp: RegExp,
-      JSON: JSON,
-      Error: Error,
-      TypeError: TypeError,
-      ReferenceError: ReferenceError,
-      RangeError: RangeError,
-      SyntaxError: SyntaxError,
-      URIError: URIError,
-      EvalError: EvalError,
-    };
+  private getCompiledFormula(functionCode: string, functionSchema?: string, checkpointId?: string): CompiledFormula {
+    const codeHash = createHash('sha256').update(functionSchema ?? '').update('\0').update(functionCode).digest('hex');
+    const cacheKey = `${checkpointId ?? 'adhoc'}:${codeHash}`;
+
+    const cached = this.compiledFormulaCache.get(cacheKey);
+    if (cached !== undefined) {
+      this.compiledFormulaCacheHits++;
+      // Refresh recency for LRU eviction
+      this.compiledFormulaCache.delete(cacheKey);
+      this.compiledFormulaCache.set(cacheKey, cached);
+      return { cacheKey, jsCode: cached };
+    }
 
-    // Create the script
-    const script = new vm.Script(code);
+    this.compiledFormulaCacheMisses++;
 
-    // Create context
-    const context = vm.createContext(sandbox);
+    // Combine schema and function code
+    const fullCode = functionSchema ? `${functionSchema}\n\n${functionCode}` : functionCode;
+    const jsCode = this.transpileTypeScript(fullCode);
 
-    // Execute the script
-    script.runInContext(context);
+    this.compiledFormulaCache.set(cacheKey, jsCode);
+    if (this.compiledFormulaCache.size > FORMULA_CACHE_MAX_ENTRIES) {
+      this.compiledFormulaCache.delete(this.compiledFormulaCache.keys().next().value!);
+      this.compiledFormulaCacheEvictions++;
+    }
 
-    // Get the quoteOrder function
-    const quoteOrder = context.quoteOrder;
+    return { cacheKey, jsCode };
+  }
 
-    if (typeof quoteOrder !== 'function') {
-      throw new Error('quoteOrder function not found in executed code');
-    }
+  /**
+   * Executes JavaScript code in an isolated sandbox worker with time and memory limits
+   */
+  private async executeInSandbox(formula: CompiledFormula, input: any): Promise<QuoteResult> {
+    this.logger.debug('Executing code in sandbox');
 
-    // Execute the function with the input
-    const result = quoteOrder(input);
+    const result = await this.sandboxPool.run(formula.jsCode, input, formula.cacheKey);
 
     this.logger.debug('Function executed successfully');
     return result;
   }
 
+  /**
+   * Maps an execution failure to the runnerException stored on test results
+   */
+  public toRunnerException(error: any): RunnerException {
+    if (error instanceof SandboxExecutionError) {
+      return error.toRunnerException();
+    }
+    return {
+      code: RunnerExceptionCode.EXECUTION_ERROR,
+      message: error?.message ?? String(error),
+      stack: error?.stack,
+    };
+  }
+
   /**
    * Saves generated script to file for troubleshooting
    */
@@ -144,14 +148,12 @@ export class DynamicRunnerService {
     try {
       this.logger.debug(`Running happy path test: ${test._id}`);
 
-      // Combine schema and function code
-      const fullCode = functionSchema ? `${functionSchema}\n\n${functionCode}` : functionCode;
-
-      // Transpile the code
-      jsCode = this.transpileTypeScript(fullCode);
+      // Transpile the code, or reuse the cached transpilation of the checkpoint
+      const formula = this.getCompiledFormula(functionCode, functionSchema, test.checkpointId?.toString());
+      jsCode = formula.jsCode;
 
       // Execute the function
-      const result: QuoteResult = this.executeInSandbox(jsCode, test.functionInputParams);
+      const result: QuoteResult = await this.executeInSandbox(formula, test.functionInputParams);
 
       const executionTime = Date.now() - startTime;
 
@@ -190,7 +192,7 @@ export class DynamicRunnerService {
 
       return {
         passed: false,
-        runnerException: error
+        runnerException: this.toRunnerException(error)
       }
     }
   }
@@ -201,19 +203,17 @@ export class DynamicRunnerService {
   public async executePricingFunction(
     functionCode: string,
     functionSchema: string | undefined,
-    inputParams: any
+    inputParams: any,
+    checkpointId?: string
   ): Promise<QuoteResult> {
     try {
       this.logger.debug('Executing pricing function for playground');
 
-      // Combine schema and function code
-      const fullCode = functionSchema ? `${functionSchema}\n\n${functionCode}` : functionCode;
-
-      // Transpile the code
-      const jsCode = this.transpileTypeScript(fullCode);
+      // Transpile the code, or reuse the cached transpilation of the checkpoint
+      const formula = this.getCompiledFormula(functionCode, functionSchema, checkpointId);
 
       // Execute the function
-      const result: QuoteResult = this.executeInSandbox(jsCode, inputParams);
+      const result: QuoteResult = await this.executeInSandbox(formula, inputParams);
 
       this.logger.debug('Pricing function executed successfully');
       return result;
@@ -228,6 +228,29 @@ export class DynamicRunnerService {
     }
   }
 
+  /**
+   * Transpiles a checkpoint formula into the cache and compiles it in every sandbox
+   * worker, so the first quote after a deployment does not pay the compilation cost
+   */
+  public precompile(checkpointId: string, functionCode: string, functionSchema?: string): void {
+    const formula = this.getCompiledFormula(functionCode, functionSchema, checkpointId);
+    this.sandboxPool.warm(formula.jsCode, formula.cacheKey);
+    this.logger.log(`Precompiled pricing function for checkpoint: ${checkpointId}`);
+  }
+
+  public getCompiledFormulaCacheMetrics(): CompiledFormulaCacheMetricsDto {
+    const lookups = this.compiledFormulaCacheHits + this.compiledFormulaCacheMisses;
+    return {
+      entries: this.compiledFormulaCache.size,
+      maxEntries: FORMULA_CACHE_MAX_ENTRIES,
+      hits: this.compiledFormulaCacheHits,
+      misses: this.compiledFormulaCacheMisses,
+      evictions: this.compiledFormulaCacheEvictions,
+      hitRate: lookups === 0 ? 0 : this.compiledFormulaCacheHits / lookups,
+      sandbox: this.sandboxPool.getMetrics(),
+    };
+  }
+
   /**
    * Runs a single unhappy path test
    */
@@ -244,14 +267,12 @@ export class DynamicRunnerService {
     try {
       this.logger.debug(`Running unhappy path test: ${test._id}`);
 
-      // Combine schema and function code
-      const fullCode = functionSchema ? `${functionSchema}\n\n${functionCode}` : functionCode;
-
-      // Transpile the code
-      jsCode = this.transpileTypeScript(fullCode);
+      // Transpile the code, or reuse the cached transpilation of the checkpoint
+      const formula = this.getCompiledFormula(functionCode, functionSchema, test.checkpointId?.toString());
+      jsCode = formula.jsCode;
 
       // Execute the function
-      const result: QuoteResult = this.executeInSandbox(jsCode, test.functionInputParams);
+      const result: QuoteResult = await this.executeInSandbox(formula, test.functionInputParams);
 
       const executionTime = Date.now() - startTime;
 
@@ -301,7 +322,7 @@ export class DynamicRunnerService {
 
       return {
         passed: false,
-        runnerException: error
+        runnerException: this.toRunnerException(error)
       };
     }
   }
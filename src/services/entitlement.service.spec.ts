@@ -0,0 +1,175 @@
+import { HttpStatus } from '@nestjs/common';
+import { MongoServerError, ObjectId } from 'mongodb';
+import { EntitlementService, PlanLimitExceededError, QuotaExceededError } from './entitlement.service';
+import { PlanResource, QuotaMetric, SubscriptionPlan, SubscriptionStatus } from '../models/mongodb.model';
+
+describe('entitlement service', () => {
+  const tenantId = new ObjectId().toString();
+  const starterSubscription = {
+    plan: SubscriptionPlan.STARTER,
+    status: SubscriptionStatus.ACTIVE,
+    endDate: new Date('2099-01-01T00:00:00Z'),
+  };
+
+  let tenants: Record<string, jest.Mock>;
+  let counters: Record<string, jest.Mock>;
+  let locks: Record<string, jest.Mock>;
+  let service: EntitlementService;
+
+  beforeEach(() => {
+    tenants = { findOne: jest.fn().mockResolvedValue(null) };
+    counters = {
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+      findOneAndUpdate: jest.fn().mockResolvedValue({ count: 1 }),
+    };
+    locks = {
+      updateOne: jest.fn().mockResolvedValue({ upsertedCount: 1 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    const collections: Record<string, Record<string, jest.Mock>> = {
+      'tenants': tenants,
+      'usage-counters': counters,
+      'plan-limit-locks': locks,
+    };
+    service = new EntitlementService({ collection: (name: string) => collections[name] } as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('plan limits', () => {
+    it('creates the resource under the lock of the tenant and releases it', async () => {
+      const created = await service.createWithinLimit(tenantId, PlanResource.API_KEYS, async () => 1, async () => 'api-key');
+
+      expect(created).toBe('api-key');
+      const [lockFilter, lockUpdate, lockOptions] = locks.updateOne.mock.calls[0];
+      expect(lockFilter).toEqual({ _id: `${tenantId}:${PlanResource.API_KEYS}`, lockedUntil: { $lte: expect.any(Date) } });
+      expect(lockOptions).toEqual({ upsert: true });
+      expect(locks.deleteOne).toHaveBeenCalledWith({ _id: `${tenantId}:${PlanResource.API_KEYS}`, lockId: lockUpdate.$set.lockId });
+    });
+
+    it('retries the lock while another request holds it', async () => {
+      locks.updateOne
+        .mockRejectedValueOnce(new MongoServerError({ code: 11000, message: 'E11000 duplicate key error' }))
+        .mockResolvedValueOnce({ upsertedCount: 1 });
+
+      await service.createWithinLimit(tenantId, PlanResource.API_KEYS, async () => 0, async () => 'api-key');
+
+      expect(locks.updateOne).toHaveBeenCalledTimes(2);
+      expect(locks.updateOne.mock.calls[0][1].$set.lockId).toEqual(locks.updateOne.mock.calls[1][1].$set.lockId);
+    });
+
+    it('does not retry the lock on other database errors', async () => {
+      const create = jest.fn();
+      locks.updateOne.mockRejectedValueOnce(new Error('connection closed'));
+
+      await expect(service.createWithinLimit(tenantId, PlanResource.API_KEYS, async () => 0, create)).rejects.toThrow('connection closed');
+      expect(locks.updateOne).toHaveBeenCalledTimes(1);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('answers with 402 and releases the lock when the free plan limit is reached', async () => {
+      const create = jest.fn<Promise<string>, []>();
+
+      const error = await service.createWithinLimit(tenantId, PlanResource.PRICING_AGENTS, async () => 1, create).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(PlanLimitExceededError);
+      expect(error.getStatus()).toBe(HttpStatus.PAYMENT_REQUIRED);
+      expect(error.getResponse()).toMatchObject({ plan: SubscriptionPlan.FREE, resource: PlanResource.PRICING_AGENTS, limit: 1, current: 1 });
+      expect(create).not.toHaveBeenCalled();
+      expect(locks.deleteOne).toHaveBeenCalled();
+    });
+
+    it('applies the limits overridden by the subscription', async () => {
+      tenants.findOne.mockResolvedValue({ _id: new ObjectId(tenantId), subscription: { ...starterSubscription, maxPricingAgents: 8 } });
+
+      expect(await service.createWithinLimit(tenantId, PlanResource.PRICING_AGENTS, async () => 7, async () => 'agent')).toBe('agent');
+      await expect(service.createWithinLimit(tenantId, PlanResource.PRICING_AGENTS, async () => 8, async () => 'agent'))
+        .rejects.toBeInstanceOf(PlanLimitExceededError);
+    });
+
+    it('falls back to the free plan limits when the subscription has ended', async () => {
+      tenants.findOne.mockResolvedValue({
+        _id: new ObjectId(tenantId),
+        subscription: { ...starterSubscription, maxPricingAgents: 8, endDate: new Date('2020-01-01T00:00:00Z') },
+      });
+
+      await expect(service.getPlanLimits(tenantId)).resolves.toMatchObject({ plan: SubscriptionPlan.FREE, limits: { [PlanResource.PRICING_AGENTS]: 1 } });
+    });
+
+    it('does not limit single-tenant mode', async () => {
+      expect(await service.createWithinLimit(undefined, PlanResource.PRICING_AGENTS, async () => 100, async () => 'agent')).toBe('agent');
+      expect(locks.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monthly quotas', () => {
+    it('counts calls below the limit of the plan in the month of the call', async () => {
+      await service.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS, new Date('2026-01-31T23:59:59Z'));
+      await service.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS, new Date('2026-02-01T00:00:00Z'));
+
+      expect(counters.updateOne.mock.calls.map(([filter]) => filter)).toEqual([
+        { tenantId, metric: QuotaMetric.AI_GENERATIONS, period: '2026-01' },
+        { tenantId, metric: QuotaMetric.AI_GENERATIONS, period: '2026-02' },
+      ]);
+      expect(counters.findOneAndUpdate.mock.calls.map(([filter]) => filter)).toEqual([
+        { tenantId, metric: QuotaMetric.AI_GENERATIONS, period: '2026-01', count: { $lt: 50 } },
+        { tenantId, metric: QuotaMetric.AI_GENERATIONS, period: '2026-02', count: { $lt: 50 } },
+      ]);
+    });
+
+    it('counts in the current month by default', async () => {
+      jest.useFakeTimers({ now: new Date('2026-03-15T12:00:00Z') });
+
+      await service.consumeQuota(tenantId, QuotaMetric.INTEGRATION_CALLS);
+
+      expect(counters.findOneAndUpdate).toHaveBeenCalledWith(
+        { tenantId, metric: QuotaMetric.INTEGRATION_CALLS, period: '2026-03', count: { $lt: 500 } },
+        { $inc: { count: 1 }, $set: { updatedAt: new Date('2026-03-15T12:00:00Z') } },
+        { returnDocument: 'after' }
+      );
+    });
+
+    it('answers with 429 until the start of the next month when the quota is used up', async () => {
+      tenants.findOne.mockResolvedValue({ _id: new ObjectId(tenantId), subscription: { ...starterSubscription, maxMonthlyIntegrationCalls: 20000 } });
+      counters.findOneAndUpdate.mockResolvedValue(null);
+
+      const error = await service.consumeQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, new Date('2026-12-10T08:00:00Z')).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error.getResponse()).toMatchObject({
+        plan: SubscriptionPlan.STARTER,
+        metric: QuotaMetric.INTEGRATION_CALLS,
+        limit: 20000,
+        resetsAt: new Date('2027-01-01T00:00:00Z'),
+      });
+    });
+
+    it('does not cap the quotas of unlimited plans', async () => {
+      tenants.findOne.mockResolvedValue({ _id: new ObjectId(tenantId), subscription: { ...starterSubscription, plan: SubscriptionPlan.ENTERPRISE } });
+
+      await service.consumeQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, new Date('2026-01-10T00:00:00Z'));
+
+      expect(counters.findOneAndUpdate.mock.calls[0][0]).toEqual({ tenantId, metric: QuotaMetric.INTEGRATION_CALLS, period: '2026-01' });
+    });
+
+    it('refunds a call to the month it was counted in', async () => {
+      jest.useFakeTimers({ now: new Date('2026-02-01T00:00:01Z') });
+
+      await service.refundQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, new Date('2026-01-31T23:59:59Z'));
+
+      expect(counters.updateOne).toHaveBeenCalledWith(
+        { tenantId, metric: QuotaMetric.INTEGRATION_CALLS, period: '2026-01', count: { $gt: 0 } },
+        { $inc: { count: -1 }, $set: { updatedAt: new Date('2026-02-01T00:00:01Z') } }
+      );
+    });
+
+    it('does not fail the request when the refund fails', async () => {
+      counters.updateOne.mockRejectedValue(new Error('connection closed'));
+
+      await expect(service.refundQuota(tenantId, QuotaMetric.INTEGRATION_CALLS, new Date())).resolves.toBeUndefined();
+    });
+  });
+});
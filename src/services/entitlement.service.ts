@@ -0,0 +1,309 @@
+import { Injectable, Inject, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { Db, ObjectId, Filter, MongoServerError } from 'mongodb';
+import {
+  PlanLimitLock,
+  PlanResource,
+  QuotaMetric,
+  Subscription,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  Tenant,
+  UsageCounter,
+} from '../models/mongodb.model';
+import { PLAN_LIMITS, PlanLimits } from '../config/plan-limits.config';
+import { TenantEntitlementsDto } from '../dtos/tenant-entitlements.dto';
+
+type UsageCounterFilter = Filter<UsageCounter>;
+
+// A plan limit lock expires after the lease, so a crashed request cannot block the resource
+const PLAN_LIMIT_LOCK_LEASE_MS = 10_000;
+const PLAN_LIMIT_LOCK_RETRY_MS = 50;
+const PLAN_LIMIT_LOCK_MAX_ATTEMPTS = 100;
+
+/**
+ * Thrown when creating a resource would exceed the limit of the tenant's plan, answered with 402
+ */
+export class PlanLimitExceededError extends HttpException {
+  constructor(
+    public readonly plan: SubscriptionPlan,
+    public readonly resource: PlanResource,
+    public readonly limit: number,
+    public readonly current: number
+  ) {
+    super({
+      statusCode: HttpStatus.PAYMENT_REQUIRED,
+      error: 'Plan limit exceeded',
+      message: `The ${plan} plan allows up to ${limit} ${resource.replaceAll('_', ' ')}`,
+      plan,
+      resource,
+      limit,
+      current,
+    }, HttpStatus.PAYMENT_REQUIRED);
+    this.name = 'PlanLimitExceededError';
+  }
+}
+
+/**
+ * Thrown when the tenant has used up a monthly quota of its plan, answered with 429
+ */
+export class QuotaExceededError extends HttpException {
+  constructor(
+    public readonly plan: SubscriptionPlan,
+    public readonly metric: QuotaMetric,
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly resetsAt: Date
+  ) {
+    super({
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      error: 'Quota exceeded',
+      message: `The ${plan} plan allows up to ${limit} ${metric.replaceAll('_', ' ')} per month`,
+      plan,
+      metric,
+      limit,
+      used,
+      resetsAt,
+    }, HttpStatus.TOO_MANY_REQUESTS);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Calendar month (UTC) a monthly quota is counted in, as YYYY-MM
+function quotaPeriod(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function nextQuotaPeriodStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Service for the limits of the tenants' subscription plans.
+ *
+ * Each plan has default limits (see PLAN_LIMITS) for the number of pricing agents, API keys
+ * and users, and for the integration calls and AI generations per calendar month, which the
+ * tenant's subscription can override. A tenant without an active subscription gets the free
+ * plan limits. Single-tenant mode (no tenant ID) is not limited.
+ *
+ * Resources are created under a per tenant and resource lock, so concurrent requests cannot
+ * both pass the count check and exceed the limit.
+ */
+@Injectable()
+export class EntitlementService {
+  private readonly logger = new Logger(EntitlementService.name);
+
+  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+    this.logger.log('EntitlementService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<UsageCounter>('usage-counters');
+  }
+
+  private get lockCollection() {
+    return this.db.collection<PlanLimitLock>('plan-limit-locks');
+  }
+
+  private buildUsageCounterFilter(tenantId?: string, additionalFilters: Partial<UsageCounterFilter> = {}): UsageCounterFilter {
+    const filter: UsageCounterFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  async getPlanLimits(tenantId: string): Promise<{ plan: SubscriptionPlan; limits: PlanLimits }> {
+    const tenant = await this.db.collection<Tenant>('tenants').findOne({
+      _id: new ObjectId(tenantId),
+      deletedAt: null
+    });
+
+    const subscription = tenant?.subscription;
+    if (!subscription || !this.isSubscriptionActive(subscription)) {
+      return { plan: SubscriptionPlan.FREE, limits: PLAN_LIMITS[SubscriptionPlan.FREE] };
+    }
+
+    const limits: PlanLimits = { ...PLAN_LIMITS[subscription.plan] };
+    const overrides: Partial<Record<keyof PlanLimits, number | undefined>> = {
+      [PlanResource.PRICING_AGENTS]: subscription.maxPricingAgents,
+      [PlanResource.API_KEYS]: subscription.maxApiKeys,
+      [PlanResource.USERS]: subscription.maxUsers,
+      [QuotaMetric.INTEGRATION_CALLS]: subscription.maxMonthlyIntegrationCalls,
+      [QuotaMetric.AI_GENERATIONS]: subscription.maxMonthlyAiGenerations,
+    };
+    for (const [name, limit] of Object.entries(overrides)) {
+      if (limit !== undefined && limit !== null) {
+        limits[name as keyof PlanLimits] = limit;
+      }
+    }
+
+    return { plan: subscription.plan, limits };
+  }
+
+  private isSubscriptionActive(subscription: Subscription): boolean {
+    if (subscription.status !== SubscriptionStatus.ACTIVE && subscription.status !== SubscriptionStatus.TRIAL) {
+      return false;
+    }
+    return !subscription.endDate || new Date(subscription.endDate) > new Date();
+  }
+
+  /**
+   * Throws PlanLimitExceededError when the tenant already has as many of the resource as its plan allows
+   */
+  private async assertWithinLimit(tenantId: string | undefined, resource: PlanResource, currentCount: number): Promise<void> {
+    if (!tenantId) {
+      return;
+    }
+
+    const { plan, limits } = await this.getPlanLimits(tenantId);
+    const limit = limits[resource];
+    if (limit !== null && currentCount >= limit) {
+      this.logger.warn(`Tenant ${tenantId} reached the ${plan} plan limit of ${limit} ${resource}`);
+      throw new PlanLimitExceededError(plan, resource, limit, currentCount);
+    }
+  }
+
+  /**
+   * Creates a resource when the tenant has fewer of it than its plan allows, counting and creating while holding
+   * the tenant's lock for the resource. Throws PlanLimitExceededError when the limit is reached
+   */
+  async createWithinLimit<T>(
+    tenantId: string | undefined,
+    resource: PlanResource,
+    countResources: () => Promise<number>,
+    create: () => Promise<T>
+  ): Promise<T> {
+    if (!tenantId) {
+      return create();
+    }
+
+    const lockId = await this.acquirePlanLimitLock(tenantId, resource);
+    try {
+      await this.assertWithinLimit(tenantId, resource, await countResources());
+      return await create();
+    } finally {
+      await this.lockCollection.deleteOne({ _id: `${tenantId}:${resource}`, lockId });
+    }
+  }
+
+  /**
+   * Takes the lease with a conditional upsert on the lock id: while the lock is held, the upsert inserts a
+   * duplicate id and fails, so the lock is retried until it is released or its lease expires
+   */
+  private async acquirePlanLimitLock(tenantId: string, resource: PlanResource): Promise<ObjectId> {
+    const lockId = new ObjectId();
+    for (let attempt = 0; attempt < PLAN_LIMIT_LOCK_MAX_ATTEMPTS; attempt++) {
+      const now = new Date();
+      try {
+        await this.lockCollection.updateOne(
+          { _id: `${tenantId}:${resource}`, lockedUntil: { $lte: now } },
+          { $set: { lockId, lockedUntil: new Date(now.getTime() + PLAN_LIMIT_LOCK_LEASE_MS) } },
+          { upsert: true }
+        );
+        return lockId;
+      } catch (error) {
+        if (!(error instanceof MongoServerError) || error.code !== 11000) {
+          throw error;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, PLAN_LIMIT_LOCK_RETRY_MS));
+    }
+    throw new Error(`Timed out waiting to create ${resource.replaceAll('_', ' ')} for tenant ${tenantId}`);
+  }
+
+  /**
+   * Counts a call against the tenant's monthly quota, throws QuotaExceededError when the quota is used up
+   */
+  async consumeQuota(tenantId: string | undefined, metric: QuotaMetric, now: Date = new Date()): Promise<void> {
+    if (!tenantId) {
+      return;
+    }
+
+    try {
+      const period = quotaPeriod(now);
+      const { plan, limits } = await this.getPlanLimits(tenantId);
+      const limit = limits[metric];
+
+      // Create the counter of the month first, so the increment below can be conditional
+      await this.collection.updateOne(
+        this.buildUsageCounterFilter(tenantId, { metric, period }),
+        { $setOnInsert: { count: 0, createdAt: now } },
+        { upsert: true }
+      );
+
+      const counter = await this.collection.findOneAndUpdate(
+        this.buildUsageCounterFilter(tenantId, {
+          metric,
+          period,
+          ...(limit !== null ? { count: { $lt: limit } } : {}),
+        }),
+        { $inc: { count: 1 }, $set: { updatedAt: now } },
+        { returnDocument: 'after' }
+      );
+
+      if (!counter) {
+        this.logger.warn(`Tenant ${tenantId} used up the ${plan} plan quota of ${limit} ${metric} for ${period}`);
+        throw new QuotaExceededError(plan, metric, limit!, limit!, nextQuotaPeriodStart(now));
+      }
+    } catch (error) {
+      if (!(error instanceof QuotaExceededError)) {
+        this.logger.error(`Failed to consume ${metric} quota for tenant ${tenantId}: ${error.message}`, error.stack);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gives back a call counted at consumedAt whose operation failed, to the quota of the month it was counted in
+   */
+  async refundQuota(tenantId: string | undefined, metric: QuotaMetric, consumedAt: Date): Promise<void> {
+    if (!tenantId) {
+      return;
+    }
+
+    try {
+      await this.collection.updateOne(
+        this.buildUsageCounterFilter(tenantId, { metric, period: quotaPeriod(consumedAt), count: { $gt: 0 } }),
+        { $inc: { count: -1 }, $set: { updatedAt: new Date() } }
+      );
+    } catch (error) {
+      // The call stays counted, refunding never fails the request
+      this.logger.error(`Failed to refund ${metric} quota for tenant ${tenantId}: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Returns the limits of the tenant's plan with the current usage, resourceCounts are the resources in use
+   */
+  async getEntitlements(tenantId: string, resourceCounts: Record<PlanResource, number>): Promise<TenantEntitlementsDto> {
+    this.logger.log(`Getting entitlements for tenant: ${tenantId}`);
+
+    try {
+      const now = new Date();
+      const { plan, limits } = await this.getPlanLimits(tenantId);
+      const counters = await this.collection.find(
+        this.buildUsageCounterFilter(tenantId, { period: quotaPeriod(now) })
+      ).toArray();
+
+      return {
+        plan,
+        entitlements: [
+          ...Object.values(PlanResource).map(resource => ({
+            name: resource,
+            limit: limits[resource],
+            used: resourceCounts[resource],
+          })),
+          ...Object.values(QuotaMetric).map(metric => ({
+            name: metric,
+            limit: limits[metric],
+            used: counters.find(counter => counter.metric === metric)?.count ?? 0,
+            resetsAt: nextQuotaPeriodStart(now),
+          })),
+        ],
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get entitlements for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
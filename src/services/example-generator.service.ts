@@ -2,6 +2,8 @@ import { Injectable, Logger } from '@nestjs/common';
 import { AiFakeConversationMessagesGenerationAgentService } from '../ai-agents/ai-fake-conversation-messages-generation.agent';
 import { AiMessageToSchemaConversionAgentService } from '../ai-agents/ai-message-to-schema-conversion.agent';
 import { LangchainCongigService } from '../ai-agents/langchain-config.service';
+import { EntitlementService } from './entitlement.service';
+import { LlmPurpose, QuotaMetric } from '../models/mongodb.model';
 
 @Injectable()
 export class ExampleGeneratorService {
@@ -11,6 +13,7 @@ export class ExampleGeneratorService {
     private readonly aiFakeConversationAgent: AiFakeConversationMessagesGenerationAgentService,
     private readonly aiMessageToSchemaAgent: AiMessageToSchemaConversionAgentService,
     private readonly llmConfigService: LangchainCongigService,
+    private readonly entitlementService: EntitlementService,
   ) {}
 
 
@@ -25,7 +28,8 @@ export class ExampleGeneratorService {
       this.logger.debug('Generating example from schema using AI agents');
 
       // Get LLM configuration
-      const llmConfig = await this.llmConfigService.getTenantLLMConfig(tenantId);
+      const llmConfig = await this.llmConfigService.getTenantLLMConfig(tenantId, LlmPurpose.TEST_GENERATION);
+      await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
       this.logger.debug('Retrieved LLM configuration');
 
       // Generate fake conversation
@@ -66,7 +70,8 @@ export class ExampleGeneratorService {
       this.logger.debug('Generating chat example using AI agent');
 
       // Get LLM configuration
-      const llmConfig = await this.llmConfigService.getTenantLLMConfig(tenantId);
+      const llmConfig = await this.llmConfigService.getTenantLLMConfig(tenantId, LlmPurpose.TEST_GENERATION);
+      await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
       this.logger.debug('Retrieved LLM configuration for chat example');
 
       // Generate fake conversation
@@ -0,0 +1,242 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Db, ObjectId, Filter } from 'mongodb';
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import type { AIMessage } from '@langchain/core/messages';
+import type { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import { LlmOperation, LlmPurpose, LlmUsage } from '../models/mongodb.model';
+import type { LangchainInitModelConfig } from '../ai-agents/langchain-config.service';
+import { estimateLlmCostUsd } from '../config/llm-pricing.config';
+import { LlmUsageGroupBy, LlmUsageReportDto, LlmUsageReportGroupDto } from '../dtos/llm-usage-report.dto';
+
+type LlmUsageFilter = Filter<LlmUsage>;
+
+export type LlmUsageSearchCriteria = {
+  purpose?: LlmPurpose;
+  operation?: LlmOperation;
+  pricingAgentId?: string;
+  byok?: boolean;
+  from?: Date;
+  to?: Date;
+};
+
+type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+/**
+ * LangChain callback recording every call of the chat model it is attached to
+ */
+class LlmUsageCallbackHandler extends BaseCallbackHandler {
+  name = 'llm_usage_callback_handler';
+
+  // Start time of the calls in flight, by LangChain run id
+  private readonly startedAt = new Map<string, number>();
+
+  constructor(
+    private readonly llmConfig: LangchainInitModelConfig,
+    private readonly operation: LlmOperation,
+    private readonly record: (usage: LlmUsage) => Promise<void>
+  ) {
+    super();
+  }
+
+  handleChatModelStart(_llm: unknown, _messages: unknown, runId: string) {
+    this.startedAt.set(runId, Date.now());
+  }
+
+  handleLLMStart(_llm: unknown, _prompts: string[], runId: string) {
+    this.startedAt.set(runId, Date.now());
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    await this.record(this.buildUsage(runId, this.extractTokenUsage(output)));
+  }
+
+  async handleLLMError(error: Error, runId: string) {
+    await this.record({
+      ...this.buildUsage(runId, { promptTokens: 0, completionTokens: 0, totalTokens: 0 }),
+      error: error?.message ?? String(error),
+    });
+  }
+
+  private buildUsage(runId: string, tokens: TokenUsage): LlmUsage {
+    const startedAt = this.startedAt.get(runId);
+    this.startedAt.delete(runId);
+
+    const context = this.llmConfig.usageContext;
+    return {
+      tenantId: context.tenantId,
+      purpose: context.purpose,
+      operation: this.operation,
+      pricingAgentId: context.pricingAgentId ? new ObjectId(context.pricingAgentId) : null,
+      checkpointId: context.checkpointId ? new ObjectId(context.checkpointId) : null,
+      provider: this.llmConfig.provider,
+      model: this.llmConfig.model,
+      byok: context.byok,
+      ...tokens,
+      latencyMs: startedAt !== undefined ? Date.now() - startedAt : 0,
+      estimatedCostUsd: estimateLlmCostUsd(this.llmConfig.model, tokens.promptTokens, tokens.completionTokens),
+      error: null,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Reads the token counts from the message usage metadata, falling back to the provider specific LLM output
+   */
+  private extractTokenUsage(output: LLMResult): TokenUsage {
+    const message = (output.generations?.[0]?.[0] as ChatGeneration | undefined)?.message as AIMessage | undefined;
+    const usageMetadata = message?.usage_metadata;
+    if (usageMetadata) {
+      return {
+        promptTokens: usageMetadata.input_tokens,
+        completionTokens: usageMetadata.output_tokens,
+        totalTokens: usageMetadata.total_tokens,
+      };
+    }
+
+    const tokenUsage = output.llmOutput?.tokenUsage ?? output.llmOutput?.estimatedTokenUsage ?? {};
+    const promptTokens = tokenUsage.promptTokens ?? 0;
+    const completionTokens = tokenUsage.completionTokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: tokenUsage.totalTokens ?? promptTokens + completionTokens,
+    };
+  }
+}
+
+/**
+ * Service for LLM usage accounting.
+ *
+ * Every chat model created by the AI agents gets a callback recording the provider, model,
+ * token counts, latency and estimated cost of each call, tagged with the tenant, purpose,
+ * operation and the pricing agent and checkpoint it was made for. The report aggregates
+ * the records for billing the tenants without their own API keys and spotting runaway
+ * generation loops.
+ */
+@Injectable()
+export class LlmUsageService {
+  private readonly logger = new Logger(LlmUsageService.name);
+
+  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+    this.logger.log('LlmUsageService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<LlmUsage>('llm-usage');
+  }
+
+  private buildLlmUsageFilter(tenantId?: string, additionalFilters: Partial<LlmUsageFilter> = {}): LlmUsageFilter {
+    const filter: LlmUsageFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  /**
+   * Returns the callbacks to pass to initChatModel so the calls of the model are recorded
+   */
+  createUsageCallbacks(llmConfig: LangchainInitModelConfig, operation: LlmOperation): BaseCallbackHandler[] {
+    return [new LlmUsageCallbackHandler(llmConfig, operation, usage => this.recordUsage(usage))];
+  }
+
+  /**
+   * Records a call, failures are only logged so accounting never fails the LLM call itself
+   */
+  async recordUsage(usage: LlmUsage): Promise<void> {
+    try {
+      await this.collection.insertOne(usage);
+      this.logger.debug(`Recorded ${usage.operation} call to ${usage.model}: ${usage.totalTokens} tokens in ${usage.latencyMs}ms for tenant: ${usage.tenantId}`);
+    } catch (error) {
+      this.logger.error(`Failed to record ${usage.operation} LLM usage for tenant ${usage.tenantId}: ${error.message}`, error.stack);
+    }
+  }
+
+  async getUsageReport(groupBy: LlmUsageGroupBy, criteria: LlmUsageSearchCriteria = {}, tenantId?: string): Promise<LlmUsageReportDto> {
+    this.logger.log(`Getting LLM usage report by ${groupBy} for tenant: ${tenantId}`);
+
+    try {
+      const additionalFilters: Partial<LlmUsageFilter> = {};
+      if (criteria.purpose) {
+        additionalFilters.purpose = criteria.purpose;
+      }
+      if (criteria.operation) {
+        additionalFilters.operation = criteria.operation;
+      }
+      if (criteria.pricingAgentId) {
+        additionalFilters.pricingAgentId = new ObjectId(criteria.pricingAgentId);
+      }
+      if (criteria.byok !== undefined) {
+        additionalFilters.byok = criteria.byok;
+      }
+      if (criteria.from || criteria.to) {
+        additionalFilters.createdAt = {
+          ...(criteria.from ? { $gte: criteria.from } : {}),
+          ...(criteria.to ? { $lte: criteria.to } : {}),
+        };
+      }
+
+      const groupKey = groupBy === LlmUsageGroupBy.DAY
+        ? { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }
+        : `$${groupBy}`;
+
+      const groups = await this.collection.aggregate<LlmUsageReportGroupDto>([
+        { $match: this.buildLlmUsageFilter(tenantId, additionalFilters) },
+        {
+          $group: {
+            _id: groupKey,
+            calls: { $sum: 1 },
+            failedCalls: { $sum: { $cond: [{ $ifNull: ['$error', false] }, 1, 0] } },
+            unpricedCalls: { $sum: { $cond: [{ $eq: [{ $ifNull: ['$estimatedCostUsd', null] }, null] }, 1, 0] } },
+            promptTokens: { $sum: '$promptTokens' },
+            completionTokens: { $sum: '$completionTokens' },
+            totalTokens: { $sum: '$totalTokens' },
+            estimatedCostUsd: { $sum: '$estimatedCostUsd' },
+            averageLatencyMs: { $avg: '$latencyMs' },
+          },
+        },
+        { $sort: { _id: 1 } },
+        {
+          $project: {
+            _id: 0,
+            key: { $toString: '$_id' }, // null for calls without a pricing agent
+            calls: 1,
+            failedCalls: 1,
+            unpricedCalls: 1,
+            promptTokens: 1,
+            completionTokens: 1,
+            totalTokens: 1,
+            estimatedCostUsd: 1,
+            averageLatencyMs: { $round: ['$averageLatencyMs', 0] },
+          },
+        },
+      ]).toArray();
+
+      const total = groups.reduce((sum, group) => ({
+        calls: sum.calls + group.calls,
+        failedCalls: sum.failedCalls + group.failedCalls,
+        unpricedCalls: sum.unpricedCalls + group.unpricedCalls,
+        promptTokens: sum.promptTokens + group.promptTokens,
+        completionTokens: sum.completionTokens + group.completionTokens,
+        totalTokens: sum.totalTokens + group.totalTokens,
+        estimatedCostUsd: sum.estimatedCostUsd + group.estimatedCostUsd,
+      }), { calls: 0, failedCalls: 0, unpricedCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0 });
+
+      this.logger.log(`Successfully aggregated ${total.calls} LLM calls in ${groups.length} groups for tenant: ${tenantId}`);
+      return {
+        groupBy,
+        from: criteria.from ?? null,
+        to: criteria.to ?? null,
+        total,
+        groups,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get LLM usage report for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
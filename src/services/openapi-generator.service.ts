@@ -34,28 +34,35 @@ export class OpenApiGeneratorService {
     try {
       this.logger.log('Generating OpenAPI schema from TypeScript interface');
 
-      // Create a temporary TypeScript file with the interface
-      const tempFilePath = this.createTemporaryTypeScriptFile(interfaceString);
-
-      try {
-        // Generate JSON schema from the TypeScript interface
-        const schema = this.generateJsonSchemaFromFile(tempFilePath);
-
-        // Build the complete OpenAPI specification
-        const openApiSpec = this.buildOpenApiSpec(schema, endpointPath, method);
-
-        this.logger.log('Successfully generated OpenAPI schema');
-        return openApiSpec;
-      } finally {
-        // Clean up temporary file
-        this.cleanupTemporaryFile(tempFilePath);
-      }
+      // Generate JSON schema from the TypeScript interface
+      const schema = await this.generateOrderJsonSchema(interfaceString);
+
+      // Build the complete OpenAPI specification
+      const openApiSpec = this.buildOpenApiSpec(schema, endpointPath, method);
+
+      this.logger.log('Successfully generated OpenAPI schema');
+      return openApiSpec;
     } catch (error) {
       this.logger.error(`Failed to generate OpenAPI schema: ${error.message}`, error.stack);
       throw error;
     }
   }
 
+  /**
+   * Generates the JSON schema (draft-07) of the OrderInput type described by a TypeScript interface string
+   */
+  async generateOrderJsonSchema(interfaceString: string): Promise<any> {
+    // Create a temporary TypeScript file with the interface
+    const tempFilePath = this.createTemporaryTypeScriptFile(interfaceString);
+
+    try {
+      return this.generateJsonSchemaFromFile(tempFilePath);
+    } finally {
+      // Clean up temporary file
+      this.cleanupTemporaryFile(tempFilePath);
+    }
+  }
+
   private createTemporaryTypeScriptFile(interfaceString: string): string {
     // Create a complete TypeScript module with the interface
     const tsContent = `
@@ -116,6 +123,15 @@ export default OrderInput;
                 },
                 description: 'The ID of the pricing agent',
               },
+              {
+                name: 'currency',
+                in: 'query',
+                required: false,
+                schema: {
+                  type: 'string',
+                },
+                description: 'ISO 4217 currency to return the price in, converted from the agent currency with the tenant exchange rates',
+              },
             ],
             requestBody: {
               required: true,
@@ -137,6 +153,19 @@ export default OrderInput;
                           type: 'number',
                           description: 'The calculated total price',
                         },
+                        currency: {
+                          type: 'string',
+                          description: 'ISO 4217 currency of the total, when the agent or the request has one',
+                        },
+                        conversion: {
+                          type: 'object',
+                          description: 'Set when the total was converted from the agent currency',
+                          properties: {
+                            fromCurrency: { type: 'string' },
+                            rate: { type: 'number' },
+                            originalTotal: { type: 'number' },
+                          },
+                        },
                         pricingCalculationBacktrace: {
                           type: 'object',
                           description: 'Detailed calculation steps',
@@ -156,16 +185,26 @@ export default OrderInput;
                             properties: {
                               code: { type: 'string' },
                               message: { type: 'string' },
+                              path: { type: 'string' },
                             },
                           },
                         },
+                        quoteId: {
+                          type: 'string',
+                          description: 'Reference of the recorded quote, used to accept or re-price it',
+                        },
+                        validUntil: {
+                          type: 'string',
+                          format: 'date-time',
+                          description: 'The quoted total can be accepted until this date',
+                        },
                       },
                     },
                   },
                 },
               },
               '400': {
-                description: 'Bad request - invalid parameters or agent not deployed',
+                description: 'Bad request - invalid parameters, agent not deployed or no exchange rate to the requested currency',
               },
               '404': {
                 description: 'Pricing agent or checkpoint not found',
@@ -200,7 +239,7 @@ export default OrderInput;
           bearerAuth: {
             type: 'http',
             scheme: 'bearer',
-            bearerFormat: 'JWT',
+            description: 'API key',
           },
         },
       },
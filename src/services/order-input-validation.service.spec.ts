@@ -0,0 +1,101 @@
+import { OrderInputValidationService } from './order-input-validation.service';
+import { OpenApiGeneratorService } from './openapi-generator.service';
+import { ExpectedErrorType } from '../models/mongodb.model';
+
+const ORDER_SCHEMA = {
+  $ref: '#/definitions/OrderInput',
+  definitions: {
+    OrderInput: {
+      type: 'object',
+      properties: {
+        quantity: { type: 'number' },
+        size: { type: 'string', enum: ['small', 'large'] },
+        'a/b~c': { type: 'string' },
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string' }, zip: { type: 'string' } },
+          required: ['city'],
+          additionalProperties: false,
+        },
+      },
+      required: ['quantity', 'address'],
+      additionalProperties: false,
+    },
+  },
+};
+
+describe('order input validation', () => {
+  let generateOrderJsonSchema: jest.Mock;
+  let service: OrderInputValidationService;
+
+  beforeEach(() => {
+    generateOrderJsonSchema = jest.fn().mockResolvedValue(ORDER_SCHEMA);
+    service = new OrderInputValidationService({ generateOrderJsonSchema } as unknown as OpenApiGeneratorService);
+  });
+
+  it('returns no errors for an order that matches the schema', async () => {
+    const errors = await service.validateOrderInput('c1', 'schema', { quantity: 2, address: { city: 'Berlin' } });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('reports every error of an order with the JSON pointer of its field', async () => {
+    const errors = await service.validateOrderInput('c1', 'schema', {
+      quantity: 'two',
+      size: 'medium',
+      address: { zip: '10115', floor: 3 },
+    });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      { code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/quantity must be number', path: '/quantity' },
+      { code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/size must be equal to one of the allowed values: "small", "large"', path: '/size' },
+      { code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/address/city is required', path: '/address/city' },
+      { code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/address/floor is not allowed', path: '/address/floor' },
+    ]));
+    expect(errors).toHaveLength(4);
+  });
+
+  it('escapes property names in the JSON pointers', async () => {
+    const errors = await service.validateOrderInput('c1', 'schema', { quantity: 1, address: { city: 'Berlin' }, 'a/b~c': 1 });
+
+    expect(errors.map(error => error.path)).toEqual(['/a~1b~0c']);
+  });
+
+  it('compiles the schema once per checkpoint and schema', async () => {
+    await service.validateOrderInput('c1', 'schema', {});
+    await service.validateOrderInput('c1', 'schema', {});
+    expect(generateOrderJsonSchema).toHaveBeenCalledTimes(1);
+
+    await service.validateOrderInput('c1', 'changed schema', {});
+    await service.validateOrderInput('c2', 'schema', {});
+    expect(generateOrderJsonSchema).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips validation without caching when the schema cannot be generated', async () => {
+    generateOrderJsonSchema.mockRejectedValueOnce(new Error('invalid interface'));
+
+    expect(await service.validateOrderInput('c1', 'schema', {})).toEqual([]);
+    expect((await service.validateOrderInput('c1', 'schema', {})).length).toBeGreaterThan(0);
+    expect(generateOrderJsonSchema).toHaveBeenCalledTimes(2);
+  });
+
+  it('only reports the missing fields of a converted order that the schema requires', async () => {
+    const missingFields = await service.findMissingOrderFields('c1', 'schema', { quantity: 'two', address: {} }, [
+      { path: '/size', reason: 'ambiguous' },
+      { path: '/quantity', reason: 'ambiguous' },
+    ]);
+
+    expect(missingFields).toEqual([
+      { path: '/quantity', reason: 'ambiguous' },
+      { path: '/address/city', reason: '/address/city is required' },
+    ]);
+  });
+
+  it('returns the other schema errors of a converted order as input errors', async () => {
+    const errors = await service.findOrderInputErrors('c1', 'schema', { quantity: 'two', address: {} });
+
+    expect(errors).toEqual([
+      { code: ExpectedErrorType.INCORRECT_INPUT_VALUE, message: '/quantity must be number', path: '/quantity' },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { createHash } from 'crypto';
+import { ExpectedErrorType, MissingOrderField, QuoteError } from '../models/mongodb.model';
+import { OpenApiGeneratorService } from './openapi-generator.service';
+import { FORMULA_CACHE_MAX_ENTRIES } from '../config/sandbox.config';
+
+/**
+ * Validates order inputs against the JSON schema generated from a checkpoint's functionSchema.
+ *
+ * Compiled validators are cached per checkpoint id + schema hash. When no schema can be
+ * generated for a checkpoint, validation is skipped so the pricing function still runs; the
+ * failure is not cached, so the schema is generated again for the next order.
+ */
+@Injectable()
+export class OrderInputValidationService {
+  private readonly logger = new Logger(OrderInputValidationService.name);
+  private readonly ajv = new Ajv({ allErrors: true, strict: false, validateFormats: false });
+  // Compiled validators by cache key, a validator resolving to null is removed once settled
+  private readonly validatorCache = new Map<string, Promise<ValidateFunction | null>>();
+
+  constructor(private readonly openApiGeneratorService: OpenApiGeneratorService) {
+    this.logger.log('OrderInputValidationService initialized');
+  }
+
+  /**
+   * Returns the errors of an order input, an empty list when the input matches the schema
+   */
+  async validateOrderInput(checkpointId: string, functionSchema: string, input: any): Promise<QuoteError[]> {
+    const validate = await this.getValidator(checkpointId, functionSchema);
+    if (!validate || validate(input)) {
+      return [];
+    }
+
+    return (validate.errors ?? []).map(error => this.toQuoteError(error));
+  }
+
+  /**
+   * Returns the fields the customer still has to provide before a converted order can be priced: the required
+   * fields the converted order lacks, and the ones the conversion reported as missing or ambiguous that the schema
+   * requires. When no schema can be generated, the reported fields are returned as they are.
+   */
+  async findMissingOrderFields(checkpointId: string, functionSchema: string, structuredOrder: any, reportedMissingFields: MissingOrderField[]): Promise<MissingOrderField[]> {
+    const validate = await this.getValidator(checkpointId, functionSchema);
+    if (!validate) {
+      return [...reportedMissingFields];
+    }
+
+    const missingFields = reportedMissingFields.filter(field => this.isRequiredPath(validate.schema, field.path));
+    const requiredErrors = validate(structuredOrder) ? [] : (validate.errors ?? []).filter(error => error.keyword === 'required');
+    for (const error of requiredErrors) {
+      const { path = '/', message } = this.toQuoteError(error);
+      if (!missingFields.some(field => field.path === path)) {
+        missingFields.push({ path, reason: message });
+      }
+    }
+    return missingFields;
+  }
+
+  /**
+   * Returns the errors of a converted order other than missing required fields, which findMissingOrderFields reports
+   */
+  async findOrderInputErrors(checkpointId: string, functionSchema: string, structuredOrder: any): Promise<QuoteError[]> {
+    const validate = await this.getValidator(checkpointId, functionSchema);
+    if (!validate || validate(structuredOrder)) {
+      return [];
+    }
+
+    return (validate.errors ?? [])
+      .filter(error => error.keyword !== 'required')
+      .map(error => this.toQuoteError(error));
+  }
+
+  private getValidator(checkpointId: string, functionSchema: string): Promise<ValidateFunction | null> {
+    const schemaHash = createHash('sha256').update(functionSchema).digest('hex');
+    const cacheKey = `${checkpointId}:${schemaHash}`;
+
+    const cached = this.validatorCache.get(cacheKey);
+    if (cached) {
+      // Refresh recency for LRU eviction
+      this.validatorCache.delete(cacheKey);
+      this.validatorCache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const validator = this.compileValidator(checkpointId, functionSchema);
+    this.validatorCache.set(cacheKey, validator);
+    validator.then(compiled => {
+      if (!compiled && this.validatorCache.get(cacheKey) === validator) {
+        this.validatorCache.delete(cacheKey);
+      }
+    });
+    if (this.validatorCache.size > FORMULA_CACHE_MAX_ENTRIES) {
+      this.validatorCache.delete(this.validatorCache.keys().next().value!);
+    }
+    return validator;
+  }
+
+  private async compileValidator(checkpointId: string, functionSchema: string): Promise<ValidateFunction | null> {
+    try {
+      const schema = await this.openApiGeneratorService.generateOrderJsonSchema(functionSchema);
+      return this.ajv.compile(schema);
+    } catch (error) {
+      this.logger.warn(`Skipping order input validation for checkpoint ${checkpointId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Maps an Ajv error to a QuoteError whose path is the JSON pointer of the offending field
+   */
+  private toQuoteError(error: ErrorObject): QuoteError {
+    let path = error.instancePath;
+    if (error.keyword === 'required') {
+      path = `${path}/${this.escapeJsonPointerToken(error.params.missingProperty)}`;
+    } else if (error.keyword === 'additionalProperties') {
+      path = `${path}/${this.escapeJsonPointerToken(error.params.additionalProperty)}`;
+    }
+
+    let message = error.message ?? 'is invalid';
+    if (error.keyword === 'required') {
+      message = 'is required';
+    } else if (error.keyword === 'additionalProperties') {
+      message = 'is not allowed';
+    } else if (error.keyword === 'enum') {
+      message = `${message}: ${error.params.allowedValues.map((value: any) => JSON.stringify(value)).join(', ')}`;
+    }
+
+    return {
+      code: ExpectedErrorType.INCORRECT_INPUT_VALUE,
+      message: `${path || '/'} ${message}`,
+      path: path || '/',
+    };
+  }
+
+  /**
+   * Tells whether the field at a JSON pointer is required, along with every object it is nested in.
+   * Array items are taken to be required when their array is.
+   */
+  private isRequiredPath(schema: any, path: string): boolean {
+    const tokens = path.replace(/^\/?/, '').split('/').filter(token => token !== '').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    let node = this.resolveSchemaRef(schema, schema);
+    for (const token of tokens) {
+      if (node?.items) {
+        node = this.resolveSchemaRef(schema, Array.isArray(node.items) ? node.items[Number(token)] : node.items);
+        continue;
+      }
+      if (!node?.properties?.[token] || !node.required?.includes(token)) {
+        return false;
+      }
+      node = this.resolveSchemaRef(schema, node.properties[token]);
+    }
+    return tokens.length > 0;
+  }
+
+  /**
+   * Follows the local $ref of a schema node, such as the #/definitions/OrderInput root of the generated schemas
+   */
+  private resolveSchemaRef(schema: any, node: any): any {
+    for (let depth = 0; typeof node?.$ref === 'string' && node.$ref.startsWith('#/') && depth < 10; depth++) {
+      node = node.$ref
+        .slice(2)
+        .split('/')
+        .reduce((parent: any, token: string) => parent?.[token.replace(/~1/g, '/').replace(/~0/g, '~')], schema);
+    }
+    return node;
+  }
+
+  /**
+   * Escapes a property name for use as a JSON pointer reference token (RFC 6901)
+   */
+  private escapeJsonPointerToken(token: string): string {
+    return token.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
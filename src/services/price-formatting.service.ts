@@ -0,0 +1,74 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BacktraceCalculationStep, QuoteResult } from '../models/mongodb.model';
+import { FormattedQuoteResultDto } from '../dtos/playground-execution.dto';
+import { DEFAULT_CHAT_LOCALE } from '../config/quote.config';
+
+// Decimal numbers standing on their own, not the digits of identifiers such as "3h-single" or "v2.5"
+const STANDALONE_DECIMAL = /(?<![\w.,-])-?\d+\.\d+(?![\w-]|[.,]\d)/g;
+
+/**
+ * Formats the prices of quote results for the locale the customer chats in.
+ *
+ * Totals are formatted as amounts of the currency, or as plain numbers when there is none. Backtrace
+ * descriptions are free text written by the pricing function, so only their decimal numbers, which
+ * are amounts or rates, get the decimal separator of the locale. Whole numbers such as years and
+ * counts are left as they are.
+ */
+@Injectable()
+export class PriceFormattingService {
+  private readonly logger = new Logger(PriceFormattingService.name);
+
+  constructor() {
+    this.logger.log('PriceFormattingService initialized');
+  }
+
+  /**
+   * Returns the first of the locales that is valid, in its canonical form, or the default chat locale
+   */
+  resolveLocale(...candidates: Array<string | null | undefined>): string {
+    for (const candidate of candidates) {
+      if (!candidate) {
+        continue;
+      }
+      try {
+        return Intl.getCanonicalLocales(candidate)[0];
+      } catch (error) {
+        this.logger.warn(`Ignoring invalid locale: ${candidate}`);
+      }
+    }
+    return DEFAULT_CHAT_LOCALE;
+  }
+
+  formatQuoteResult(result: QuoteResult, locale: string, currency?: string | null): FormattedQuoteResultDto {
+    return {
+      total: typeof result.total === 'number' ? this.formatAmount(result.total, locale, currency) : null,
+      pricingCalculationBacktrace: result.pricingCalculationBacktrace
+        ? this.formatBacktraceStep(result.pricingCalculationBacktrace, locale)
+        : undefined,
+      backtraceCurrency: result.pricingCalculationBacktrace
+        ? result.conversion?.fromCurrency ?? currency ?? null
+        : undefined,
+    };
+  }
+
+  formatAmount(amount: number, locale: string, currency?: string | null): string {
+    if (!currency) {
+      return new Intl.NumberFormat(locale, { maximumFractionDigits: 10 }).format(amount);
+    }
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  }
+
+  private formatBacktraceStep(step: BacktraceCalculationStep, locale: string): BacktraceCalculationStep {
+    return {
+      operation: step.operation,
+      description: step.description?.replace(STANDALONE_DECIMAL, match => this.formatDecimal(match, locale)),
+      subTasks: step.subTasks?.map(subTask => this.formatBacktraceStep(subTask, locale)),
+    };
+  }
+
+  // Keeps the fraction digits as written, so that "12.50" stays an amount with cents
+  private formatDecimal(decimal: string, locale: string): string {
+    const fractionDigits = decimal.length - decimal.indexOf('.') - 1;
+    return new Intl.NumberFormat(locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(Number(decimal));
+  }
+}
@@ -0,0 +1,474 @@
+import { Injectable, Inject, Logger, OnModuleInit } from '@nestjs/common';
+import { Db, ObjectId, Filter, MongoServerError } from 'mongodb';
+import {
+  DeploymentPolicy,
+  DeploymentPolicyOverride,
+  PricingAgent,
+  PricingAgentCheckpoint,
+  PricingAgentDeployment,
+  WebhookEventType,
+} from '../models/mongodb.model';
+import { PricingAgentService } from './pricing-agent.service';
+import { TestingDatasetService } from './testing-dataset.service';
+import { DynamicRunnerService } from './dynamic-runner.service';
+import { WebhookService } from './webhook.service';
+import { CheckpointHappyPathTestWithData, CheckpointUnhappyPathTestWithData } from '../dtos/checkpoint-testset.dto';
+import { DeploymentGateFailingTestDto, DeploymentGateReportDto, TestsetPassRateDto } from '../dtos/deployment-gate-report.dto';
+
+type DeploymentFilter = Filter<PricingAgentDeployment>;
+type CheckpointTestWithData = CheckpointHappyPathTestWithData | CheckpointUnhappyPathTestWithData;
+
+export type DeploymentOptions = {
+  description?: string;
+  overrideDeploymentPolicy?: boolean; // deploys a checkpoint that fails the policy, recorded on the deployment
+  actorId?: string; // user recorded as the one who overrode the policy
+};
+
+/**
+ * Thrown when the checkpoint to deploy does not satisfy the deployment policy of the agent
+ */
+export class DeploymentPolicyViolationError extends Error {
+  constructor(readonly report: DeploymentGateReportDto) {
+    super('Checkpoint does not satisfy the deployment policy');
+    this.name = 'DeploymentPolicyViolationError';
+  }
+}
+
+/**
+ * Thrown when another deploy, rollback or undeploy of the same pricing agent changed its deployment concurrently
+ */
+export class DeploymentConflictError extends Error {
+  constructor(message = 'The deployment of the pricing agent was changed concurrently, retry the request') {
+    super(message);
+    this.name = 'DeploymentConflictError';
+  }
+}
+
+/**
+ * Service for promoting pricing agent checkpoints to production.
+ *
+ * A deployment pins an exact checkpoint id on the pricing agent, so editing the
+ * agent in the builder (which always creates new checkpoints) never changes the
+ * prices served by the integrations endpoints. Every deploy, rollback and undeploy
+ * is recorded in the deployment history.
+ *
+ * The newest record of an agent is the only one that is not superseded, which a unique
+ * index enforces. A record is superseded only if it is still the one the request read,
+ * so concurrent deploys, rollbacks and undeploys of an agent fail with a conflict instead
+ * of leaving several active deployments.
+ *
+ * Deploys and rollbacks are gated by the deployment policy of the agent. A checkpoint that
+ * fails it is only deployed with an explicit override, which the deployment records.
+ *
+ * Key responsibilities:
+ * - Promoting a checkpoint to production
+ * - Rolling back to the previously deployed checkpoint
+ * - Undeploying a pricing agent
+ * - Resolving the checkpoint currently served in production
+ * - Evaluating the agent's deployment policy against the checkpoint testset
+ * - Precompiling deployed formulas
+ */
+@Injectable()
+export class PricingAgentDeploymentService implements OnModuleInit {
+  private readonly logger = new Logger(PricingAgentDeploymentService.name);
+
+  constructor(
+    @Inject('DATABASE_CONNECTION') private db: Db,
+    private readonly pricingAgentService: PricingAgentService,
+    private readonly testingDatasetService: TestingDatasetService,
+    private readonly dynamicRunnerService: DynamicRunnerService,
+    private readonly webhookService: WebhookService,
+  ) {
+    this.logger.log('PricingAgentDeploymentService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<PricingAgentDeployment>('pricing-agent-deployments');
+  }
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.collection.createIndex(
+        { pricingAgentId: 1 },
+        { name: 'unique_current_deployment', unique: true, partialFilterExpression: { supersededAt: { $type: 'null' } } }
+      );
+    } catch (error) {
+      this.logger.error(`Failed to create the unique current deployment index: ${error.message}`, error.stack);
+    }
+  }
+
+  private buildDeploymentFilter(tenantId?: string, additionalFilters: Partial<DeploymentFilter> = {}): DeploymentFilter {
+    const filter: DeploymentFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  async deployCheckpoint(agent: PricingAgent, checkpoint: PricingAgentCheckpoint, tenantId?: string, options: DeploymentOptions = {}): Promise<PricingAgentDeployment> {
+    const pricingAgentId = agent._id!.toString();
+    this.logger.log(`Deploying checkpoint: ${checkpoint._id} for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const policyOverride = await this.enforceDeploymentPolicy(agent, checkpoint, options);
+      const currentRecord = await this.findCurrentRecord(pricingAgentId, tenantId);
+      const activeDeployment = this.toActiveDeployment(currentRecord);
+
+      return await this.activateDeployment(pricingAgentId, currentRecord, {
+        pricingAgentId: new ObjectId(pricingAgentId),
+        checkpointId: checkpoint._id!,
+        tenantId,
+        action: 'deploy',
+        description: options.description,
+        previousDeploymentId: activeDeployment?._id ?? null,
+        rolledBackDeploymentId: null,
+        policyOverride,
+      }, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to deploy checkpoint ${checkpoint._id} for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-deploys the checkpoint that was active before the current deployment, or the
+   * checkpoint of a specific historical deployment when targetDeploymentId is given.
+   * Repeated rollbacks keep walking back through the history.
+   */
+  async rollbackDeployment(agent: PricingAgent, tenantId?: string, targetDeploymentId?: string, options: DeploymentOptions = {}): Promise<PricingAgentDeployment> {
+    const pricingAgentId = agent._id!.toString();
+    this.logger.log(`Rolling back deployment for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const activeDeployment = this.toActiveDeployment(await this.findCurrentRecord(pricingAgentId, tenantId));
+      if (!activeDeployment) {
+        throw new Error('Pricing agent is not deployed');
+      }
+
+      if (targetDeploymentId && !ObjectId.isValid(targetDeploymentId)) {
+        throw new Error('Invalid deployment id');
+      }
+
+      const targetId = targetDeploymentId ? new ObjectId(targetDeploymentId) : activeDeployment.previousDeploymentId;
+      if (!targetId) {
+        throw new Error('No previous deployment to roll back to');
+      }
+
+      const target = await this.collection.findOne(this.buildDeploymentFilter(tenantId, {
+        _id: targetId,
+        pricingAgentId: new ObjectId(pricingAgentId),
+      }));
+      if (!target || target.action === 'undeploy') {
+        throw new Error('Deployment to roll back to not found');
+      }
+
+      const checkpoint = await this.pricingAgentService.findOneCheckpoint(target.checkpointId.toString(), tenantId);
+      if (!checkpoint) {
+        throw new Error('Checkpoint of the target deployment no longer exists');
+      }
+      const policyOverride = await this.enforceDeploymentPolicy(agent, checkpoint, options);
+
+      return await this.activateDeployment(pricingAgentId, activeDeployment, {
+        pricingAgentId: new ObjectId(pricingAgentId),
+        checkpointId: target.checkpointId,
+        tenantId,
+        action: 'rollback',
+        description: options.description || `Rolled back to deployment ${target._id}`,
+        previousDeploymentId: target.previousDeploymentId ?? null,
+        rolledBackDeploymentId: activeDeployment._id!,
+        policyOverride,
+      }, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to roll back deployment for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async undeploy(pricingAgentId: string, tenantId?: string): Promise<PricingAgent | null> {
+    this.logger.log(`Undeploying agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const activeDeployment = this.toActiveDeployment(await this.findCurrentRecord(pricingAgentId, tenantId));
+      const now = new Date();
+
+      if (activeDeployment) {
+        await this.supersedeCurrentRecord(activeDeployment, now);
+        await this.collection.insertOne({
+          pricingAgentId: new ObjectId(pricingAgentId),
+          checkpointId: activeDeployment.checkpointId,
+          tenantId,
+          action: 'undeploy',
+          previousDeploymentId: activeDeployment._id!,
+          rolledBackDeploymentId: null,
+          deployedAt: now,
+          supersededAt: null,
+        }).catch(error => this.rethrowConcurrentDeployment(error));
+      }
+
+      const agent = await this.pricingAgentService.updatePricingAgent(pricingAgentId, { isDeployed: false, deployedCheckpointId: null }, tenantId);
+      await this.webhookService.emit(WebhookEventType.AGENT_UNDEPLOYED, tenantId, {
+        pricingAgentId,
+        checkpointId: activeDeployment?.checkpointId ?? null,
+      });
+      return agent;
+    } catch (error) {
+      this.logger.error(`Failed to undeploy agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findActiveDeployment(pricingAgentId: string, tenantId?: string): Promise<PricingAgentDeployment | null> {
+    return this.toActiveDeployment(await this.findCurrentRecord(pricingAgentId, tenantId));
+  }
+
+  async findDeploymentHistory(pricingAgentId: string, tenantId?: string, limit: number = 50): Promise<PricingAgentDeployment[]> {
+    this.logger.log(`Finding deployment history for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const filter = this.buildDeploymentFilter(tenantId, { pricingAgentId: new ObjectId(pricingAgentId) });
+      const deployments = await this.collection.find(filter).sort({ deployedAt: -1 }).limit(limit).toArray();
+
+      this.logger.log(`Successfully retrieved ${deployments.length} deployments for agent: ${pricingAgentId}`);
+      return deployments;
+    } catch (error) {
+      this.logger.error(`Failed to find deployment history for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the checkpoint pinned by the agent's active deployment, or null when the agent is not deployed.
+   * Agents deployed before checkpoints were pinned keep serving their latest checkpoint, which is pinned
+   * on first use so later builder edits no longer change their prices.
+   */
+  async findDeployedCheckpoint(agent: PricingAgent, tenantId?: string): Promise<PricingAgentCheckpoint | null> {
+    if (!agent.isDeployed) {
+      return null;
+    }
+    if (agent.deployedCheckpointId) {
+      return this.pricingAgentService.findOneCheckpoint(agent.deployedCheckpointId.toString(), tenantId);
+    }
+
+    const pricingAgentId = agent._id!.toString();
+    const checkpoint = await this.pricingAgentService.findLatestCheckpoint(pricingAgentId, tenantId);
+    if (checkpoint) {
+      this.logger.warn(`Agent ${pricingAgentId} was deployed without a pinned checkpoint, pinning its latest checkpoint: ${checkpoint._id}`);
+      await this.pricingAgentService.updatePricingAgent(pricingAgentId, { deployedCheckpointId: checkpoint._id! }, tenantId);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Checks the stored testset results of a checkpoint against a deployment policy.
+   * Tests without a result count as not passed; with requireTestsetRunAfterCodeChange
+   * results older than the checkpoint are treated as stale and do not count either.
+   */
+  async evaluateDeploymentPolicy(checkpoint: PricingAgentCheckpoint, policy: DeploymentPolicy): Promise<DeploymentGateReportDto> {
+    this.logger.log(`Evaluating deployment policy for checkpoint: ${checkpoint._id}`);
+
+    try {
+      const testset = await this.testingDatasetService.getCheckpointTestset(checkpoint);
+      const happyPathTests = testset.happyPathTests || [];
+      const unhappyPathTests = testset.unhappyPathTests || [];
+      const failingTests: DeploymentGateFailingTestDto[] = [];
+
+      const happyPath = this.summarizeTests(happyPathTests, 'happy_path', checkpoint, policy, failingTests);
+      const unhappyPath = this.summarizeTests(unhappyPathTests, 'unhappy_path', checkpoint, policy, failingTests);
+
+      const violations: string[] = [];
+      if (happyPath.total === 0 && unhappyPath.total === 0) {
+        violations.push('Checkpoint has no testset');
+      }
+      if (happyPath.passRate < policy.minHappyPathPassRate) {
+        violations.push(`Happy path pass rate ${happyPath.passRate}% is below the required ${policy.minHappyPathPassRate}%`);
+      }
+      if (unhappyPath.passRate < policy.minUnhappyPathPassRate) {
+        violations.push(`Unhappy path pass rate ${unhappyPath.passRate}% is below the required ${policy.minUnhappyPathPassRate}%`);
+      }
+      const notRunCount = happyPath.notRun + unhappyPath.notRun;
+      if (policy.requireTestsetRunAfterCodeChange && notRunCount > 0) {
+        violations.push(`${notRunCount} tests have not been run against the current code`);
+      }
+
+      const report: DeploymentGateReportDto = {
+        checkpointId: checkpoint._id!.toString(),
+        passed: violations.length === 0,
+        policy,
+        violations,
+        happyPath,
+        unhappyPath,
+        failingTests,
+      };
+
+      this.logger.log(`Deployment policy ${report.passed ? 'satisfied' : 'not satisfied'} for checkpoint: ${checkpoint._id}`);
+      return report;
+    } catch (error) {
+      this.logger.error(`Failed to evaluate deployment policy for checkpoint ${checkpoint._id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluates the enabled deployment policy of the agent before a checkpoint is deployed. Returns the
+   * override to record when the checkpoint fails the policy and the deployment overrides it.
+   */
+  private async enforceDeploymentPolicy(agent: PricingAgent, checkpoint: PricingAgentCheckpoint, options: DeploymentOptions): Promise<DeploymentPolicyOverride | null> {
+    if (!agent.deploymentPolicy?.enabled) {
+      return null;
+    }
+
+    const report = await this.evaluateDeploymentPolicy(checkpoint, agent.deploymentPolicy);
+    if (report.passed) {
+      return null;
+    }
+    if (!options.overrideDeploymentPolicy) {
+      this.logger.warn(`Checkpoint ${checkpoint._id} does not satisfy the deployment policy of agent ${agent._id}: ${report.violations.join('; ')}`);
+      throw new DeploymentPolicyViolationError(report);
+    }
+
+    this.logger.warn(`Deployment policy of agent ${agent._id} overridden by ${options.actorId ?? 'unknown user'} for checkpoint ${checkpoint._id}: ${report.violations.join('; ')}`);
+    return { overriddenBy: options.actorId ?? null, violations: report.violations };
+  }
+
+  private summarizeTests(
+    tests: CheckpointTestWithData[],
+    testType: DeploymentGateFailingTestDto['testType'],
+    checkpoint: PricingAgentCheckpoint,
+    policy: DeploymentPolicy,
+    failingTests: DeploymentGateFailingTestDto[]
+  ): TestsetPassRateDto {
+    let passed = 0;
+    let failed = 0;
+    let notRun = 0;
+
+    for (const test of tests) {
+      let reason: DeploymentGateFailingTestDto['reason'] | null = null;
+      if (!test.testRunResult) {
+        reason = 'not_run';
+      } else if (policy.requireTestsetRunAfterCodeChange && (!test.lastRunAt || test.lastRunAt < checkpoint.createdAt)) {
+        reason = 'stale';
+      } else if (!test.testRunResult.passed) {
+        reason = 'failed';
+      }
+
+      if (!reason) {
+        passed++;
+        continue;
+      }
+      if (reason === 'failed') {
+        failed++;
+      } else {
+        notRun++;
+      }
+
+      failingTests.push({
+        testRunId: test._id!.toString(),
+        datasetId: test.datasetId.toString(),
+        testType,
+        reason,
+        orderInputNaturalLanguage: test.testData.orderInputNaturalLanguage,
+        expectedTotal: 'expectedTotal' in test.testData ? test.testData.expectedTotal : undefined,
+        expectedErrorType: 'expectedErrorType' in test.testData ? test.testData.expectedErrorType : undefined,
+        actualTotal: test.testRunResult?.functionResult?.total,
+        actualErrors: test.testRunResult?.functionResult?.errors,
+        runnerException: test.testRunResult?.runnerException,
+      });
+    }
+
+    const total = tests.length;
+    return {
+      total,
+      passed,
+      failed,
+      notRun,
+      passRate: total === 0 ? 0 : Math.round((passed / total) * 10000) / 100,
+    };
+  }
+
+  /**
+   * Supersedes the record the request read and inserts the new deployment, which fails with a
+   * DeploymentConflictError when another request changed the deployment of the agent in between
+   */
+  private async activateDeployment(
+    pricingAgentId: string,
+    currentRecord: PricingAgentDeployment | null,
+    deployment: Omit<PricingAgentDeployment, '_id' | 'deployedAt' | 'supersededAt'>,
+    tenantId?: string
+  ): Promise<PricingAgentDeployment> {
+    const now = new Date();
+    if (currentRecord) {
+      await this.supersedeCurrentRecord(currentRecord, now);
+    }
+
+    const doc = {
+      ...deployment,
+      deployedAt: now,
+      supersededAt: null,
+    };
+    const result = await this.collection.insertOne(doc).catch(error => this.rethrowConcurrentDeployment(error));
+
+    await this.pricingAgentService.updatePricingAgent(pricingAgentId, {
+      isDeployed: true,
+      deployedCheckpointId: deployment.checkpointId,
+    }, tenantId);
+
+    this.logger.log(`Checkpoint ${deployment.checkpointId} is now deployed for agent: ${pricingAgentId} (${deployment.action})`);
+    await this.precompileDeployedCheckpoint(deployment.checkpointId.toString(), tenantId);
+    await this.webhookService.emit(WebhookEventType.AGENT_DEPLOYED, tenantId, {
+      pricingAgentId,
+      checkpointId: deployment.checkpointId,
+      deploymentId: result.insertedId,
+      action: deployment.action,
+      description: deployment.description ?? null,
+      policyOverridden: !!deployment.policyOverride,
+    });
+    return {
+      _id: result.insertedId,
+      ...doc,
+    };
+  }
+
+  /**
+   * Warms the compiled formula cache so the first production quote skips compilation.
+   * Failures are logged only, the deployment itself already succeeded.
+   */
+  private async precompileDeployedCheckpoint(checkpointId: string, tenantId?: string): Promise<void> {
+    try {
+      const checkpoint = await this.pricingAgentService.findOneCheckpoint(checkpointId, tenantId);
+      if (checkpoint?.functionCode) {
+        this.dynamicRunnerService.precompile(checkpointId, checkpoint.functionCode, checkpoint.functionSchema);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to precompile deployed checkpoint ${checkpointId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Returns the newest record of the agent, the deployment being served or the undeploy that ended it
+   */
+  private async findCurrentRecord(pricingAgentId: string, tenantId?: string): Promise<PricingAgentDeployment | null> {
+    const filter = this.buildDeploymentFilter(tenantId, {
+      pricingAgentId: new ObjectId(pricingAgentId),
+      supersededAt: null,
+    });
+    return this.collection.findOne(filter, { sort: { deployedAt: -1 } });
+  }
+
+  private toActiveDeployment(record: PricingAgentDeployment | null): PricingAgentDeployment | null {
+    return record && record.action !== 'undeploy' ? record : null;
+  }
+
+  private async supersedeCurrentRecord(record: PricingAgentDeployment, supersededAt: Date): Promise<void> {
+    const result = await this.collection.updateOne({ _id: record._id, supersededAt: null }, { $set: { supersededAt } });
+    if (result.matchedCount === 0) {
+      throw new DeploymentConflictError();
+    }
+  }
+
+  private rethrowConcurrentDeployment(error: any): never {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new DeploymentConflictError();
+    }
+    throw error;
+  }
+}
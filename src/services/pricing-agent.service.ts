@@ -5,12 +5,19 @@ import {
   PricingAgentCheckpoint,
   HumanInputMessage,
   PricingAgent,
+  LlmPurpose,
+  PlanResource,
+  QuotaMetric,
+  WebhookEventType,
 } from '../models/mongodb.model';
 import { PricingAgentWithLatestCheckpoint } from 'src/dtos/pricing-agent-with-latest-checkpoint.dto';
 import { AddHumanInputMessageDto } from '../dtos/add-input-message.dto';
+import { CheckpointTreeDto, CheckpointTreeNodeDto } from '../dtos/checkpoint-tree.dto';
 import { AiSchemaGenerationAgentService } from '../ai-agents/ai-schema-generation.agent';
 import { AiFormulaGenerationAgentService } from '../ai-agents/ai-formula-generation.agent';
 import { LangchainCongigService } from '../ai-agents/langchain-config.service';
+import { EntitlementService } from './entitlement.service';
+import { WebhookService } from './webhook.service';
 
 type PricingAgentFilter = Filter<PricingAgent>;
 type CheckpointFilter = Filter<PricingAgentCheckpoint>;
@@ -21,6 +28,9 @@ type CheckpointMatchCondition = {
 };
 type CheckpointMap = Map<string, PricingAgentCheckpoint>;
 
+// Newest first; createdAt orders checkpoints created before versioning, which all share version 1 or none
+export const LATEST_CHECKPOINT_SORT = { version: -1, createdAt: -1 } as const;
+
 /**
  * Core service for managing pricing agents, checkpoints, and AI-powered code generation.
  *
@@ -31,7 +41,7 @@ type CheckpointMap = Map<string, PricingAgentCheckpoint>;
  *
  * Key responsibilities:
  * - Pricing agent lifecycle management (create, read, update, delete)
- * - Checkpoint versioning and history tracking
+ * - Checkpoint versioning, lineage and history tracking
  * - AI schema generation from natural language descriptions
  * - AI function generation with business rule implementation
  * - Feedback-based regeneration for iterative improvement
@@ -46,6 +56,8 @@ export class PricingAgentService {
     private readonly aiSchemaGenerationAgent: AiSchemaGenerationAgentService,
     private readonly aiFormulaGenerationAgent: AiFormulaGenerationAgentService,
     private readonly llmService: LangchainCongigService,
+    private readonly entitlementService: EntitlementService,
+    private readonly webhookService: WebhookService,
   ) {
     this.logger.log('PricingAgentService initialized');
   }
@@ -90,7 +102,12 @@ export class PricingAgentService {
         ...pricingAgent,
         createdAt: now,
       };
-      const result = await this.collection.insertOne(doc);
+      const result = await this.entitlementService.createWithinLimit(
+        pricingAgent.tenantId,
+        PlanResource.PRICING_AGENTS,
+        () => this.countPricingAgents(pricingAgent.tenantId),
+        () => this.collection.insertOne(doc)
+      );
 
       const createdAgent = {
         _id: result.insertedId,
@@ -105,6 +122,10 @@ export class PricingAgentService {
     }
   }
 
+  async countPricingAgents(tenantId?: string): Promise<number> {
+    return this.collection.countDocuments(this.buildPricingAgentFilter(tenantId));
+  }
+
   async findAllPricingAgents(tenantId?: string): Promise<PricingAgent[]> {
     this.logger.log(`Finding all pricing agents for tenant: ${tenantId}`);
 
@@ -150,7 +171,7 @@ export class PricingAgentService {
             $match: matchCondition
           },
           {
-            $sort: { version: -1 }
+            $sort: LATEST_CHECKPOINT_SORT
           },
           {
             $group: {
@@ -244,26 +265,65 @@ export class PricingAgentService {
   }
 
   // Checkpoint methods
-  async createCheckpoint(checkpoint: Omit<PricingAgentCheckpoint, '_id' | 'createdAt'>): Promise<PricingAgentCheckpoint> {
+  async createCheckpoint(checkpoint: Omit<PricingAgentCheckpoint, '_id' | 'createdAt' | 'version'>): Promise<PricingAgentCheckpoint> {
     const now = new Date();
+    const { _id, version, ...checkpointData } = checkpoint as PricingAgentCheckpoint; // clones carry the source id and version
     const doc = {
-      ...checkpoint,
+      ...checkpointData,
+      parentCheckpointId: checkpointData.parentCheckpointId ?? null,
+      version: await this.nextCheckpointVersion(checkpointData.pricingAgentId),
       createdAt: now,
     };
     const result = await this.checkpointCollection.insertOne(doc);
+
+    await this.webhookService.emit(WebhookEventType.CHECKPOINT_CREATED, doc.tenantId, {
+      pricingAgentId: doc.pricingAgentId,
+      checkpointId: result.insertedId,
+      parentCheckpointId: doc.parentCheckpointId,
+      version: doc.version,
+      checkpointTrigger: doc.checkpointTrigger,
+    });
     return {
       _id: result.insertedId,
       ...doc,
     };
   }
 
+  /**
+   * Atomically increments the agent's checkpoint counter, so concurrent edits never share a version.
+   * Agents created before versioning start counting after their existing checkpoints.
+   */
+  private async nextCheckpointVersion(pricingAgentId: ObjectId): Promise<number> {
+    const agentFilter = { _id: pricingAgentId };
+
+    const uncounted = await this.collection.countDocuments({ ...agentFilter, lastCheckpointVersion: { $exists: false } });
+    if (uncounted > 0) {
+      const existingCheckpoints = await this.checkpointCollection.countDocuments({ pricingAgentId });
+      // Only the first concurrent caller seeds the counter
+      await this.collection.updateOne(
+        { ...agentFilter, lastCheckpointVersion: { $exists: false } },
+        { $set: { lastCheckpointVersion: existingCheckpoints } }
+      );
+    }
+
+    const agent = await this.collection.findOneAndUpdate(
+      agentFilter,
+      { $inc: { lastCheckpointVersion: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!agent) {
+      throw new Error('Pricing agent not found');
+    }
+    return agent.lastCheckpointVersion!;
+  }
+
   async findAllCheckpoints(pricingAgentId?: string, tenantId?: string): Promise<PricingAgentCheckpoint[]> {
     const additionalFilters: Partial<CheckpointFilter> = {};
     if (pricingAgentId) {
       additionalFilters.pricingAgentId = new ObjectId(pricingAgentId);
     }
     const filter = this.buildCheckpointFilter(tenantId, additionalFilters);
-    return this.checkpointCollection.find(filter).sort({ version: 1 }).toArray();
+    return this.checkpointCollection.find(filter).sort({ version: 1, createdAt: 1 }).toArray();
   }
 
   async findLatestCheckpoints(pricingAgentId: string, tenantId?: string, limit: number = 50): Promise<PricingAgentCheckpoint[]> {
@@ -271,7 +331,7 @@ export class PricingAgentService {
 
     try {
       const filter = this.buildCheckpointFilter(tenantId, { pricingAgentId: new ObjectId(pricingAgentId) });
-      const checkpoints = await this.checkpointCollection.find(filter).sort({ version: -1 }).limit(limit).toArray();
+      const checkpoints = await this.checkpointCollection.find(filter).sort(LATEST_CHECKPOINT_SORT).limit(limit).toArray();
 
       this.logger.log(`Successfully retrieved ${checkpoints.length} latest checkpoints for agent: ${pricingAgentId}`);
       return checkpoints;
@@ -281,6 +341,50 @@ export class PricingAgentService {
     }
   }
 
+  /**
+   * Builds the lineage tree of an agent's checkpoints, showing where edits of older
+   * checkpoints forked the history
+   */
+  async findCheckpointTree(pricingAgentId: string, deployedCheckpointId?: ObjectId | null, tenantId?: string): Promise<CheckpointTreeDto> {
+    this.logger.log(`Building checkpoint tree for agent: ${pricingAgentId} for tenant: ${tenantId}`);
+
+    try {
+      const checkpoints = await this.findAllCheckpoints(pricingAgentId, tenantId);
+      const latestCheckpoint = await this.findLatestCheckpoint(pricingAgentId, tenantId);
+
+      const nodes = new Map<string, CheckpointTreeNodeDto>(checkpoints.map(checkpoint => [checkpoint._id!.toString(), {
+        checkpointId: checkpoint._id!.toString(),
+        version: checkpoint.version,
+        parentCheckpointId: checkpoint.parentCheckpointId?.toString() ?? null,
+        checkpointTrigger: checkpoint.checkpointTrigger,
+        checkpointDescription: checkpoint.checkpointDescription,
+        createdAt: checkpoint.createdAt,
+        isDeployed: !!deployedCheckpointId && checkpoint._id!.equals(deployedCheckpointId),
+        isLatest: !!latestCheckpoint && checkpoint._id!.equals(latestCheckpoint._id!),
+        children: [],
+      }]));
+
+      // Checkpoints are sorted oldest first, so children end up in creation order
+      const roots: CheckpointTreeNodeDto[] = [];
+      for (const node of nodes.values()) {
+        const parent = node.parentCheckpointId ? nodes.get(node.parentCheckpointId) : undefined;
+        if (parent) {
+          parent.children.push(node);
+        } else {
+          roots.push(node);
+        }
+      }
+
+      const branchPointIds = [...nodes.values()].filter(node => node.children.length > 1).map(node => node.checkpointId);
+
+      this.logger.log(`Successfully built checkpoint tree for agent: ${pricingAgentId} with ${nodes.size} checkpoints and ${branchPointIds.length} branch points`);
+      return { pricingAgentId, roots, branchPointIds };
+    } catch (error) {
+      this.logger.error(`Failed to build checkpoint tree for agent ${pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   async findOneCheckpoint(id: string, tenantId?: string): Promise<PricingAgentCheckpoint | null> {
     const filter = this.buildCheckpointFilter(tenantId, { _id: new ObjectId(id) });
     return this.checkpointCollection.findOne(filter);
@@ -288,7 +392,7 @@ export class PricingAgentService {
 
   async findLatestCheckpoint(pricingAgentId: string, tenantId?: string): Promise<PricingAgentCheckpoint | null> {
     const filter = this.buildCheckpointFilter(tenantId, { pricingAgentId: new ObjectId(pricingAgentId) });
-    return this.checkpointCollection.find(filter).sort({ version: -1 }).limit(1).toArray().then(checkpoints => checkpoints[0] || null);
+    return this.checkpointCollection.find(filter).sort(LATEST_CHECKPOINT_SORT).limit(1).toArray().then(checkpoints => checkpoints[0] || null);
   }
 
   async updateCheckpoint(id: string, updateData: Partial<Omit<PricingAgentCheckpoint, '_id' | 'createdAt'>>, tenantId?: string): Promise<PricingAgentCheckpoint | null> {
@@ -313,6 +417,7 @@ export class PricingAgentService {
     const newCheckpoint: PricingAgentCheckpoint = {
       ...sourceCheckpoint,
       _id: undefined, // Will be set by MongoDB
+      parentCheckpointId: sourceCheckpoint._id,
       humanInputMessages: [...sourceCheckpoint.humanInputMessages] as HumanInputMessage[], // Clone the array
       functionSchema: '',
       functionCode: '',
@@ -350,6 +455,7 @@ export class PricingAgentService {
     const newCheckpoint: PricingAgentCheckpoint = {
       ...sourceCheckpoint,
       _id: undefined, // Will be set by MongoDB
+      parentCheckpointId: sourceCheckpoint._id,
       humanInputMessages: [...sourceCheckpoint.humanInputMessages] as HumanInputMessage[], // Clone the array
       checkpointTrigger: 'input_message_deleted',
       createdAt: new Date(),
@@ -375,19 +481,23 @@ export class PricingAgentService {
     }
 
     // Get tenant LLM config (will throw error for free tier tenants without BYOK)
-    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.BUILDER, { pricingAgentId, checkpointId });
+    await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
+    const agent = await this.findOnePricingAgent(pricingAgentId, tenantId);
 
     // Generate only schema
     const schemaResult = await this.aiSchemaGenerationAgent.generateInputTypes({
       inputMessage: pricingDescription,
       feedback: feedback,
       currentSchema: sourceCheckpoint.functionSchema || undefined,
+      currency: agent?.currency,
     }, llmConfig);
 
     // Create new checkpoint with generated schema
     const newCheckpoint: PricingAgentCheckpoint = {
       ...sourceCheckpoint,
       _id: undefined, // Will be set by MongoDB
+      parentCheckpointId: sourceCheckpoint._id,
       functionSchema: schemaResult.code,
       functionCode: '', // Clear function code for new schema generation
       checkpointTrigger: 'function_order_schema_updated',
@@ -395,7 +505,15 @@ export class PricingAgentService {
       checkpointDescription: feedback ? `Schema regenerated with feedback: ${feedback}` : 'Schema generated',
     };
 
-    return this.createCheckpoint(newCheckpoint);
+    const checkpoint = await this.createCheckpoint(newCheckpoint);
+    await this.webhookService.emit(WebhookEventType.SCHEMA_GENERATED, tenantId, {
+      pricingAgentId,
+      checkpointId: checkpoint._id,
+      sourceCheckpointId: checkpointId,
+      version: checkpoint.version,
+      feedback: feedback ?? null,
+    });
+    return checkpoint;
   }
 
   async buildFormulaOnly(pricingAgentId: string, checkpointId: string, feedback?: string, tenantId?: string): Promise<PricingAgentCheckpoint | null> {
@@ -411,7 +529,9 @@ export class PricingAgentService {
     }
 
     // Get tenant LLM config (will throw error for free tier tenants without BYOK)
-    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.BUILDER, { pricingAgentId, checkpointId });
+    await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
+    const agent = await this.findOnePricingAgent(pricingAgentId, tenantId);
 
     // Generate only function
     const functionResult = await this.aiFormulaGenerationAgent.generatePricingFunction({
@@ -419,18 +539,28 @@ export class PricingAgentService {
       schema: sourceCheckpoint.functionSchema || '',
       feedback: feedback,
       currentFunction: sourceCheckpoint.functionCode || undefined,
+      currency: agent?.currency,
     }, llmConfig);
 
     // Create new checkpoint with generated function
     const newCheckpoint: PricingAgentCheckpoint = {
       ...sourceCheckpoint,
       _id: undefined, // Will be set by MongoDB
+      parentCheckpointId: sourceCheckpoint._id,
       functionCode: functionResult.code,
       checkpointTrigger: 'function_formula_code_updated',
       createdAt: new Date(),
       checkpointDescription: feedback ? `Function regenerated with feedback: ${feedback}` : 'Function generated',
     };
 
-    return this.createCheckpoint(newCheckpoint);
+    const checkpoint = await this.createCheckpoint(newCheckpoint);
+    await this.webhookService.emit(WebhookEventType.FORMULA_GENERATED, tenantId, {
+      pricingAgentId,
+      checkpointId: checkpoint._id,
+      sourceCheckpointId: checkpointId,
+      version: checkpoint.version,
+      feedback: feedback ?? null,
+    });
+    return checkpoint;
   }
 }
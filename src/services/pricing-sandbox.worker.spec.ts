@@ -0,0 +1,86 @@
+import { runTask, SandboxTaskMessage } from './pricing-sandbox.worker';
+import { RunnerExceptionCode } from '../models/mongodb.model';
+
+function execute(code: string, input: any = {}): ReturnType<typeof runTask> {
+  const task: SandboxTaskMessage = { taskId: 1, kind: 'execute', code, input, timeoutMs: 1000 };
+  return runTask(task);
+}
+
+describe('pricing sandbox worker', () => {
+  it('runs quoteOrder with the order input', () => {
+    const result = execute(`
+      function quoteOrder(order) {
+        console.log('pricing', order.quantity);
+        return { total: order.quantity * 2.5 };
+      }
+    `, { quantity: 4 });
+
+    expect(result).toMatchObject({ ok: true, result: { total: 10 }, logs: ['pricing 4'] });
+  });
+
+  it('does not reach the worker realm through the constructor chain of the global', () => {
+    const result = execute(`
+      function quoteOrder() {
+        const process = this.constructor.constructor('return process')();
+        return { total: 1, errors: [{ code: 'ESCAPED', message: typeof process.getBuiltinModule }] };
+      }
+    `);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe(RunnerExceptionCode.EXECUTION_ERROR);
+    expect(result.error?.message).toMatch(/Code generation from strings disallowed/);
+  });
+
+  it('does not reach the worker realm through the constructor chain of the global at top level', () => {
+    const result = execute(`
+      var escaped = (function () {
+        try {
+          return typeof globalThis.constructor.constructor('return process')();
+        } catch (error) {
+          return 'blocked';
+        }
+      })();
+      function quoteOrder() {
+        return { total: 1, escaped: escaped };
+      }
+    `);
+
+    expect(result).toMatchObject({ ok: true, result: { escaped: 'blocked' } });
+  });
+
+  it('has no process, require or Buffer in the context', () => {
+    const result = execute(`
+      function quoteOrder() {
+        return { total: 1, globals: [typeof process, typeof require, typeof Buffer, typeof setTimeout] };
+      }
+    `);
+
+    expect(result.result.globals).toEqual(['undefined', 'undefined', 'undefined', 'undefined']);
+  });
+
+  it('reads thrown values inside the context', () => {
+    const result = execute(`
+      function quoteOrder() {
+        throw { toString: function () { return this.constructor.constructor('return process')(); } };
+      }
+    `);
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe(RunnerExceptionCode.EXECUTION_ERROR);
+    expect(result.error?.message).toBe('Pricing function threw an error that could not be read');
+  });
+
+  it('reports compilation errors with the enum code', () => {
+    const result = execute('function quoteOrder( {');
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe(RunnerExceptionCode.COMPILATION_ERROR);
+  });
+
+  it('stops pricing functions that exceed the time limit', () => {
+    const result = runTask({ taskId: 1, kind: 'execute', code: 'function quoteOrder() { while (true) {} }', input: {}, timeoutMs: 50 });
+
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe(RunnerExceptionCode.TIMEOUT);
+  });
+});
@@ -0,0 +1,213 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as vm from 'vm';
+import { types } from 'util';
+import { RunnerException, RunnerExceptionCode } from '../models/mongodb.model';
+
+/**
+ * Worker thread entry point executing generated pricing code for SandboxPoolService.
+ *
+ * Each task runs in a fresh vm context that only has the JavaScript built-ins of its
+ * own realm: no Buffer, timers, process or require. The context is built from a
+ * null-prototype object and code generation from strings is disabled in it, so the
+ * constructor chain of its global ends at the Function of the context, which cannot
+ * compile code. Input, output and thrown errors cross the context boundary as JSON
+ * strings so the generated code never holds a reference to an object of the worker realm.
+ *
+ * Compiled scripts are cached per cache key (checkpoint id + code hash). The context
+ * is still created per task, so module level state of a formula never leaks between quotes.
+ */
+
+export interface SandboxWorkerData {
+  scriptCacheSize: number;
+}
+
+export interface SandboxTaskMessage {
+  taskId: number;
+  kind: 'execute' | 'compile'; // compile only warms the script cache and gets no reply
+  code: string;
+  cacheKey?: string;
+  input?: any;
+  timeoutMs: number;
+}
+
+// Posted once the worker has loaded, tasks are only dispatched to it from then on
+export interface SandboxReadyMessage {
+  ready: true;
+}
+
+export interface SandboxResultMessage {
+  taskId: number;
+  ok: boolean;
+  result?: any;
+  error?: RunnerException;
+  logs: string[];
+  scriptCacheHit: boolean;
+}
+
+// No worker data when the module is loaded outside a worker thread, e.g. by the tests
+const { scriptCacheSize } = (workerData ?? { scriptCacheSize: 0 }) as SandboxWorkerData;
+const scriptCache = new Map<string, vm.Script>();
+
+const CONTEXT_CODE_GENERATION = { strings: false, wasm: false };
+
+// Defines console inside the context so log calls never reach worker realm functions
+const CONSOLE_BOOTSTRAP = new vm.Script(`
+  var __logs = [];
+  var console = {
+    log: function () { __logs.push(Array.prototype.slice.call(arguments).map(String).join(' ')); },
+    warn: function () { __logs.push('[warn] ' + Array.prototype.slice.call(arguments).map(String).join(' ')); },
+    error: function () { __logs.push('[error] ' + Array.prototype.slice.call(arguments).map(String).join(' ')); },
+  };
+`, { filename: 'sandbox-bootstrap.js' });
+
+const INVOKE_QUOTE_ORDER = new vm.Script(`
+  if (typeof quoteOrder !== 'function') {
+    throw new Error('quoteOrder function not found in executed code');
+  }
+  JSON.stringify(quoteOrder(JSON.parse(__inputJson)));
+`, { filename: 'sandbox-invoke.js' });
+
+const READ_LOGS = new vm.Script('JSON.stringify(__logs)', { filename: 'sandbox-logs.js' });
+
+// Reads a value thrown by the generated code inside the context, where its getters and toString run under a time limit
+const DESCRIBE_ERROR = new vm.Script(`
+  JSON.stringify(__error instanceof Error
+    ? { message: String(__error.message), stack: String(__error.stack) }
+    : { message: String(__error) });
+`, { filename: 'sandbox-error.js' });
+
+const CONTEXT_READ_TIMEOUT_MS = 50;
+
+function readLogs(context: vm.Context): string[] {
+  try {
+    const logsJson = READ_LOGS.runInContext(context, { timeout: CONTEXT_READ_TIMEOUT_MS });
+    return typeof logsJson === 'string' ? JSON.parse(logsJson) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The vm time limit error is the only error created by the worker realm while the generated code runs.
+ * Its code is read from an own data property, so a value thrown by the context runs no getter or proxy trap here.
+ */
+function isTimeoutError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null || types.isProxy(error)) {
+    return false;
+  }
+  return Object.getOwnPropertyDescriptor(error, 'code')?.value === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+}
+
+/**
+ * Describes a value thrown by the generated code inside the context, it is never read from the worker realm
+ */
+function describeError(error: unknown, context: vm.Context): { message: string; stack?: string } {
+  try {
+    // Defined rather than assigned, so an __error setter of the generated code is not called from the worker realm
+    Object.defineProperty(context, '__error', { value: error, writable: true, configurable: true });
+    const errorJson = DESCRIBE_ERROR.runInContext(context, { timeout: CONTEXT_READ_TIMEOUT_MS });
+    if (typeof errorJson === 'string') {
+      return JSON.parse(errorJson);
+    }
+  } catch {
+    // Falls through to the generic message
+  }
+  return { message: 'Pricing function threw an error that could not be read' };
+}
+
+/**
+ * Returns the compiled script for a task, from the cache when the task has a cache key
+ */
+function getScript(task: SandboxTaskMessage): { script: vm.Script; cacheHit: boolean } {
+  const cached = task.cacheKey ? scriptCache.get(task.cacheKey) : undefined;
+  if (cached) {
+    // Refresh recency for LRU eviction
+    scriptCache.delete(task.cacheKey!);
+    scriptCache.set(task.cacheKey!, cached);
+    return { script: cached, cacheHit: true };
+  }
+
+  const script = new vm.Script(task.code, { filename: 'pricing-function.js' });
+  if (task.cacheKey && scriptCacheSize > 0) {
+    scriptCache.set(task.cacheKey, script);
+    if (scriptCache.size > scriptCacheSize) {
+      scriptCache.delete(scriptCache.keys().next().value!);
+    }
+  }
+  return { script, cacheHit: false };
+}
+
+export function runTask(task: SandboxTaskMessage): SandboxResultMessage {
+  let script: vm.Script;
+  let scriptCacheHit: boolean;
+  try {
+    ({ script, cacheHit: scriptCacheHit } = getScript(task));
+  } catch (error) {
+    return {
+      taskId: task.taskId,
+      ok: false,
+      error: { code: RunnerExceptionCode.COMPILATION_ERROR, message: String(error?.message ?? error), stack: error?.stack },
+      logs: [],
+      scriptCacheHit: false,
+    };
+  }
+
+  // Only primitives are set on the context object, it has no prototype of the worker realm
+  const context: vm.Context = Object.create(null);
+  context.__inputJson = JSON.stringify(task.input ?? null);
+  CONSOLE_BOOTSTRAP.runInNewContext(context, {
+    contextName: 'pricing-function',
+    contextCodeGeneration: CONTEXT_CODE_GENERATION,
+    microtaskMode: 'afterEvaluate',
+  });
+
+  let resultJson: unknown;
+  try {
+    script.runInContext(context, { timeout: task.timeoutMs });
+    resultJson = INVOKE_QUOTE_ORDER.runInContext(context, { timeout: task.timeoutMs });
+  } catch (error) {
+    const timedOut = isTimeoutError(error);
+    const { message, stack } = timedOut
+      ? { message: `Pricing function exceeded the ${task.timeoutMs}ms time limit`, stack: undefined }
+      : describeError(error, context);
+    return {
+      taskId: task.taskId,
+      ok: false,
+      error: { code: timedOut ? RunnerExceptionCode.TIMEOUT : RunnerExceptionCode.EXECUTION_ERROR, message, stack },
+      logs: readLogs(context),
+      scriptCacheHit,
+    };
+  }
+
+  // The generated code can replace JSON.stringify, anything but a string is not parsed
+  if (resultJson !== undefined && typeof resultJson !== 'string') {
+    return {
+      taskId: task.taskId,
+      ok: false,
+      error: { code: RunnerExceptionCode.EXECUTION_ERROR, message: 'quoteOrder result could not be serialized' },
+      logs: readLogs(context),
+      scriptCacheHit,
+    };
+  }
+
+  return {
+    taskId: task.taskId,
+    ok: true,
+    result: resultJson === undefined ? undefined : JSON.parse(resultJson),
+    logs: readLogs(context),
+    scriptCacheHit,
+  };
+}
+
+parentPort?.on('message', (task: SandboxTaskMessage) => {
+  if (task.kind === 'compile') {
+    try {
+      getScript(task);
+    } catch {
+      // Compilation errors are reported when the script is executed
+    }
+    return;
+  }
+  parentPort!.postMessage(runTask(task));
+});
+parentPort?.postMessage({ ready: true } satisfies SandboxReadyMessage);
@@ -0,0 +1,230 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Db, ObjectId, Filter } from 'mongodb';
+import { Quote, QuoteResult, QuoteSource, WebhookEventType } from '../models/mongodb.model';
+import { QUOTE_VALIDITY_HOURS } from '../config/quote.config';
+import { WebhookService } from './webhook.service';
+
+type QuoteFilter = Filter<Quote>;
+
+export type RecordQuoteData = {
+  pricingAgentId: string;
+  checkpointId: string;
+  source: QuoteSource;
+  apiKeyId?: string;
+  inputParams: any;
+  result: QuoteResult;
+  repricedFromQuoteId?: string;
+};
+
+export type QuoteSearchCriteria = {
+  pricingAgentId?: string;
+  checkpointId?: string;
+  source?: QuoteSource;
+  apiKeyId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export class QuoteNotFoundError extends Error {
+  constructor() {
+    super('Quote not found');
+    this.name = 'QuoteNotFoundError';
+  }
+}
+
+export class QuoteAlreadyAcceptedError extends Error {
+  constructor() {
+    super('Quote has already been accepted');
+    this.name = 'QuoteAlreadyAcceptedError';
+  }
+}
+
+export class QuoteExpiredError extends Error {
+  constructor() {
+    super('Quote has expired');
+    this.name = 'QuoteExpiredError';
+  }
+}
+
+/**
+ * Thrown when a quote has no total or has errors, so there is no price to honor
+ */
+export class QuoteNotAcceptableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteNotAcceptableError';
+  }
+}
+
+/**
+ * Service for the quote ledger.
+ *
+ * Every quote served in production or in the playground is recorded together with
+ * the checkpoint (formula version) and the input that produced it, so the quoted
+ * price can be proven later. A quote can be accepted at its original total until its
+ * validUntil date, even when the agent has been redeployed with new prices since.
+ */
+@Injectable()
+export class QuoteService {
+  private readonly logger = new Logger(QuoteService.name);
+
+  constructor(
+    @Inject('DATABASE_CONNECTION') private db: Db,
+    private readonly webhookService: WebhookService,
+  ) {
+    this.logger.log('QuoteService initialized');
+  }
+
+  private get collection() {
+    return this.db.collection<Quote>('quotes');
+  }
+
+  private buildQuoteFilter(tenantId?: string, additionalFilters: Partial<QuoteFilter> = {}): QuoteFilter {
+    const filter: QuoteFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  async recordQuote(data: RecordQuoteData, tenantId?: string): Promise<Quote> {
+    this.logger.log(`Recording ${data.source} quote for agent: ${data.pricingAgentId} (checkpoint: ${data.checkpointId}) for tenant: ${tenantId}`);
+
+    try {
+      const now = new Date();
+      const quote: Quote = {
+        tenantId,
+        pricingAgentId: new ObjectId(data.pricingAgentId),
+        checkpointId: new ObjectId(data.checkpointId),
+        source: data.source,
+        apiKeyId: data.apiKeyId ? new ObjectId(data.apiKeyId) : null,
+        inputParams: data.inputParams,
+        result: data.result,
+        createdAt: now,
+        validUntil: new Date(now.getTime() + QUOTE_VALIDITY_HOURS * 60 * 60 * 1000),
+        acceptedAt: null,
+        repricedFromQuoteId: data.repricedFromQuoteId ? new ObjectId(data.repricedFromQuoteId) : null,
+      };
+
+      const result = await this.collection.insertOne(quote);
+      this.logger.log(`Successfully recorded quote: ${result.insertedId}`);
+
+      // Playground quotes are test runs of the builder, not quotes issued to customers
+      if (quote.source !== QuoteSource.PLAYGROUND) {
+        await this.webhookService.emit(WebhookEventType.QUOTE_ISSUED, tenantId, {
+          quoteId: result.insertedId,
+          pricingAgentId: quote.pricingAgentId,
+          checkpointId: quote.checkpointId,
+          source: quote.source,
+          total: quote.result.total ?? null,
+          currency: quote.result.currency ?? null,
+          errors: quote.result.errors ?? [],
+          validUntil: quote.validUntil,
+          repricedFromQuoteId: quote.repricedFromQuoteId,
+        });
+      }
+      return { ...quote, _id: result.insertedId };
+    } catch (error) {
+      this.logger.error(`Failed to record quote for agent ${data.pricingAgentId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findQuotes(tenantId?: string, criteria: QuoteSearchCriteria = {}, limit: number = 50, skip: number = 0): Promise<Quote[]> {
+    this.logger.log(`Finding quotes for tenant: ${tenantId}`);
+
+    try {
+      const additionalFilters: Partial<QuoteFilter> = {};
+      if (criteria.pricingAgentId) {
+        additionalFilters.pricingAgentId = new ObjectId(criteria.pricingAgentId);
+      }
+      if (criteria.checkpointId) {
+        additionalFilters.checkpointId = new ObjectId(criteria.checkpointId);
+      }
+      if (criteria.source) {
+        additionalFilters.source = criteria.source;
+      }
+      if (criteria.apiKeyId) {
+        additionalFilters.apiKeyId = new ObjectId(criteria.apiKeyId);
+      }
+      if (criteria.from || criteria.to) {
+        additionalFilters.createdAt = {
+          ...(criteria.from ? { $gte: criteria.from } : {}),
+          ...(criteria.to ? { $lte: criteria.to } : {}),
+        };
+      }
+
+      const filter = this.buildQuoteFilter(tenantId, additionalFilters);
+      const quotes = await this.collection.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit).toArray();
+
+      this.logger.log(`Successfully retrieved ${quotes.length} quotes for tenant: ${tenantId}`);
+      return quotes;
+    } catch (error) {
+      this.logger.error(`Failed to find quotes for tenant ${tenantId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findOneQuote(id: string, tenantId?: string): Promise<Quote | null> {
+    this.logger.log(`Finding quote: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const filter = this.buildQuoteFilter(tenantId, { _id: new ObjectId(id) });
+      const quote = await this.collection.findOne(filter);
+
+      if (quote) {
+        this.logger.log(`Successfully found quote: ${id}`);
+      } else {
+        this.logger.warn(`Quote not found: ${id} for tenant: ${tenantId}`);
+      }
+      return quote;
+    } catch (error) {
+      this.logger.error(`Failed to find quote ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Marks a quote as accepted, keeping the total it was quoted with.
+   * Only quotes that are still valid, have a total without errors and were not accepted before can be accepted.
+   */
+  async acceptQuote(id: string, tenantId?: string): Promise<Quote> {
+    this.logger.log(`Accepting quote: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const now = new Date();
+      const filter = this.buildQuoteFilter(tenantId, {
+        _id: new ObjectId(id),
+        acceptedAt: null,
+        validUntil: { $gt: now },
+        'result.total': { $type: 'number' },
+        'result.errors.0': { $exists: false },
+      });
+
+      const accepted = await this.collection.findOneAndUpdate(filter, { $set: { acceptedAt: now } }, { returnDocument: 'after' });
+      if (accepted) {
+        this.logger.log(`Successfully accepted quote: ${id} with total: ${accepted.result.total}`);
+        return accepted;
+      }
+
+      // Find out why the quote could not be accepted
+      const quote = await this.findOneQuote(id, tenantId);
+      if (!quote) {
+        throw new QuoteNotFoundError();
+      }
+      if (quote.acceptedAt) {
+        throw new QuoteAlreadyAcceptedError();
+      }
+      if (typeof quote.result?.total !== 'number') {
+        throw new QuoteNotAcceptableError('Quote has no total to accept');
+      }
+      if (quote.result.errors?.length) {
+        throw new QuoteNotAcceptableError('Quote has errors and cannot be accepted');
+      }
+      throw new QuoteExpiredError();
+    } catch (error) {
+      this.logger.error(`Failed to accept quote ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { MemoryRateLimitStore, MongoRateLimitStore, RateLimitService } from './rate-limit.service';
+import { RATE_LIMITS, RateLimitBucket } from '../config/rate-limit.config';
+
+const now = new Date('2026-01-01T00:00:00Z');
+const { apiKey: apiKeyPolicy, tenant: tenantPolicy } = RATE_LIMITS[RateLimitBucket.CHAT];
+
+describe('rate limit service', () => {
+  let store: MemoryRateLimitStore;
+  let service: RateLimitService;
+
+  const consumeAll = async (apiKeyId: string, tenantId?: string) => {
+    for (let request = 0; request < apiKeyPolicy.limit; request++) {
+      await service.consume(RateLimitBucket.CHAT, apiKeyId, tenantId);
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    store = new MemoryRateLimitStore();
+    service = new RateLimitService(store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('denies requests of an API key over its budget until a token is refilled', async () => {
+    await consumeAll('key-1');
+
+    const denied = await service.consume(RateLimitBucket.CHAT, 'key-1');
+    const refillSeconds = apiKeyPolicy.windowSeconds / apiKeyPolicy.limit;
+    expect(denied).toEqual({
+      allowed: false,
+      scope: 'API key',
+      policy: apiKeyPolicy,
+      remaining: 0,
+      resetSeconds: apiKeyPolicy.windowSeconds,
+      retryAfterSeconds: Math.ceil(refillSeconds),
+    });
+
+    jest.advanceTimersByTime(refillSeconds * 1000 - 100);
+    expect((await service.consume(RateLimitBucket.CHAT, 'key-1')).allowed).toBe(false);
+
+    jest.advanceTimersByTime(100);
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-1')).toMatchObject({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+  });
+
+  it('refills a bucket up to its limit', async () => {
+    await consumeAll('key-1');
+    jest.advanceTimersByTime(apiKeyPolicy.windowSeconds * 10 * 1000);
+
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-1')).toMatchObject({ allowed: true, remaining: apiKeyPolicy.limit - 1 });
+  });
+
+  it('keeps separate buckets per endpoint bucket and API key', async () => {
+    await consumeAll('key-1');
+
+    expect((await service.consume(RateLimitBucket.CHAT, 'key-2')).allowed).toBe(true);
+    expect((await service.consume(RateLimitBucket.PRICE, 'key-1')).allowed).toBe(true);
+  });
+
+  it('does not take from the tenant bucket for requests the API key bucket denies', async () => {
+    await consumeAll('key-1', 'tenant-1');
+    const take = jest.spyOn(store, 'take');
+
+    await service.consume(RateLimitBucket.CHAT, 'key-1', 'tenant-1');
+
+    expect(take.mock.calls.map(([key]) => key)).toEqual(['chat:api-key:key-1']);
+  });
+
+  it('refunds the API key bucket when the tenant bucket denies the request', async () => {
+    const keys = Math.ceil(tenantPolicy.limit / apiKeyPolicy.limit);
+    for (let key = 0; key < keys; key++) {
+      await consumeAll(`key-${key}`, 'tenant-1');
+    }
+    const take = jest.spyOn(store, 'take');
+
+    const denied = await service.consume(RateLimitBucket.CHAT, 'key-new', 'tenant-1');
+
+    expect(denied).toMatchObject({ allowed: false, scope: 'tenant', policy: tenantPolicy });
+    expect(take.mock.calls.map(([key]) => key)).toEqual(['chat:api-key:key-new', 'chat:tenant:tenant-1']);
+    expect(await store.take('chat:api-key:key-new', apiKeyPolicy, new Date())).toEqual({ allowed: true, tokens: apiKeyPolicy.limit - 1 });
+  });
+
+  it('returns the bucket closest to running out', async () => {
+    await consumeAll('key-1', 'tenant-1');
+
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-2', 'tenant-1')).toMatchObject({
+      allowed: true,
+      scope: 'API key',
+      remaining: apiKeyPolicy.limit - 1,
+    });
+
+    await consumeAll('key-3', 'tenant-1');
+
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-4', 'tenant-1')).toMatchObject({
+      allowed: true,
+      scope: 'tenant',
+      remaining: tenantPolicy.limit - 2 * apiKeyPolicy.limit - 2,
+    });
+  });
+
+  it('lets requests through when the store is unavailable', async () => {
+    jest.spyOn(store, 'take').mockRejectedValue(new Error('connection closed'));
+
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-1', 'tenant-1')).toMatchObject({
+      allowed: true,
+      remaining: apiKeyPolicy.limit,
+      retryAfterSeconds: 0,
+    });
+  });
+
+  it('still denies the request when the refund fails', async () => {
+    jest.spyOn(store, 'take').mockImplementation(async key => ({ allowed: key.startsWith('chat:api-key:'), tokens: 0 }));
+    jest.spyOn(store, 'refund').mockRejectedValue(new Error('connection closed'));
+
+    expect(await service.consume(RateLimitBucket.CHAT, 'key-1', 'tenant-1')).toMatchObject({ allowed: false, scope: 'tenant' });
+  });
+});
+
+describe('mongo rate limit store', () => {
+  let findOneAndUpdate: jest.Mock;
+  let updateOne: jest.Mock;
+  let store: MongoRateLimitStore;
+
+  beforeEach(() => {
+    findOneAndUpdate = jest.fn().mockResolvedValue({ _id: 'chat:api-key:key-1', tokens: 18.5, refilledAt: now, allowed: true });
+    updateOne = jest.fn().mockResolvedValue({ matchedCount: 1 });
+    store = new MongoRateLimitStore({ collection: () => ({ findOneAndUpdate, updateOne }) } as any);
+  });
+
+  it('refills and takes a token in a single upserted pipeline update', async () => {
+    expect(await store.take('chat:api-key:key-1', apiKeyPolicy, now)).toEqual({ allowed: true, tokens: 18.5 });
+
+    const refillPerMs = apiKeyPolicy.limit / (apiKeyPolicy.windowSeconds * 1000);
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'chat:api-key:key-1' },
+      [
+        {
+          $set: {
+            tokens: {
+              $min: [
+                apiKeyPolicy.limit,
+                {
+                  $add: [
+                    { $ifNull: ['$tokens', apiKeyPolicy.limit] },
+                    { $multiply: [{ $subtract: [now, { $ifNull: ['$refilledAt', now] }] }, refillPerMs] },
+                  ],
+                },
+              ],
+            },
+            refilledAt: now,
+          },
+        },
+        { $set: { allowed: { $gte: ['$tokens', 1] } } },
+        { $set: { tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] } } },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+  });
+
+  it('refunds a token up to the limit of the bucket', async () => {
+    await store.refund('chat:api-key:key-1', apiKeyPolicy);
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: 'chat:api-key:key-1' },
+      [{ $set: { tokens: { $min: [apiKeyPolicy.limit, { $add: ['$tokens', 1] }] } } }]
+    );
+  });
+});
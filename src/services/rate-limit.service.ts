@@ -0,0 +1,182 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Db } from 'mongodb';
+import { RATE_LIMIT_STORE_TYPE, RATE_LIMITS, RateLimitBucket, RateLimitPolicy } from '../config/rate-limit.config';
+
+/**
+ * Keeps the token buckets. take() refills the bucket for the time elapsed since it was last
+ * used, takes a token when there is one and returns the tokens left, atomically for the key.
+ * refund() gives back a token taken for a request another bucket denied.
+ */
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: Date): Promise<{ allowed: boolean; tokens: number }>;
+  refund(key: string, policy: RateLimitPolicy): Promise<void>;
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  scope: 'API key' | 'tenant';
+  policy: RateLimitPolicy;
+  remaining: number; // whole requests left in the bucket
+  resetSeconds: number; // until the bucket is full again
+  retryAfterSeconds: number; // until the next request is allowed, 0 when allowed
+};
+
+function refillPerMs(policy: RateLimitPolicy): number {
+  return policy.limit / (policy.windowSeconds * 1000);
+}
+
+/**
+ * Buckets kept in the API process, for a single instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; refilledAt: number }>();
+
+  async take(key: string, policy: RateLimitPolicy, now: Date): Promise<{ allowed: boolean; tokens: number }> {
+    const bucket = this.buckets.get(key) ?? { tokens: policy.limit, refilledAt: now.getTime() };
+    bucket.tokens = Math.min(policy.limit, bucket.tokens + (now.getTime() - bucket.refilledAt) * refillPerMs(policy));
+    bucket.refilledAt = now.getTime();
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    this.buckets.set(key, bucket);
+    return { allowed, tokens: bucket.tokens };
+  }
+
+  async refund(key: string, policy: RateLimitPolicy): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (bucket) {
+      bucket.tokens = Math.min(policy.limit, bucket.tokens + 1);
+    }
+  }
+}
+
+type RateLimitBucketDocument = {
+  _id: string;
+  tokens: number;
+  refilledAt: Date;
+  allowed: boolean;
+};
+
+/**
+ * Buckets shared by all API instances, refilled and taken from in a single pipeline update
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  constructor(private readonly db: Db) {}
+
+  private get collection() {
+    return this.db.collection<RateLimitBucketDocument>('rate-limit-buckets');
+  }
+
+  async take(key: string, policy: RateLimitPolicy, now: Date): Promise<{ allowed: boolean; tokens: number }> {
+    const bucket = await this.collection.findOneAndUpdate(
+      { _id: key },
+      [
+        {
+          $set: {
+            tokens: {
+              $min: [
+                policy.limit,
+                {
+                  $add: [
+                    { $ifNull: ['$tokens', policy.limit] },
+                    { $multiply: [{ $subtract: [now, { $ifNull: ['$refilledAt', now] }] }, refillPerMs(policy)] },
+                  ],
+                },
+              ],
+            },
+            refilledAt: now,
+          },
+        },
+        { $set: { allowed: { $gte: ['$tokens', 1] } } },
+        { $set: { tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] } } },
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    return { allowed: bucket!.allowed, tokens: bucket!.tokens };
+  }
+
+  async refund(key: string, policy: RateLimitPolicy): Promise<void> {
+    await this.collection.updateOne(
+      { _id: key },
+      [{ $set: { tokens: { $min: [policy.limit, { $add: ['$tokens', 1] }] } } }]
+    );
+  }
+}
+
+export const rateLimitStoreProvider = {
+  provide: 'RATE_LIMIT_STORE',
+  useFactory: (db: Db): RateLimitStore => {
+    return RATE_LIMIT_STORE_TYPE === 'mongodb' ? new MongoRateLimitStore(db) : new MemoryRateLimitStore();
+  },
+  inject: ['DATABASE_CONNECTION'],
+};
+
+/**
+ * Service for the rate limits of the integration endpoints.
+ *
+ * Each API key and each tenant has a token bucket per endpoint bucket (see RATE_LIMITS), so a
+ * single client cannot use up the budget of the tenant's other integrations and the chat
+ * endpoint, which makes LLM calls, is limited separately from pricing.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+
+  constructor(@Inject('RATE_LIMIT_STORE') private readonly store: RateLimitStore) {
+    this.logger.log(`RateLimitService initialized with ${RATE_LIMIT_STORE_TYPE} store`);
+  }
+
+  /**
+   * Takes a request from the API key bucket, then from the tenant bucket, and returns the result
+   * of the bucket that denied the request or is closest to running out. A request the tenant bucket
+   * denies is refunded to the API key bucket, so a busy tenant does not drain the budget of its keys.
+   */
+  async consume(bucket: RateLimitBucket, apiKeyId: string, tenantId?: string): Promise<RateLimitResult> {
+    const now = new Date();
+    const policies = RATE_LIMITS[bucket];
+
+    const apiKeyResult = await this.take(`${bucket}:api-key:${apiKeyId}`, 'API key', policies.apiKey, now);
+    if (!apiKeyResult.allowed || !tenantId) {
+      return apiKeyResult;
+    }
+
+    const tenantResult = await this.take(`${bucket}:tenant:${tenantId}`, 'tenant', policies.tenant, now);
+    if (!tenantResult.allowed) {
+      await this.refund(`${bucket}:api-key:${apiKeyId}`, policies.apiKey);
+      return tenantResult;
+    }
+    return tenantResult.remaining < apiKeyResult.remaining ? tenantResult : apiKeyResult;
+  }
+
+  private async refund(key: string, policy: RateLimitPolicy): Promise<void> {
+    try {
+      await this.store.refund(key, policy);
+    } catch (error) {
+      this.logger.error(`Failed to refund rate limit bucket ${key}: ${error.message}`, error.stack);
+    }
+  }
+
+  private async take(key: string, scope: RateLimitResult['scope'], policy: RateLimitPolicy, now: Date): Promise<RateLimitResult> {
+    let bucket: { allowed: boolean; tokens: number };
+    try {
+      bucket = await this.store.take(key, policy, now);
+    } catch (error) {
+      // Let requests through rather than failing the integrations when the store is unavailable
+      this.logger.error(`Failed to take from rate limit bucket ${key}: ${error.message}`, error.stack);
+      bucket = { allowed: true, tokens: policy.limit };
+    }
+
+    const refillPerSecond = refillPerMs(policy) * 1000;
+    return {
+      allowed: bucket.allowed,
+      scope,
+      policy,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil((policy.limit - bucket.tokens) / refillPerSecond),
+      retryAfterSeconds: bucket.allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillPerSecond),
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { SandboxExecutionError, SandboxPoolService } from './sandbox-pool.service';
+import { RunnerExceptionCode } from '../models/mongodb.model';
+
+describe('sandbox pool', () => {
+  let pool: SandboxPoolService;
+
+  beforeEach(() => {
+    pool = new SandboxPoolService();
+  });
+
+  afterEach(async () => {
+    await pool.onModuleDestroy();
+  });
+
+  it('runs pricing code in a worker when running from the TypeScript sources', async () => {
+    const result = await pool.run('function quoteOrder(order) { return { total: order.quantity * 3 }; }', { quantity: 2 });
+
+    expect(result).toEqual({ total: 6 });
+  }, 30000);
+
+  it('rejects with the runner exception code of the worker', async () => {
+    const error = await pool.run('function quoteOrder( {', {}).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SandboxExecutionError);
+    expect(error.code).toBe(RunnerExceptionCode.COMPILATION_ERROR);
+  }, 30000);
+});
@@ -0,0 +1,270 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import { QuoteResult, RunnerException, RunnerExceptionCode } from '../models/mongodb.model';
+import { SANDBOX_MAX_HEAP_MB, SANDBOX_POOL_SIZE, SANDBOX_SCRIPT_CACHE_SIZE, SANDBOX_TIMEOUT_MS } from '../config/sandbox.config';
+import type { SandboxReadyMessage, SandboxResultMessage, SandboxTaskMessage, SandboxWorkerData } from './pricing-sandbox.worker';
+
+/**
+ * Error raised when generated pricing code cannot be executed in the sandbox.
+ * The code distinguishes time limit, heap limit, compilation and runtime failures.
+ */
+export class SandboxExecutionError extends Error {
+  constructor(
+    public readonly code: RunnerExceptionCode,
+    message: string,
+    public readonly sandboxStack?: string,
+  ) {
+    super(message);
+    this.name = 'SandboxExecutionError';
+  }
+
+  toRunnerException(): RunnerException {
+    return { code: this.code, message: this.message, stack: this.sandboxStack };
+  }
+}
+
+// The compiled worker next to this file, or under ts-node and jest, which run from src, the TypeScript
+// worker registered with ts-node since workers are not loaded through the loader of the main thread
+const SANDBOX_WORKER = __filename.endsWith('.ts')
+  ? {
+      source: `require(${JSON.stringify(require.resolve('ts-node/register/transpile-only'))});
+require(${JSON.stringify(path.join(__dirname, 'pricing-sandbox.worker.ts'))});`,
+      eval: true,
+    }
+  : { source: path.join(__dirname, 'pricing-sandbox.worker.js'), eval: false };
+
+type PendingTask = {
+  message: SandboxTaskMessage;
+  resolve: (result: QuoteResult) => void;
+  reject: (error: SandboxExecutionError) => void;
+};
+
+type PooledWorker = {
+  worker: Worker;
+  ready: boolean; // set once the worker has loaded, so loading never counts against the task timeout
+  task: PendingTask | null;
+  timer: NodeJS.Timeout | null;
+};
+
+export type SandboxPoolMetrics = {
+  poolSize: number;
+  activeWorkers: number;
+  queuedTasks: number;
+  scriptCacheHits: number;
+  scriptCacheMisses: number;
+};
+
+// Extra time granted to the worker before it is terminated, on top of the vm timeout
+const WALL_CLOCK_GRACE_MS = 250;
+
+/**
+ * Pool of worker threads executing generated pricing code.
+ *
+ * Every worker runs with a heap limit and every task with a wall-clock timeout. A
+ * worker that exceeds either limit is terminated and replaced, so an infinite loop
+ * or a runaway allocation in a generated formula never blocks the API event loop.
+ * Tasks are only dispatched to workers that have finished loading.
+ */
+@Injectable()
+export class SandboxPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(SandboxPoolService.name);
+  private readonly workers: PooledWorker[] = [];
+  private readonly queue: PendingTask[] = [];
+  private nextTaskId = 1;
+  private destroyed = false;
+  private scriptCacheHits = 0;
+  private scriptCacheMisses = 0;
+
+  constructor() {
+    this.logger.log(`SandboxPoolService initialized (size: ${SANDBOX_POOL_SIZE}, timeout: ${SANDBOX_TIMEOUT_MS}ms, heap: ${SANDBOX_MAX_HEAP_MB}MB)`);
+  }
+
+  /**
+   * Executes transpiled pricing code and calls its quoteOrder function with the input.
+   * With a cache key the workers reuse the compiled script across calls.
+   */
+  run(code: string, input: any, cacheKey?: string): Promise<QuoteResult> {
+    if (this.destroyed) {
+      return Promise.reject(new SandboxExecutionError(RunnerExceptionCode.SANDBOX_ERROR, 'Sandbox pool is shut down'));
+    }
+
+    return new Promise<QuoteResult>((resolve, reject) => {
+      this.queue.push({
+        message: { taskId: this.nextTaskId++, kind: 'execute', code, cacheKey, input, timeoutMs: SANDBOX_TIMEOUT_MS },
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Compiles a script into the cache of every worker, spawning the full pool if needed
+   */
+  warm(code: string, cacheKey: string): void {
+    if (this.destroyed) {
+      return;
+    }
+    while (this.workers.length < SANDBOX_POOL_SIZE) {
+      this.spawnWorker();
+    }
+    for (const pooled of this.workers) {
+      pooled.worker.postMessage({ taskId: 0, kind: 'compile', code, cacheKey, timeoutMs: SANDBOX_TIMEOUT_MS } satisfies SandboxTaskMessage);
+    }
+  }
+
+  getMetrics(): SandboxPoolMetrics {
+    return {
+      poolSize: SANDBOX_POOL_SIZE,
+      activeWorkers: this.workers.filter(pooled => pooled.task).length,
+      queuedTasks: this.queue.length,
+      scriptCacheHits: this.scriptCacheHits,
+      scriptCacheMisses: this.scriptCacheMisses,
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.destroyed = true;
+    for (const task of this.queue.splice(0)) {
+      task.reject(new SandboxExecutionError(RunnerExceptionCode.SANDBOX_ERROR, 'Sandbox pool is shut down'));
+    }
+    await Promise.all(this.workers.splice(0).map(pooled => this.terminate(pooled)));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const pooled = this.acquireWorker();
+      if (!pooled) {
+        return;
+      }
+
+      const task = this.queue.shift()!;
+      pooled.task = task;
+      pooled.timer = setTimeout(() => {
+        this.logger.warn(`Sandbox task ${task.message.taskId} exceeded ${task.message.timeoutMs}ms, terminating worker`);
+        this.failWorker(pooled, new SandboxExecutionError(
+          RunnerExceptionCode.TIMEOUT,
+          `Pricing function exceeded the ${task.message.timeoutMs}ms time limit`,
+        ));
+      }, task.message.timeoutMs + WALL_CLOCK_GRACE_MS);
+
+      pooled.worker.postMessage(task.message);
+    }
+  }
+
+  /**
+   * Returns an idle worker, or null while the queued tasks wait for a worker, spawning one that
+   * dispatches them once it is ready when the pool is not full
+   */
+  private acquireWorker(): PooledWorker | null {
+    const idle = this.workers.find(pooled => pooled.ready && !pooled.task);
+    if (idle) {
+      return idle;
+    }
+    const loading = this.workers.filter(pooled => !pooled.ready).length;
+    if (this.workers.length < SANDBOX_POOL_SIZE && loading < this.queue.length) {
+      this.spawnWorker();
+    }
+    return null;
+  }
+
+  private spawnWorker(): PooledWorker {
+    const worker = new Worker(SANDBOX_WORKER.source, {
+      eval: SANDBOX_WORKER.eval,
+      env: {},
+      workerData: { scriptCacheSize: SANDBOX_SCRIPT_CACHE_SIZE } satisfies SandboxWorkerData,
+      resourceLimits: {
+        maxOldGenerationSizeMb: SANDBOX_MAX_HEAP_MB,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(SANDBOX_MAX_HEAP_MB / 4)),
+      },
+    });
+    const pooled: PooledWorker = { worker, ready: false, task: null, timer: null };
+
+    worker.on('message', (message: SandboxResultMessage | SandboxReadyMessage) => {
+      if ('ready' in message) {
+        pooled.ready = true;
+        this.dispatch();
+      } else {
+        this.handleResult(pooled, message);
+      }
+    });
+    worker.on('error', (error: Error & { code?: string }) => {
+      const outOfMemory = error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+      this.logger.warn(`Sandbox worker failed: ${error.message}`);
+      this.failWorker(pooled, new SandboxExecutionError(
+        outOfMemory ? RunnerExceptionCode.OUT_OF_MEMORY : RunnerExceptionCode.SANDBOX_ERROR,
+        outOfMemory ? `Pricing function exceeded the ${SANDBOX_MAX_HEAP_MB}MB memory limit` : error.message,
+      ));
+    });
+    worker.on('exit', (exitCode) => {
+      if (this.workers.includes(pooled)) {
+        this.failWorker(pooled, new SandboxExecutionError(RunnerExceptionCode.SANDBOX_ERROR, `Sandbox worker exited with code ${exitCode}`));
+      }
+    });
+
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  private handleResult(pooled: PooledWorker, message: SandboxResultMessage): void {
+    const task = pooled.task;
+    if (!task || task.message.taskId !== message.taskId) {
+      return;
+    }
+
+    this.releaseWorker(pooled);
+    if (message.scriptCacheHit) {
+      this.scriptCacheHits++;
+    } else {
+      this.scriptCacheMisses++;
+    }
+    for (const log of message.logs) {
+      this.logger.debug(`Sandbox log: ${log}`);
+    }
+
+    if (message.ok) {
+      task.resolve(message.result);
+    } else {
+      const error = message.error!;
+      task.reject(new SandboxExecutionError(error.code, error.message, error.stack));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Rejects the worker's current task, removes the worker from the pool and replaces it
+   */
+  private failWorker(pooled: PooledWorker, error: SandboxExecutionError): void {
+    const index = this.workers.indexOf(pooled);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+
+    const task = pooled.task;
+    this.releaseWorker(pooled);
+    void this.terminate(pooled);
+    task?.reject(error);
+
+    if (!this.destroyed) {
+      this.dispatch();
+    }
+  }
+
+  private releaseWorker(pooled: PooledWorker): void {
+    if (pooled.timer) {
+      clearTimeout(pooled.timer);
+    }
+    pooled.timer = null;
+    pooled.task = null;
+  }
+
+  private async terminate(pooled: PooledWorker): Promise<void> {
+    try {
+      await pooled.worker.terminate();
+    } catch (error) {
+      this.logger.warn(`Failed to terminate sandbox worker: ${error.message}`);
+    }
+  }
+}
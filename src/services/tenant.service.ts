@@ -1,16 +1,18 @@
 import { Injectable, Inject } from '@nestjs/common';
 import { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
-import { Tenant, User, UserTenant, LLMConfiguration, ChatwootConfiguration } from '../models/mongodb.model';
+import { Tenant, User, UserTenant, LLMConfiguration, ChatwootConfiguration, FxRateTable, PlanResource } from '../models/mongodb.model';
 import { UpdateTenantDto } from '../dtos/update-tenant.dto';
 import { TenantDto } from '../dtos/tenant.dto';
 import { LLMConfigurationResponseDto } from '../dtos/llm-configuration-response.dto';
+import { EntitlementService } from './entitlement.service';
 
 @Injectable()
 export class TenantService {
   constructor(
     @Inject('DATABASE_CONNECTION')
-    private db: Db
+    private db: Db,
+    private readonly entitlementService: EntitlementService
   ) { }
 
   private transformLLMConfiguration(config: LLMConfiguration | undefined): LLMConfigurationResponseDto | undefined {
@@ -166,6 +168,42 @@ export class TenantService {
     return this.transformTenantToDto(result.value as Tenant);
   }
 
+  /**
+   * Replaces the static exchange rates of the tenant, null removes them
+   */
+  async updateTenantFxRates(tenantId: string, fxRates: FxRateTable | null): Promise<TenantDto | null> {
+    const result = await this.db.collection('tenants').findOneAndUpdate(
+      { _id: new ObjectId(tenantId), deletedAt: null },
+      {
+        $set: {
+          fxRates,
+          updatedAt: new Date()
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!result) return null;
+    return this.transformTenantToDto(result as Tenant);
+  }
+
+  /**
+   * Stores the account and agent bot the engine connected to, keeping the rest of the Chatwoot configuration
+   */
+  async updateTenantChatwootConnection(tenantId: string, connection: { accountId: number; agentBotId: number; agentBotApiKeyId: string; chatbotApiKey: string }): Promise<void> {
+    await this.db.collection('tenants').updateOne(
+      { _id: new ObjectId(tenantId), deletedAt: null },
+      {
+        $set: {
+          'chatwootConfiguration.accountId': connection.accountId,
+          'chatwootConfiguration.agentBotId': connection.agentBotId,
+          'chatwootConfiguration.agentBotApiKeyId': connection.agentBotApiKeyId,
+          'chatwootConfiguration.chatbotApiKey': connection.chatbotApiKey,
+          updatedAt: new Date()
+        }
+      }
+    );
+  }
+
   async updateTenantSubscription(tenantId: string, subscriptionData: any): Promise<TenantDto | null> {
     // Convert date strings to Date objects
     const subscriptionUpdate: any = { ...subscriptionData.subscription };
@@ -284,7 +322,12 @@ export class TenantService {
       assignedAt: new Date(),
     };
 
-    await this.db.collection('userTenants').insertOne(userTenant);
+    await this.entitlementService.createWithinLimit(
+      tenantId,
+      PlanResource.USERS,
+      () => this.countTenantUsers(tenantId),
+      () => this.db.collection('userTenants').insertOne(userTenant)
+    );
     return userTenant;
   }
 
@@ -300,6 +343,13 @@ export class TenantService {
     return result.modifiedCount > 0;
   }
 
+  async countTenantUsers(tenantId: string): Promise<number> {
+    return this.db.collection('userTenants').countDocuments({
+      tenantId: new ObjectId(tenantId),
+      removedAt: null
+    });
+  }
+
   async getTenantUsers(tenantId: string): Promise<User[]> {
     const userTenants = await this.db.collection('userTenants').find({
       tenantId: new ObjectId(tenantId),
@@ -8,6 +8,9 @@ import {
   CheckpointHappyPathTestRun,
   CheckpointUnhappyPathTestRun,
   PricingAgentCheckpoint,
+  LlmPurpose,
+  QuotaMetric,
+  WebhookEventType,
 } from '../models/mongodb.model';
 import { CheckpointTestsetDto, CheckpointHappyPathTestWithData, CheckpointUnhappyPathTestWithData } from '../dtos/checkpoint-testset.dto';
 import { AiHappyPathDatasetGenerationAgentService } from '../ai-agents/ai-happy-path-dataset-generation.agent';
@@ -16,6 +19,8 @@ import { AiDatasetToTestsetGenerationAgentService } from '../ai-agents/ai-datase
 import { DynamicRunnerService } from './dynamic-runner.service';
 import { TestingDatasetWithTestsDto } from 'src/dtos/testing-dataset-with-tests.dto';
 import { LangchainCongigService } from 'src/ai-agents/langchain-config.service';
+import { WebhookService } from './webhook.service';
+import { EntitlementService } from './entitlement.service';
 
 type TestingDatasetFilter = Filter<TestingDataset>;
 type TestingDatasetAssignmentFilter = Filter<TestingDatasetAssignment>;
@@ -42,6 +47,8 @@ export class TestingDatasetService {
     private readonly aiTestsetGenerationAgent: AiDatasetToTestsetGenerationAgentService,
     private readonly dynamicRunnerService: DynamicRunnerService,
     private readonly llmService: LangchainCongigService,
+    private readonly webhookService: WebhookService,
+    private readonly entitlementService: EntitlementService,
   ) {
     this.logger.log('TestingDatasetService initialized');
   }
@@ -139,7 +146,11 @@ export class TestingDatasetService {
     }
 
     // Get tenant LLM config (will throw error for free tier tenants without BYOK)
-    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+    const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.TEST_GENERATION, {
+      pricingAgentId: checkpoint.pricingAgentId.toString(),
+      checkpointId: checkpoint._id!.toString(),
+    });
+    await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
 
     // Generate happy path test scenarios
     const happyPathTests = await this.aiHappyPathDatasetGenerationAgent.generateHappyPathScenarios(
@@ -418,7 +429,11 @@ export class TestingDatasetService {
         this.buildDatasetUnhappyPathTestFilter(checkpoint.tenantId, { testingDatasetId: { $in: assignedDatasetIds } })
       ).toArray();
 
-      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId);
+      const llmConfig = await this.llmService.getTenantLLMConfig(tenantId, LlmPurpose.TEST_GENERATION, {
+        pricingAgentId: checkpoint.pricingAgentId.toString(),
+        checkpointId: checkpoint._id!.toString(),
+      });
+      await this.entitlementService.consumeQuota(tenantId, QuotaMetric.AI_GENERATIONS);
 
       // Generate structured test cases using AI
       const generatedInputs = await this.aiTestsetGenerationAgent.datasetToTestset({
@@ -505,6 +520,9 @@ export class TestingDatasetService {
       const happyPathDataMap = new Map(happyPathTestData.map(test => [test._id!.toString(), test]));
       const unhappyPathDataMap = new Map(unhappyPathTestData.map(test => [test._id!.toString(), test]));
 
+      let passed = 0;
+      let failed = 0;
+
       // Run happy path tests
       for (const test of happyPathTestRuns) {
         const expectedData = happyPathDataMap.get(test.datasetTestId.toString());
@@ -516,8 +534,13 @@ export class TestingDatasetService {
         // Update test run result in database
         await this.checkpointHappyPathTestCollection.updateOne(
           { _id: test._id },
-          { $set: { testRunResult: result } }
+          { $set: { testRunResult: result, lastRunAt: new Date() } }
         );
+        if (result.passed) {
+          passed++;
+        } else {
+          failed++;
+        }
 
         if (!result.passed && failFast) {
           this.logger.log('Fail fast enabled, stopping execution on first failure');
@@ -536,8 +559,13 @@ export class TestingDatasetService {
         // Update test run result in database
         await this.checkpointUnhappyPathTestCollection.updateOne(
           { _id: test._id },
-          { $set: { testRunResult: result } }
+          { $set: { testRunResult: result, lastRunAt: new Date() } }
         );
+        if (result.passed) {
+          passed++;
+        } else {
+          failed++;
+        }
         if (!result.passed && failFast) {
           this.logger.log('Fail fast enabled, stopping execution on first failure');
           break;
@@ -545,6 +573,17 @@ export class TestingDatasetService {
       }
 
       this.logger.log(`Successfully ran tests for checkpoint ${checkpoint._id}`);
+
+      const total = happyPathTestRuns.length + unhappyPathTestRuns.length;
+      await this.webhookService.emit(WebhookEventType.TESTSET_RUN_COMPLETED, checkpoint.tenantId, {
+        pricingAgentId: checkpoint.pricingAgentId,
+        checkpointId: checkpoint._id,
+        total,
+        passed,
+        failed,
+        notRun: total - passed - failed,
+        failFast,
+      });
     } catch (error) {
       this.logger.error(`Failed to run checkpoint testset for checkpoint ${checkpoint._id}: ${error.message}`, error.stack);
       throw error;
@@ -652,6 +691,7 @@ export class TestingDatasetService {
             createdAt: test.createdAt,
             functionInputParams: test.functionInputParams,
             testRunResult: test.testRunResult,
+            lastRunAt: test.lastRunAt,
             testData: testData.data
           });
         }
@@ -669,6 +709,7 @@ export class TestingDatasetService {
             createdAt: test.createdAt,
             functionInputParams: test.functionInputParams,
             testRunResult: test.testRunResult,
+            lastRunAt: test.lastRunAt,
             testData: testData.data
           });
         }
@@ -0,0 +1,220 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { ObjectId } from 'mongodb';
+import { signWebhookPayload, WebhookService, WebhookUrlError } from './webhook.service';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '../models/mongodb.model';
+import { WEBHOOK_MAX_ATTEMPTS, WEBHOOK_RETRY_BASE_SECONDS, WEBHOOK_TIMEOUT_MS } from '../config/webhook.config';
+
+jest.mock('dns/promises', () => {
+  const actual = jest.requireActual('dns/promises');
+  return { ...actual, lookup: jest.fn(actual.lookup) };
+});
+
+const PUBLIC_ADDRESS = { address: '93.184.216.34', family: 4 };
+
+describe('webhook signatures', () => {
+  it('signs the timestamp and body with the subscription secret', () => {
+    const body = JSON.stringify({ id: 'event-id', type: WebhookEventType.QUOTE_ISSUED });
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('whsec_test', 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('webhook service', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  const subscription = {
+    _id: new ObjectId(),
+    tenantId: 'tenant-id',
+    url: 'https://hooks.example.com/quoty',
+    events: [WebhookEventType.QUOTE_ISSUED],
+    secret: 'whsec_test',
+    isActive: true,
+  };
+
+  let subscriptions: Record<string, jest.Mock>;
+  let deliveries: Record<string, jest.Mock>;
+  let service: WebhookService;
+
+  const buildDelivery = (attempts: number): WebhookDelivery => ({
+    _id: new ObjectId(),
+    tenantId: 'tenant-id',
+    subscriptionId: subscription._id,
+    eventId: 'event-id',
+    event: WebhookEventType.QUOTE_ISSUED,
+    payload: { id: 'event-id', type: WebhookEventType.QUOTE_ISSUED, createdAt: now, tenantId: 'tenant-id', data: { total: 10 } },
+    status: WebhookDeliveryStatus.PENDING,
+    attempts,
+    attemptLog: [],
+    nextAttemptAt: now,
+    lockedUntil: null,
+    redeliveredFromId: null,
+    createdAt: now,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    jest.mocked(lookup).mockImplementation((async (hostname: string, options: any) =>
+      hostname === 'hooks.example.com' ? [PUBLIC_ADDRESS] : jest.requireActual('dns/promises').lookup(hostname, options)) as any);
+
+    subscriptions = {
+      insertOne: jest.fn().mockResolvedValue({ insertedId: subscription._id }),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+      findOne: jest.fn().mockResolvedValue(subscription),
+    };
+    deliveries = {
+      insertOne: jest.fn().mockResolvedValue({ insertedId: new ObjectId() }),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn().mockResolvedValue(null),
+    };
+    const db = { collection: (name: string) => (name === 'webhook-subscriptions' ? subscriptions : deliveries) };
+    service = new WebhookService(db as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each([
+    'http://127.0.0.1/hook',
+    'http://10.1.2.3/hook',
+    'http://192.168.0.10/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:10.0.0.1]/hook',
+    'http://[fd00::1]/hook',
+    'ftp://hooks.example.com/hook',
+    'file:///etc/passwd',
+  ])('rejects subscriptions to %s', async url => {
+    const error = await service.createSubscription({ url, events: subscription.events }, 'tenant-id').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(WebhookUrlError);
+    expect(subscriptions.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('rejects hosts that resolve to a private address among public ones', async () => {
+    jest.mocked(lookup).mockResolvedValueOnce([PUBLIC_ADDRESS, { address: '10.0.0.5', family: 4 }] as any);
+
+    await expect(service.createSubscription({ url: subscription.url, events: subscription.events }, 'tenant-id'))
+      .rejects.toThrow('Webhook URL must resolve to a public address: hooks.example.com');
+  });
+
+  it('rejects other schemes when a subscription URL is updated', async () => {
+    await expect(service.updateSubscription(subscription._id.toString(), { url: 'gopher://hooks.example.com' }, 'tenant-id'))
+      .rejects.toBeInstanceOf(WebhookUrlError);
+    expect(subscriptions.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('creates subscriptions to public hosts without returning the secret in the subscription', async () => {
+    const { secret, subscription: created } = await service.createSubscription({ url: subscription.url, events: subscription.events }, 'tenant-id');
+
+    expect(secret).toMatch(/^whsec_/);
+    expect(created).not.toHaveProperty('secret');
+    expect(subscriptions.insertOne).toHaveBeenCalledWith(expect.objectContaining({ secret, url: subscription.url }));
+  });
+
+  it('locks the due delivery it claims for the time of an attempt', async () => {
+    await service.deliverDueDeliveries();
+
+    expect(deliveries.findOneAndUpdate).toHaveBeenCalledWith(
+      {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: now },
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + WEBHOOK_TIMEOUT_MS * 2) } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+    );
+  });
+
+  it('posts signed deliveries to the address that was checked', async () => {
+    const delivery = buildDelivery(0);
+    deliveries.findOneAndUpdate.mockResolvedValueOnce(delivery);
+    const postWebhook = jest.spyOn(service as any, 'postWebhook').mockResolvedValue(204);
+
+    await service.deliverDueDeliveries();
+
+    const body = JSON.stringify(delivery.payload);
+    expect(postWebhook).toHaveBeenCalledWith(subscription.url, PUBLIC_ADDRESS, expect.objectContaining({
+      'X-Webhook-Id': 'event-id',
+      'X-Webhook-Signature': signWebhookPayload(subscription.secret, now.getTime() / 1000, body),
+    }), body);
+    expect(deliveries.updateOne).toHaveBeenCalledWith({ _id: delivery._id }, expect.objectContaining({
+      $set: expect.objectContaining({ status: WebhookDeliveryStatus.SUCCEEDED, attempts: 1, nextAttemptAt: null, lockedUntil: null }),
+    }));
+  });
+
+  it('retries with exponential backoff when the host was rebound to a private address', async () => {
+    const delivery = buildDelivery(2);
+    deliveries.findOneAndUpdate.mockResolvedValueOnce(delivery);
+    jest.mocked(lookup).mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }] as any);
+    const postWebhook = jest.spyOn(service as any, 'postWebhook');
+
+    await service.deliverDueDeliveries();
+
+    expect(postWebhook).not.toHaveBeenCalled();
+    expect(deliveries.updateOne).toHaveBeenCalledWith({ _id: delivery._id }, {
+      $set: expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 3,
+        nextAttemptAt: new Date(now.getTime() + WEBHOOK_RETRY_BASE_SECONDS * 1000 * 4),
+      }),
+      $push: { attemptLog: expect.objectContaining({ error: 'Webhook URL must resolve to a public address: hooks.example.com' }) },
+    });
+  });
+
+  it('gives up after the last attempt', async () => {
+    const delivery = buildDelivery(WEBHOOK_MAX_ATTEMPTS - 1);
+    deliveries.findOneAndUpdate.mockResolvedValueOnce(delivery);
+    jest.spyOn(service as any, 'postWebhook').mockResolvedValue(500);
+
+    await service.deliverDueDeliveries();
+
+    expect(deliveries.updateOne).toHaveBeenCalledWith({ _id: delivery._id }, {
+      $set: expect.objectContaining({ status: WebhookDeliveryStatus.FAILED, attempts: WEBHOOK_MAX_ATTEMPTS, nextAttemptAt: null }),
+      $push: { attemptLog: expect.objectContaining({ responseStatus: 500, error: 'Webhook endpoint responded with HTTP 500' }) },
+    });
+  });
+
+  it('redelivers the payload as a new delivery with the same event ID', async () => {
+    const original = { ...buildDelivery(WEBHOOK_MAX_ATTEMPTS), status: WebhookDeliveryStatus.FAILED };
+    deliveries.findOne.mockResolvedValue(original);
+
+    const redelivery = await service.redeliver(original._id!.toString(), 'tenant-id');
+
+    expect(redelivery).toMatchObject({
+      eventId: original.eventId,
+      payload: original.payload,
+      status: WebhookDeliveryStatus.PENDING,
+      attempts: 0,
+      attemptLog: [],
+      redeliveredFromId: original._id,
+    });
+    expect(redelivery!._id).not.toEqual(original._id);
+  });
+
+  it('connects to the given address without resolving the host again', async () => {
+    jest.useRealTimers();
+    const received = new Promise<{ host?: string; body: string }>(resolve => {
+      const server = createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => body += chunk);
+        request.on('end', () => {
+          response.statusCode = 204;
+          response.end();
+          server.close();
+          resolve({ host: request.headers.host, body });
+        });
+      });
+      server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        void (service as any).postWebhook(`http://hooks.example.invalid:${port}/quoty`, { address: '127.0.0.1', family: 4 }, {}, '{"id":"event-id"}');
+      });
+    });
+
+    await expect(received).resolves.toEqual({ host: expect.stringMatching(/^hooks\.example\.invalid:/), body: '{"id":"event-id"}' });
+  });
+});
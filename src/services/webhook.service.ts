@@ -0,0 +1,488 @@
+import { Injectable, Inject, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Db, ObjectId, Filter } from 'mongodb';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest, RequestOptions } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction } from 'net';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription,
+} from '../models/mongodb.model';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_POLL_BATCH_SIZE,
+  WEBHOOK_POLL_INTERVAL_MS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_TIMEOUT_MS,
+} from '../config/webhook.config';
+
+type WebhookSubscriptionFilter = Filter<WebhookSubscription>;
+type WebhookDeliveryFilter = Filter<WebhookDelivery>;
+
+export type WebhookSubscriptionData = Pick<WebhookSubscription, 'url' | 'events'> & Partial<Pick<WebhookSubscription, 'description' | 'isActive'>>;
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges a webhook may not be posted to,
+// the IPv4 ranges also match IPv4-mapped IPv6 addresses
+const BLOCKED_WEBHOOK_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const WEBHOOK_URL_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Thrown when a webhook URL is not an http(s) URL of a public host
+ */
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+export type WebhookDeliverySearchCriteria = {
+  subscriptionId?: string;
+  event?: WebhookEventType;
+  status?: WebhookDeliveryStatus;
+};
+
+/**
+ * Signature sent in the X-Webhook-Signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256>` of
+ * `<unix seconds>.<body>` with the subscription secret. Receivers should reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Service for the outbound webhooks of the tenants.
+ *
+ * Every event is stored as one delivery per matching subscription before it is posted, so it
+ * survives restarts. Deliveries are posted as signed JSON and retried with exponential backoff
+ * (see WEBHOOK_RETRY_BASE_SECONDS) until they succeed or WEBHOOK_MAX_ATTEMPTS is reached, each
+ * attempt is kept in the delivery log. Pending deliveries are picked up by a poller, which can
+ * run in several API instances since a delivery is locked while it is attempted.
+ *
+ * Emitting never fails the operation that emitted the event, failures are only logged.
+ * Subscription URLs must be http(s) URLs resolving to public addresses, which is checked when a
+ * subscription is saved and again before each attempt. An attempt connects to the address that was
+ * checked, so the host cannot be rebound to a private address in between. Deliveries of paused
+ * subscriptions wait until they are resumed.
+ */
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookService.name);
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(@Inject('DATABASE_CONNECTION') private db: Db) {
+    this.logger.log('WebhookService initialized');
+  }
+
+  private get subscriptionCollection() {
+    return this.db.collection<WebhookSubscription>('webhook-subscriptions');
+  }
+
+  private get deliveryCollection() {
+    return this.db.collection<WebhookDelivery>('webhook-deliveries');
+  }
+
+  private buildSubscriptionFilter(tenantId?: string, additionalFilters: Partial<WebhookSubscriptionFilter> = {}): WebhookSubscriptionFilter {
+    const filter: WebhookSubscriptionFilter = { deletedAt: null, ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  private buildDeliveryFilter(tenantId?: string, additionalFilters: Partial<WebhookDeliveryFilter> = {}): WebhookDeliveryFilter {
+    const filter: WebhookDeliveryFilter = { ...additionalFilters };
+    if (tenantId) {
+      filter.tenantId = tenantId;
+    }
+    return filter;
+  }
+
+  onModuleInit(): void {
+    this.pollTimer = setInterval(() => void this.deliverDueDeliveries(), WEBHOOK_POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.pollTimer);
+  }
+
+  // Subscription methods
+  async createSubscription(data: WebhookSubscriptionData, tenantId?: string): Promise<{ secret: string; subscription: WebhookSubscription }> {
+    this.logger.log(`Creating webhook subscription to ${data.events.join(', ')} for tenant: ${tenantId}`);
+
+    try {
+      await this.assertPublicUrl(data.url);
+
+      const secret = `whsec_${randomBytes(24).toString('hex')}`;
+      const subscription: WebhookSubscription = {
+        tenantId,
+        url: data.url,
+        events: data.events,
+        description: data.description,
+        secret,
+        isActive: data.isActive ?? true,
+        createdAt: new Date(),
+        deletedAt: null,
+      };
+
+      const result = await this.subscriptionCollection.insertOne(subscription);
+      this.logger.log(`Successfully created webhook subscription: ${result.insertedId}`);
+      const { secret: _secret, ...created } = subscription;
+      return { secret, subscription: { _id: result.insertedId, ...created } as WebhookSubscription };
+    } catch (error) {
+      this.logger.error(`Failed to create webhook subscription: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async findSubscriptions(tenantId?: string): Promise<WebhookSubscription[]> {
+    return this.subscriptionCollection
+      .find(this.buildSubscriptionFilter(tenantId), { projection: { secret: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  async findOneSubscription(id: string, tenantId?: string): Promise<WebhookSubscription | null> {
+    return this.subscriptionCollection.findOne(
+      this.buildSubscriptionFilter(tenantId, { _id: new ObjectId(id) }),
+      { projection: { secret: 0 } }
+    );
+  }
+
+  async updateSubscription(id: string, updateData: Partial<WebhookSubscriptionData>, tenantId?: string): Promise<WebhookSubscription | null> {
+    this.logger.log(`Updating webhook subscription: ${id} for tenant: ${tenantId}`);
+
+    try {
+      if (updateData.url !== undefined) {
+        await this.assertPublicUrl(updateData.url);
+      }
+
+      const result = await this.subscriptionCollection.updateOne(
+        this.buildSubscriptionFilter(tenantId, { _id: new ObjectId(id) }),
+        { $set: { ...updateData, updatedAt: new Date() } }
+      );
+
+      if (updateData.isActive && result.matchedCount > 0) {
+        // Resume the deliveries that were held while the subscription was paused
+        await this.deliveryCollection.updateMany(
+          { subscriptionId: new ObjectId(id), status: WebhookDeliveryStatus.PENDING, nextAttemptAt: null },
+          { $set: { nextAttemptAt: new Date(), updatedAt: new Date() } }
+        );
+        void this.deliverDueDeliveries();
+      }
+      return await this.findOneSubscription(id, tenantId);
+    } catch (error) {
+      this.logger.error(`Failed to update webhook subscription ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  async deleteSubscription(id: string, tenantId?: string): Promise<boolean> {
+    this.logger.log(`Deleting webhook subscription: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const result = await this.subscriptionCollection.updateOne(
+        this.buildSubscriptionFilter(tenantId, { _id: new ObjectId(id) }),
+        { $set: { deletedAt: new Date() } }
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(`Failed to delete webhook subscription ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  // Event methods
+  /**
+   * Queues a delivery of the event to every active subscription of the tenant to the event type
+   */
+  async emit(event: WebhookEventType, tenantId: string | undefined, data: Record<string, any>): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptionCollection
+        .find(this.buildSubscriptionFilter(tenantId, { isActive: true, events: event }), { projection: { _id: 1 } })
+        .toArray();
+      if (subscriptions.length === 0) {
+        return;
+      }
+
+      const now = new Date();
+      const payload = { id: randomUUID(), type: event, createdAt: now, tenantId, data };
+      await this.deliveryCollection.insertMany(subscriptions.map(subscription => ({
+        tenantId,
+        subscriptionId: subscription._id,
+        eventId: payload.id,
+        event,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        attemptLog: [],
+        nextAttemptAt: now,
+        lockedUntil: null,
+        redeliveredFromId: null,
+        createdAt: now,
+      })));
+
+      this.logger.log(`Queued ${event} event ${payload.id} for ${subscriptions.length} webhook subscriptions of tenant: ${tenantId}`);
+      void this.deliverDueDeliveries();
+    } catch (error) {
+      this.logger.error(`Failed to emit ${event} webhook event for tenant ${tenantId}: ${error.message}`, error.stack);
+    }
+  }
+
+  // Delivery methods
+  async findDeliveries(tenantId?: string, criteria: WebhookDeliverySearchCriteria = {}, limit: number = 50, skip: number = 0): Promise<WebhookDelivery[]> {
+    const filter = this.buildDeliveryFilter(tenantId);
+    if (criteria.subscriptionId) {
+      filter.subscriptionId = new ObjectId(criteria.subscriptionId);
+    }
+    if (criteria.event) {
+      filter.event = criteria.event;
+    }
+    if (criteria.status) {
+      filter.status = criteria.status;
+    }
+
+    return this.deliveryCollection
+      .find(filter, { projection: { lockedUntil: 0 } })
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray();
+  }
+
+  async findOneDelivery(id: string, tenantId?: string): Promise<WebhookDelivery | null> {
+    return this.deliveryCollection.findOne(
+      this.buildDeliveryFilter(tenantId, { _id: new ObjectId(id) }),
+      { projection: { lockedUntil: 0 } }
+    );
+  }
+
+  /**
+   * Queues the payload of a delivery again as a new delivery, with the same event ID so receivers can deduplicate it
+   */
+  async redeliver(id: string, tenantId?: string): Promise<WebhookDelivery | null> {
+    this.logger.log(`Redelivering webhook delivery: ${id} for tenant: ${tenantId}`);
+
+    try {
+      const original = await this.findOneDelivery(id, tenantId);
+      if (!original) {
+        return null;
+      }
+
+      const subscription = await this.findOneSubscription(original.subscriptionId.toString(), tenantId);
+      if (!subscription) {
+        throw new Error('Webhook subscription not found');
+      }
+
+      const now = new Date();
+      const delivery: WebhookDelivery = {
+        tenantId: original.tenantId,
+        subscriptionId: original.subscriptionId,
+        eventId: original.eventId,
+        event: original.event,
+        payload: original.payload,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        attemptLog: [],
+        nextAttemptAt: now,
+        lockedUntil: null,
+        redeliveredFromId: original._id,
+        createdAt: now,
+      };
+      const result = await this.deliveryCollection.insertOne(delivery);
+
+      void this.deliverDueDeliveries();
+      return { _id: result.insertedId, ...delivery };
+    } catch (error) {
+      this.logger.error(`Failed to redeliver webhook delivery ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Attempts the pending deliveries that are due, at most WEBHOOK_POLL_BATCH_SIZE per run
+   */
+  async deliverDueDeliveries(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      for (let i = 0; i < WEBHOOK_POLL_BATCH_SIZE; i++) {
+        const delivery = await this.claimDueDelivery();
+        if (!delivery) {
+          break;
+        }
+        await this.attemptDelivery(delivery);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to deliver due webhook deliveries: ${error.message}`, error.stack);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Locks the next due delivery for the time of an attempt, so no other instance attempts it at the same time
+   */
+  private async claimDueDelivery(): Promise<WebhookDelivery | null> {
+    const now = new Date();
+    return this.deliveryCollection.findOneAndUpdate(
+      {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { $lte: now },
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + WEBHOOK_TIMEOUT_MS * 2) } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * Rejects URLs that are not http(s) or whose host resolves to a loopback, private, link-local or
+   * reserved address, and returns the address the webhook is to be posted to
+   */
+  private async assertPublicUrl(url: string): Promise<LookupAddress> {
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+    } catch {
+      throw new WebhookUrlError(`Webhook URL is invalid: ${url}`);
+    }
+    if (!WEBHOOK_URL_PROTOCOLS.includes(parsedUrl.protocol)) {
+      throw new WebhookUrlError(`Webhook URL must use http or https: ${parsedUrl.protocol}`);
+    }
+
+    const hostname = parsedUrl.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: LookupAddress[];
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      throw new WebhookUrlError(`Webhook URL host could not be resolved: ${hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address, family }) => BLOCKED_WEBHOOK_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))) {
+      throw new WebhookUrlError(`Webhook URL must resolve to a public address: ${hostname}`);
+    }
+    return addresses[0];
+  }
+
+  /**
+   * Posts the body to the URL connecting to the given address instead of resolving the host again,
+   * redirects are not followed. Resolves with the response status.
+   */
+  private postWebhook(url: string, address: LookupAddress, headers: Record<string, string>, body: string): Promise<number> {
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        callback(null, [address]);
+      } else {
+        callback(null, address.address, address.family);
+      }
+    };
+    const options: RequestOptions = {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: pinnedLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    };
+
+    return new Promise((resolve, reject) => {
+      const request = (new URL(url).protocol === 'https:' ? httpsRequest : httpRequest)(url, options, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+
+  private async attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.subscriptionCollection.findOne({ _id: delivery.subscriptionId, deletedAt: null });
+
+    if (subscription && !subscription.isActive) {
+      // Held without an attempt until the subscription is resumed, see updateSubscription
+      await this.deliveryCollection.updateOne(
+        { _id: delivery._id },
+        { $set: { nextAttemptAt: null, lockedUntil: null, updatedAt: new Date() } }
+      );
+      return;
+    }
+
+    const attemptedAt = new Date();
+    const attempt: WebhookDeliveryAttempt = { attemptedAt, responseStatus: null, error: null, durationMs: 0 };
+
+    if (!subscription) {
+      attempt.error = 'Webhook subscription is deleted';
+    } else {
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+      try {
+        const address = await this.assertPublicUrl(subscription.url);
+        const responseStatus = await this.postWebhook(subscription.url, address, {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery._id!.toString(),
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+        }, body);
+
+        attempt.responseStatus = responseStatus;
+        if (responseStatus < 200 || responseStatus >= 300) {
+          attempt.error = `Webhook endpoint responded with HTTP ${responseStatus}`;
+        }
+      } catch (error) {
+        attempt.error = error.message;
+      }
+      attempt.durationMs = Date.now() - attemptedAt.getTime();
+    }
+
+    const attempts = delivery.attempts + 1;
+    const retry = !!attempt.error && !!subscription && attempts < WEBHOOK_MAX_ATTEMPTS;
+    const status = !attempt.error
+      ? WebhookDeliveryStatus.SUCCEEDED
+      : retry ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED;
+
+    await this.deliveryCollection.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status,
+          attempts,
+          nextAttemptAt: retry ? new Date(Date.now() + WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1)) : null,
+          lockedUntil: null,
+          updatedAt: new Date(),
+        },
+        $push: { attemptLog: attempt },
+      }
+    );
+
+    if (attempt.error) {
+      this.logger.warn(`Webhook delivery ${delivery._id} of ${delivery.event} attempt ${attempts} failed: ${attempt.error}${retry ? '' : ', giving up'}`);
+    } else {
+      this.logger.log(`Delivered webhook ${delivery._id} of ${delivery.event} on attempt ${attempts}`);
+    }
+  }
+}